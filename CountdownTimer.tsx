@@ -7,12 +7,16 @@ import Animated, {
   withRepeat,
   withSequence,
 } from 'react-native-reanimated';
+import { Clock, elapsedSeconds, getClock } from './services/clock';
 
 interface CountdownTimerProps {
   timeInSeconds: number;
   onComplete?: () => void;
   isPlaying?: boolean;
   style?: object;
+  clock?: Clock;
+  // Count up from timeInSeconds instead, e.g. the time since the last potty
+  countUp?: boolean;
 }
 
 export default function CountdownTimer({
@@ -20,6 +24,8 @@ export default function CountdownTimer({
   onComplete,
   isPlaying = true,
   style,
+  clock = getClock(),
+  countUp = false,
 }: CountdownTimerProps) {
   const [timeLeft, setTimeLeft] = useState(timeInSeconds);
   const flipAnimation = useSharedValue(0);
@@ -36,6 +42,10 @@ export default function CountdownTimer({
       .padStart(2, '0')}`;
   };
 
+  // Counting up never finishes; counting down stops at zero
+  const timeAfter = (elapsed: number): number =>
+    countUp ? timeInSeconds + elapsed : Math.max(0, timeInSeconds - elapsed);
+
   // Split formatted time into individual digits for flip animation
   const timeString = formatTime(timeLeft);
   const digits = timeString.split('');
@@ -43,7 +53,7 @@ export default function CountdownTimer({
   // Reset timer when timeInSeconds prop changes
   useEffect(() => {
     setTimeLeft(timeInSeconds);
-    startTimeRef.current = Date.now();
+    startTimeRef.current = clock.now();
     backgroundTimeRef.current = null;
   }, [timeInSeconds]);
 
@@ -56,46 +66,43 @@ export default function CountdownTimer({
       ) {
         // App is coming back to foreground
         if (backgroundTimeRef.current && startTimeRef.current && isPlaying) {
-          const backgroundTime = Date.now() - backgroundTimeRef.current;
-          const totalElapsed = Date.now() - startTimeRef.current;
-          const newTimeLeft = Math.max(
-            0,
-            timeInSeconds - Math.floor(totalElapsed / 1000),
+          const newTimeLeft = timeAfter(
+            elapsedSeconds(startTimeRef.current, clock.now()),
           );
           setTimeLeft(newTimeLeft);
 
-          if (newTimeLeft <= 0 && onComplete) {
+          if (!countUp && newTimeLeft <= 0 && onComplete) {
             onComplete();
           }
         }
         backgroundTimeRef.current = null;
       } else if (nextAppState.match(/inactive|background/)) {
         // App is going to background
-        backgroundTimeRef.current = Date.now();
+        backgroundTimeRef.current = clock.now();
       }
       appState.current = nextAppState;
     });
 
     return () => subscription?.remove();
-  }, [timeInSeconds, isPlaying, onComplete]);
+  }, [timeInSeconds, isPlaying, onComplete, countUp]);
 
   // More accurate countdown logic using time-based calculation
   useEffect(() => {
-    if (!isPlaying || timeLeft <= 0) return;
+    if (!isPlaying || (!countUp && timeLeft <= 0)) return;
 
     // Initialize start time if not set
     if (!startTimeRef.current) {
-      startTimeRef.current = Date.now();
+      startTimeRef.current = clock.now();
     }
 
     const interval = setInterval(() => {
       if (startTimeRef.current) {
-        const elapsed = Math.floor((Date.now() - startTimeRef.current) / 1000);
-        const newTimeLeft = Math.max(0, timeInSeconds - elapsed);
+        const elapsed = elapsedSeconds(startTimeRef.current, clock.now());
+        const newTimeLeft = timeAfter(elapsed);
 
         setTimeLeft(newTimeLeft);
 
-        if (newTimeLeft <= 0) {
+        if (!countUp && newTimeLeft <= 0) {
           if (onComplete) {
             onComplete();
           }
@@ -105,7 +112,7 @@ export default function CountdownTimer({
     }, 100); // Update more frequently for accuracy
 
     return () => clearInterval(interval);
-  }, [isPlaying, onComplete, timeInSeconds]);
+  }, [isPlaying, onComplete, timeInSeconds, countUp]);
 
   // Flip animation effect when time changes
   useEffect(() => {
@@ -147,7 +154,9 @@ export default function CountdownTimer({
       <View style={styles.timeContainer}>
         {digits.map((digit, index) => renderDigit(digit, index))}
       </View>
-      <Text style={styles.label}>Until Next Potty Break</Text>
+      <Text style={styles.label}>
+        {countUp ? 'Since Last Potty Break' : 'Until Next Potty Break'}
+      </Text>
     </View>
   );
 }
@@ -1,12 +1,26 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { TimerProvider } from '../contexts/TimerContext';
+import { getTimerRepository } from '../services/timerRepository';
+import { getClock } from '../services/clock';
+import { ensureApiToken } from '../services/secureSettings';
+import { useTimerAPI } from '../hooks/useTimerAPI';
 
 export default function RootLayout() {
+  // Changes made on other devices reach the timer as they happen
+  const { subscribeToCurrentTimer } = useTimerAPI();
+
+  // The first launch creates the household's admin API token
+  useEffect(() => {
+    ensureApiToken(getTimerRepository(), getClock().now()).catch(
+      console.error,
+    );
+  }, []);
+
   return (
     <SafeAreaProvider>
-      <TimerProvider>
+      <TimerProvider subscribe={subscribeToCurrentTimer}>
         <Stack screenOptions={{ headerShown: false }}>
           <Stack.Screen name="index" />
           <Stack.Screen name="api" options={{ href: null }} />
@@ -14,4 +28,4 @@ export default function RootLayout() {
       </TimerProvider>
     </SafeAreaProvider>
   );
-} 
\ No newline at end of file
+}
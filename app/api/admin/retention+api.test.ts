@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './retention+api';
+import { setTimerRepository } from '../../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../../services/memoryTimerRepository';
+
+describe('/api/admin/retention API Route', () => {
+  const day = 24 * 60 * 60 * 1000;
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  // An old timer, replaced as the current one by a new timer 40 days later
+  const seedOldTimer = async () => {
+    const timer = {
+      duration: 1800,
+      startTime: 1700000000000,
+      isActive: false,
+      remainingTime: 1800,
+      isNotificationMode: false,
+    };
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    await repository.createTimer(timer);
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000 + 40 * day);
+    await repository.createTimer(timer);
+  };
+
+  describe('GET /api/admin/retention', () => {
+    it('should return the policy and daily aggregates', async () => {
+      await seedOldTimer();
+      await repository.pruneOldData({ detailDays: 30 });
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/admin/retention'),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        policy: { detailDays: 90 },
+        aggregates: [
+          {
+            day: '2023-11-14',
+            timerCount: 1,
+            totalDuration: 1800,
+            successCount: 0,
+            accidentCount: 0,
+            triedNothingCount: 0,
+            skippedCount: 0,
+          },
+        ],
+      });
+
+      const expectedSchema = {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          policy: {
+            type: 'object',
+            properties: { detailDays: { type: 'number' } },
+            required: ['detailDays'],
+          },
+          aggregates: { type: 'array' },
+        },
+        required: ['success', 'policy', 'aggregates'],
+      };
+
+      expect(body).toMatchSchema(expectedSchema);
+    });
+  });
+
+  describe('POST /api/admin/retention', () => {
+    it('should run a pass with the configured policy', async () => {
+      await seedOldTimer();
+
+      const response = await POST(
+        new Request('http://localhost:3000/api/admin/retention', {
+          method: 'POST',
+        }),
+      );
+      const body = await response.json();
+
+      // 40 days is still inside the default 90 day window
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        result: {
+          cutoff: expect.any(Number),
+          archivedTimers: 0,
+          prunedTransitions: 0,
+          prunedEvents: 0,
+        },
+        message: 'Retention pass completed',
+      });
+    });
+
+    it('should let detailDays override the policy for one pass', async () => {
+      await seedOldTimer();
+
+      const response = await POST(
+        new Request('http://localhost:3000/api/admin/retention', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ detailDays: 30 }),
+        }),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.result.archivedTimers).toBe(1);
+      expect(repository.getRetentionPolicy()).toEqual({ detailDays: 90 });
+    });
+
+    it('should return status 400 for an invalid detailDays', async () => {
+      for (const detailDays of [0, -1, 1.5, 'ninety']) {
+        const response = await POST(
+          new Request('http://localhost:3000/api/admin/retention', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ detailDays }),
+          }),
+        );
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body).toEqual({
+          success: false,
+          error: 'Invalid detailDays. Must be a positive integer.',
+          errors: [
+            {
+              field: 'detailDays',
+              message: 'Invalid detailDays. Must be a positive integer.',
+            },
+          ],
+        });
+      }
+    });
+
+    it('should handle repository errors gracefully', async () => {
+      const error = new Error('database is locked');
+      jest.spyOn(repository, 'pruneOldData').mockRejectedValue(error);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await POST(
+        new Request('http://localhost:3000/api/admin/retention', {
+          method: 'POST',
+        }),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body).toEqual({
+        success: false,
+        error: 'Failed to run retention pass',
+        details: 'database is locked',
+      });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'POST /api/admin/retention error:',
+        error,
+      );
+    });
+  });
+});
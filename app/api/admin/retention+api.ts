@@ -0,0 +1,71 @@
+import { getTimerRepository } from '../../../services/timerRepository';
+import { authorize } from '../../../services/apiTokens';
+import {
+  invalidRequest,
+  optional,
+  positiveInteger,
+  validateBody,
+} from '../../../services/validation';
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const repository = getTimerRepository();
+    const aggregates = await repository.getDailyAggregates();
+
+    return Response.json({
+      success: true,
+      policy: repository.getRetentionPolicy(),
+      aggregates,
+    });
+  } catch (error) {
+    console.error('GET /api/admin/retention error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch retention data',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Runs a retention pass now. `detailDays` overrides the configured policy
+// for this pass only.
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const parsed = await validateBody(request, {
+      detailDays: optional(positiveInteger),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { detailDays } = parsed.value;
+
+    const repository = getTimerRepository();
+    const result = await repository.pruneOldData({
+      ...repository.getRetentionPolicy(),
+      ...(detailDays !== undefined ? { detailDays } : {}),
+    });
+
+    return Response.json({
+      success: true,
+      result,
+      message: 'Retention pass completed',
+    });
+  } catch (error) {
+    console.error('POST /api/admin/retention error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to run retention pass',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './backup+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+
+describe('/api/backup API Route', () => {
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+    let now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  const seedTimer = () =>
+    repository.createTimer({
+      duration: 1800,
+      startTime: 1700000000000,
+      isActive: false,
+      remainingTime: 1800,
+      isNotificationMode: false,
+    });
+
+  const postBackup = (body: unknown) =>
+    POST(
+      new Request('http://localhost:3000/api/backup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }),
+    );
+
+  describe('GET /api/backup', () => {
+    it('should return the backup document as an attachment', async () => {
+      // Backups leave out the version
+      const { version, ...timer } = await seedTimer();
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/backup'),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Disposition')).toBe(
+        'attachment; filename="potty-timer-backup.json"',
+      );
+      expect(body.timers).toEqual([
+        {
+          ...timer,
+          childId: null,
+          isRecurring: false,
+          maxRunsPerDay: null,
+          preAlertOffsets: [],
+          isSnoozed: false,
+          runSegments: [],
+          countUpThreshold: null,
+          name: 'Potty',
+          createdAt: 1700000000000,
+          archived: false,
+        },
+      ]);
+
+      const expectedSchema = {
+        type: 'object',
+        properties: {
+          format: { type: 'string' },
+          version: { type: 'number' },
+          exportedAt: { type: 'number' },
+          timers: { type: 'array' },
+          children: { type: 'array' },
+          events: { type: 'array' },
+          transitions: { type: 'array' },
+          dailyAggregates: { type: 'array' },
+          schedules: { type: 'array' },
+          missedAlerts: { type: 'array' },
+        },
+        required: [
+          'format',
+          'version',
+          'exportedAt',
+          'timers',
+          'children',
+          'events',
+          'transitions',
+          'dailyAggregates',
+          'schedules',
+          'missedAlerts',
+        ],
+      };
+
+      expect(body).toMatchSchema(expectedSchema);
+    });
+
+    it('should export a single table as CSV', async () => {
+      const timer = await seedTimer();
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/backup?format=csv&table=timers'),
+      );
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe(
+        'text/csv; charset=utf-8',
+      );
+      expect(text.split('\r\n')).toEqual([
+        'id,duration,startTime,isActive,remainingTime,isNotificationMode,childId,createdAt,archived,isRecurring,maxRunsPerDay,preAlertOffsets,isSnoozed,runSegments,countUpThreshold,name,adjustment',
+        `${timer.id},1800,1700000000000,false,1800,false,,1700000000000,false,false,,[],false,[],,Potty,0`,
+        '',
+      ]);
+    });
+
+    it.each([
+      ['format=xml', "Invalid format. Must be 'json' or 'csv'."],
+      [
+        'format=csv&table=users',
+        'Invalid table. Must be one of: timers, children, events, transitions, dailyAggregates, schedules, missedAlerts.',
+      ],
+    ])('should return status 400 for %s', async (query, error) => {
+      const response = await GET(
+        new Request(`http://localhost:3000/api/backup?${query}`),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error,
+        errors: [{ field: /^Invalid (\w+)\./.exec(error)![1], message: error }],
+      });
+    });
+  });
+
+  describe('POST /api/backup', () => {
+    it('should import an exported backup and report duplicates', async () => {
+      await seedTimer();
+      const exported = await (
+        await GET(new Request('http://localhost:3000/api/backup'))
+      ).json();
+      const target = new InMemoryTimerRepository();
+      setTimerRepository(target);
+
+      const first = await (await postBackup(exported)).json();
+      const second = await (await postBackup(exported)).json();
+
+      expect(first).toEqual({
+        success: true,
+        result: expect.objectContaining({
+          imported: expect.objectContaining({ timers: 1, transitions: 1 }),
+          conflicts: [],
+        }),
+        message: 'Backup imported successfully',
+      });
+      expect(second.result.imported.timers).toBe(0);
+      expect(second.result.skipped.timers).toBe(1);
+      expect(await target.getAllTimers()).toHaveLength(1);
+    });
+
+    it('should report conflicting records without overwriting them', async () => {
+      const timer = await seedTimer();
+      const exported = await (
+        await GET(new Request('http://localhost:3000/api/backup'))
+      ).json();
+      exported.timers[0].duration = 60;
+
+      const response = await postBackup(exported);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.result.conflicts).toEqual([
+        { table: 'timers', id: timer.id },
+      ]);
+      expect((await repository.getTimer(timer.id))!.duration).toBe(1800);
+    });
+
+    it('should return status 400 for an invalid backup', async () => {
+      const response = await postBackup({
+        format: 'potty-timer-backup',
+        version: 1,
+        timers: [{ id: 'timer_1' }],
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error: 'Invalid backup. timers[0].duration is missing or invalid.',
+        errors: [
+          {
+            field: 'body',
+            message:
+              'Invalid backup. timers[0].duration is missing or invalid.',
+          },
+        ],
+      });
+    });
+
+    it('should handle repository errors gracefully', async () => {
+      const error = new Error('database is locked');
+      jest.spyOn(repository, 'importData').mockRejectedValue(error);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await postBackup({
+        format: 'potty-timer-backup',
+        version: 1,
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body).toEqual({
+        success: false,
+        error: 'Failed to import backup',
+        details: 'database is locked',
+      });
+      expect(consoleSpy).toHaveBeenCalledWith('POST /api/backup error:', error);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { getTimerRepository } from '../../services/timerRepository';
+import { authorize } from '../../services/apiTokens';
+import {
+  BACKUP_TABLES,
+  BackupTable,
+  backupToCsv,
+  createBackup,
+  restoreBackup,
+  validateBackup,
+} from '../../services/backup';
+import {
+  invalidRequest,
+  oneOf,
+  optional,
+  readBody,
+  validateQuery,
+} from '../../services/validation';
+
+// Exports everything as a versioned JSON document, or one table as CSV with
+// ?format=csv&table=<name> (timers by default)
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const parsed = validateQuery(request, {
+      format: optional(oneOf(['json', 'csv'] as const)),
+      table: optional(oneOf<BackupTable>(BACKUP_TABLES)),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { format = 'json', table = 'timers' } = parsed.value;
+
+    const backup = await createBackup(getTimerRepository());
+
+    if (format === 'csv') {
+      return new Response(backupToCsv(backup, table), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="potty-timer-${table}.csv"`,
+        },
+      });
+    }
+
+    // The document itself is the body so it can be posted straight back
+    return Response.json(backup, {
+      headers: {
+        'Content-Disposition': 'attachment; filename="potty-timer-backup.json"',
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/backup error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to export backup',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Imports a JSON backup. Records whose id already exists are skipped when
+// identical and reported as conflicts otherwise; nothing is overwritten.
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const read = await readBody(request);
+    if ('errors' in read) return invalidRequest(read.errors);
+    // The document is checked as a whole, so its problems belong to the body
+    const validation = validateBackup(read.body);
+    if ('error' in validation) {
+      return invalidRequest([{ field: 'body', message: validation.error }]);
+    }
+
+    const result = await restoreBackup(getTimerRepository(), validation.backup);
+
+    return Response.json({
+      success: true,
+      result,
+      message: 'Backup imported successfully',
+    });
+  } catch (error) {
+    console.error('POST /api/backup error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to import backup',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
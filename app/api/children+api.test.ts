@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './children+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+
+describe('/api/children API Route', () => {
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+    let now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/children', () => {
+    it('should return all children with status 200', async () => {
+      const children = [
+        await repository.createChild({
+          name: 'Ava',
+          avatarEmoji: '🦄',
+          defaultInterval: 2700,
+        }),
+        await repository.createChild({
+          name: 'Leo',
+          avatarEmoji: '🦖',
+          defaultInterval: 3600,
+        }),
+      ];
+
+      const request = new Request('http://localhost:3000/api/children');
+      const response = await GET(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        children,
+        count: 2,
+      });
+
+      const expectedSchema = {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          children: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                avatarEmoji: { type: 'string' },
+                defaultInterval: { type: 'number' },
+              },
+              required: ['id', 'name', 'avatarEmoji', 'defaultInterval'],
+            },
+          },
+          count: { type: 'number' },
+        },
+        required: ['success', 'children', 'count'],
+      };
+
+      expect(body).toMatchSchema(expectedSchema);
+    });
+
+    it('should handle database errors gracefully', async () => {
+      const error = new Error('Database connection failed');
+      jest.spyOn(repository, 'getChildren').mockRejectedValue(error);
+
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const request = new Request('http://localhost:3000/api/children');
+      const response = await GET(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body).toEqual({
+        success: false,
+        error: 'Failed to fetch children',
+        details: 'Database connection failed',
+      });
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('POST /api/children', () => {
+    it('should create a child successfully with status 200', async () => {
+      const createChild = jest.spyOn(repository, 'createChild');
+
+      const request = new Request('http://localhost:3000/api/children', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: '  Ava ',
+          avatarEmoji: '🦄',
+          defaultInterval: 2700,
+        }),
+      });
+
+      const response = await POST(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        child: {
+          id: expect.stringMatching(/^child_\d+_[a-z0-9]+$/),
+          name: 'Ava',
+          avatarEmoji: '🦄',
+          defaultInterval: 2700,
+        },
+        message: 'Child created successfully',
+      });
+      expect(await repository.getChildren()).toEqual([body.child]);
+      expect(createChild).toHaveBeenCalledWith({
+        name: 'Ava',
+        avatarEmoji: '🦄',
+        defaultInterval: 2700,
+      });
+    });
+
+    it('should apply defaults for avatar and interval', async () => {
+      const createChild = jest.spyOn(repository, 'createChild');
+
+      const request = new Request('http://localhost:3000/api/children', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Leo' }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(createChild).toHaveBeenCalledWith({
+        name: 'Leo',
+        avatarEmoji: '🧒',
+        defaultInterval: 3600,
+      });
+    });
+
+    it('should return status 400 for invalid child data', async () => {
+      const createChild = jest.spyOn(repository, 'createChild');
+      const testCases = [
+        {},
+        { name: '   ' },
+        { name: 42 },
+        { name: 'Ava', avatarEmoji: '' },
+        { name: 'Ava', defaultInterval: 0 },
+        { name: 'Ava', defaultInterval: 'hourly' },
+      ];
+
+      for (const requestData of testCases) {
+        const request = new Request('http://localhost:3000/api/children', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestData),
+        });
+
+        const response = await POST(request);
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body.success).toBe(false);
+      }
+
+      expect(createChild).not.toHaveBeenCalled();
+      expect(await repository.getChildren()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { getTimerRepository } from '../../services/timerRepository';
+import { authorize } from '../../services/apiTokens';
+import {
+  invalidRequest,
+  nonEmptyString,
+  optional,
+  positiveNumber,
+  validateBody,
+} from '../../services/validation';
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const children = await getTimerRepository().getChildren();
+
+    return Response.json({
+      success: true,
+      children,
+      count: children.length,
+    });
+  } catch (error) {
+    console.error('GET /api/children error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch children',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const parsed = await validateBody(request, {
+      name: nonEmptyString,
+      avatarEmoji: optional(nonEmptyString),
+      defaultInterval: optional(positiveNumber),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { name, avatarEmoji = '🧒', defaultInterval = 3600 } = parsed.value;
+
+    const child = await getTimerRepository().createChild({
+      name,
+      avatarEmoji,
+      defaultInterval,
+    });
+
+    return Response.json({
+      success: true,
+      child,
+      message: 'Child created successfully',
+    });
+  } catch (error) {
+    console.error('POST /api/children error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to create child',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
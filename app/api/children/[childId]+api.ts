@@ -0,0 +1,133 @@
+import { getTimerRepository } from '../../../services/timerRepository';
+import { authorize } from '../../../services/apiTokens';
+import {
+  invalidRequest,
+  nonEmptyString,
+  optional,
+  positiveNumber,
+  validateBody,
+} from '../../../services/validation';
+
+export async function GET(
+  request: Request,
+  { childId }: { childId: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const child = await getTimerRepository().getChild(childId);
+
+    if (!child) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Child not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    return Response.json({
+      success: true,
+      child,
+    });
+  } catch (error) {
+    console.error(`GET /api/children/${childId} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch child',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { childId }: { childId: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const child = await getTimerRepository().getChild(childId);
+    if (!child) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Child not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const parsed = await validateBody(request, {
+      name: optional(nonEmptyString),
+      avatarEmoji: optional(nonEmptyString),
+      defaultInterval: optional(positiveNumber),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+
+    const updatedChild = await getTimerRepository().updateChild(
+      childId,
+      parsed.value,
+    );
+
+    return Response.json({
+      success: true,
+      child: updatedChild,
+      message: 'Child updated successfully',
+    });
+  } catch (error) {
+    console.error(`PUT /api/children/${childId} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to update child',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { childId }: { childId: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const child = await getTimerRepository().getChild(childId);
+    if (!child) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Child not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    await getTimerRepository().deleteChild(childId);
+
+    return Response.json({
+      success: true,
+      message: 'Child deleted successfully',
+    });
+  } catch (error) {
+    console.error(`DELETE /api/children/${childId} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to delete child',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
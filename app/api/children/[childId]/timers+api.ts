@@ -0,0 +1,2 @@
+// /api/children/:childId/timers is /api/timers scoped to one child
+export { GET, POST } from '../../timers+api';
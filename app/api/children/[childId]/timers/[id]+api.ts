@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id is /api/timers/:id scoped to one child
+export { GET, PUT, PATCH, DELETE } from '../../../timers/[id]+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/adjust is /api/timers/:id/adjust scoped to one child
+export { PUT } from '../../../../timers/[id]/adjust+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/duration is /api/timers/:id/duration scoped to one child
+export { PUT } from '../../../../timers/[id]/duration+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/events is /api/timers/:id/events scoped to one child
+export { GET } from '../../../../timers/[id]/events+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/history is /api/timers/:id/history scoped to one child
+export { GET } from '../../../../timers/[id]/history+api';
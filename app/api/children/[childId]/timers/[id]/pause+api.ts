@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/pause is /api/timers/:id/pause scoped to one child
+export { PUT } from '../../../../timers/[id]/pause+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/reset is /api/timers/:id/reset scoped to one child
+export { PUT } from '../../../../timers/[id]/reset+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/segments is /api/timers/:id/segments scoped to one child
+export { GET } from '../../../../timers/[id]/segments+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/snooze is /api/timers/:id/snooze scoped to one child
+export { PUT } from '../../../../timers/[id]/snooze+api';
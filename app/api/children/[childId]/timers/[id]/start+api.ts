@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/:id/start is /api/timers/:id/start scoped to one child
+export { PUT } from '../../../../timers/[id]/start+api';
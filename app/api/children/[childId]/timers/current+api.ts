@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/current is /api/timers/current scoped to one child
+export { GET } from '../../../timers/current+api';
@@ -0,0 +1,2 @@
+// /api/children/:childId/timers/current/events is /api/timers/current/events scoped to one child
+export { GET } from '../../../../timers/current/events+api';
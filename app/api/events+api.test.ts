@@ -0,0 +1,361 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './events+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+import { FakeClock, setClock } from '../../services/clock';
+
+describe('/api/events API Route', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    clock = new FakeClock(1700000000000);
+    repository = new InMemoryTimerRepository(clock);
+    setClock(clock);
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setClock(null);
+    setTimerRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/events', () => {
+    it('should return logged events with status 200', async () => {
+      const older = await repository.createEvent({
+        timerId: null,
+        outcome: 'accident',
+        timestamp: clock.now() - 60000,
+        note: 'At the park',
+      });
+      clock.advanceSeconds(1);
+      const newer = await repository.createEvent({
+        timerId: 'timer_1',
+        outcome: 'success',
+        timestamp: clock.now(),
+        note: null,
+      });
+      const getEvents = jest.spyOn(repository, 'getEvents');
+
+      const request = new Request('http://localhost:3000/api/events');
+      const response = await GET(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        events: [newer, older],
+        count: 2,
+      });
+      expect(getEvents).toHaveBeenCalledWith({
+        timerId: undefined,
+        limit: undefined,
+      });
+
+      const expectedSchema = {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          events: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                timerId: { type: ['string', 'null'] },
+                outcome: {
+                  enum: ['success', 'accident', 'tried-nothing', 'skipped'],
+                },
+                timestamp: { type: 'number' },
+                note: { type: ['string', 'null'] },
+              },
+              required: ['id', 'timerId', 'outcome', 'timestamp', 'note'],
+            },
+          },
+          count: { type: 'number' },
+        },
+        required: ['success', 'events', 'count'],
+      };
+
+      expect(body).toMatchSchema(expectedSchema);
+    });
+
+    it('should pass timerId and limit filters to the database', async () => {
+      const getEvents = jest.spyOn(repository, 'getEvents');
+
+      const request = new Request(
+        'http://localhost:3000/api/events?timerId=timer_1&limit=10',
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(getEvents).toHaveBeenCalledWith({
+        timerId: 'timer_1',
+        limit: 10,
+      });
+    });
+
+    it('should pass outcome and childId filters to the database', async () => {
+      const getEvents = jest.spyOn(repository, 'getEvents');
+
+      const request = new Request(
+        'http://localhost:3000/api/events?outcome=success&childId=child_1&limit=1',
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(getEvents).toHaveBeenCalledWith({
+        childId: 'child_1',
+        outcome: 'success',
+        limit: 1,
+      });
+    });
+
+    it('should return status 400 when outcome is invalid', async () => {
+      const getEvents = jest.spyOn(repository, 'getEvents');
+      const request = new Request(
+        'http://localhost:3000/api/events?outcome=maybe',
+      );
+      const response = await GET(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error:
+          'Invalid outcome. Must be one of: success, accident, tried-nothing, skipped.',
+        errors: [
+          {
+            field: 'outcome',
+            message:
+              'Invalid outcome. Must be one of: success, accident, tried-nothing, skipped.',
+          },
+        ],
+      });
+      expect(getEvents).not.toHaveBeenCalled();
+    });
+
+    it('should return status 400 when limit is invalid', async () => {
+      const getEvents = jest.spyOn(repository, 'getEvents');
+      const testCases = ['0', '-5', 'abc', '2.5'];
+
+      for (const limit of testCases) {
+        const request = new Request(
+          `http://localhost:3000/api/events?limit=${limit}`,
+        );
+        const response = await GET(request);
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body).toEqual({
+          success: false,
+          error: 'Invalid limit. Must be a positive integer.',
+          errors: [
+            {
+              field: 'limit',
+              message: 'Invalid limit. Must be a positive integer.',
+            },
+          ],
+        });
+      }
+
+      expect(getEvents).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors gracefully', async () => {
+      const error = new Error('Database connection failed');
+      jest.spyOn(repository, 'getEvents').mockRejectedValue(error);
+
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const request = new Request('http://localhost:3000/api/events');
+      const response = await GET(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body).toEqual({
+        success: false,
+        error: 'Failed to fetch events',
+        details: 'Database connection failed',
+      });
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('POST /api/events', () => {
+    it('should log an event successfully with status 200', async () => {
+      const createEvent = jest.spyOn(repository, 'createEvent');
+
+      const request = new Request('http://localhost:3000/api/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          outcome: 'success',
+          timerId: 'timer_1',
+          timestamp: 1700000000000,
+          note: 'Stayed dry all morning',
+        }),
+      });
+
+      const response = await POST(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        event: {
+          id: expect.stringMatching(/^event_\d+_[a-z0-9]+$/),
+          timerId: 'timer_1',
+          outcome: 'success',
+          timestamp: 1700000000000,
+          note: 'Stayed dry all morning',
+        },
+        message: 'Event logged successfully',
+      });
+      expect(await repository.getEvents()).toEqual([body.event]);
+      expect(createEvent).toHaveBeenCalledWith({
+        outcome: 'success',
+        timerId: 'timer_1',
+        timestamp: 1700000000000,
+        note: 'Stayed dry all morning',
+      });
+    });
+
+    it('should default timestamp to now and optional fields to null', async () => {
+      const createEvent = jest.spyOn(repository, 'createEvent');
+
+      const request = new Request('http://localhost:3000/api/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome: 'skipped' }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(createEvent).toHaveBeenCalledWith({
+        outcome: 'skipped',
+        timerId: null,
+        timestamp: clock.now(),
+        note: null,
+      });
+    });
+
+    it('should return status 400 when outcome is invalid', async () => {
+      const createEvent = jest.spyOn(repository, 'createEvent');
+      const testCases = [{}, { outcome: 'pee' }, { outcome: 42 }];
+
+      for (const requestData of testCases) {
+        const request = new Request('http://localhost:3000/api/events', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestData),
+        });
+
+        const response = await POST(request);
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body).toEqual({
+          success: false,
+          error:
+            'Invalid outcome. Must be one of: success, accident, tried-nothing, skipped.',
+          errors: [
+            {
+              field: 'outcome',
+              message:
+                'Invalid outcome. Must be one of: success, accident, tried-nothing, skipped.',
+            },
+          ],
+        });
+      }
+
+      expect(createEvent).not.toHaveBeenCalled();
+    });
+
+    it('should return status 400 when timestamp or note is invalid', async () => {
+      const createEvent = jest.spyOn(repository, 'createEvent');
+      const testCases = [
+        { outcome: 'success', timestamp: 'yesterday' },
+        { outcome: 'success', timestamp: -1 },
+        { outcome: 'success', note: 123 },
+      ];
+
+      for (const requestData of testCases) {
+        const request = new Request('http://localhost:3000/api/events', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestData),
+        });
+
+        const response = await POST(request);
+
+        expect(response.status).toBe(400);
+      }
+
+      expect(createEvent).not.toHaveBeenCalled();
+    });
+
+    it('should handle database errors gracefully', async () => {
+      const error = new Error('Database insertion failed');
+      jest.spyOn(repository, 'createEvent').mockRejectedValue(error);
+
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const request = new Request('http://localhost:3000/api/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome: 'accident' }),
+      });
+
+      const response = await POST(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body).toEqual({
+        success: false,
+        error: 'Failed to log event',
+        details: 'Database insertion failed',
+      });
+
+      expect(consoleSpy).toHaveBeenCalledWith('POST /api/events error:', error);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('recurring timers', () => {
+    it('should start the next interval when an outcome is logged', async () => {
+      const timer = await repository.createTimer({
+        duration: 1800,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 0,
+        isNotificationMode: true,
+        isRecurring: true,
+      });
+      clock.advanceSeconds(60);
+
+      const response = await POST(
+        new Request('http://localhost:3000/api/events', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ outcome: 'success', timerId: timer.id }),
+        }),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.timer).toMatchObject({
+        id: timer.id,
+        isActive: true,
+        startTime: 1700000060000,
+        remainingTime: 1800,
+        isNotificationMode: false,
+      });
+    });
+  });
+});
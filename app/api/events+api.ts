@@ -0,0 +1,110 @@
+import { getTimerRepository } from '../../services/timerRepository';
+import { authorize } from '../../services/apiTokens';
+import { getClock } from '../../services/clock';
+import { restartIfRecurring } from '../../services/recurrence';
+import { PottyOutcome } from '../../contexts/TimerContext';
+import {
+  invalidRequest,
+  nullableString,
+  oneOf,
+  optional,
+  positiveIntegerParam,
+  positiveNumber,
+  stringParam,
+  validateBody,
+  validateQuery,
+} from '../../services/validation';
+
+const VALID_OUTCOMES: PottyOutcome[] = [
+  'success',
+  'accident',
+  'tried-nothing',
+  'skipped',
+];
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const parsed = validateQuery(request, {
+      timerId: stringParam,
+      childId: stringParam,
+      outcome: optional(oneOf(VALID_OUTCOMES)),
+      limit: positiveIntegerParam(),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { timerId, childId, outcome, limit } = parsed.value;
+
+    const events = await getTimerRepository().getEvents({
+      timerId,
+      childId,
+      outcome,
+      limit,
+    });
+
+    return Response.json({
+      success: true,
+      events,
+      count: events.length,
+    });
+  } catch (error) {
+    console.error('GET /api/events error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch events',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const parsed = await validateBody(request, {
+      outcome: oneOf(VALID_OUTCOMES),
+      timerId: optional(nullableString),
+      note: optional(nullableString),
+      timestamp: optional(positiveNumber),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { outcome, timerId, note, timestamp } = parsed.value;
+
+    const event = await getTimerRepository().createEvent({
+      outcome,
+      timerId: timerId ?? null,
+      timestamp: timestamp ?? getClock().now(),
+      note: note ?? null,
+    });
+
+    // Logging the outcome of an alert starts a recurring timer's next interval
+    const timer = event.timerId
+      ? await getTimerRepository().getTimer(event.timerId)
+      : null;
+    const restartedTimer = timer
+      ? await restartIfRecurring(getTimerRepository(), timer, getClock().now())
+      : null;
+
+    return Response.json({
+      success: true,
+      event,
+      ...(restartedTimer ? { timer: restartedTimer } : {}),
+      message: 'Event logged successfully',
+    });
+  } catch (error) {
+    console.error('POST /api/events error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to log event',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
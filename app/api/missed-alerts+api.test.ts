@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './missed-alerts+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+import { FakeClock, setClock } from '../../services/clock';
+
+describe('/api/missed-alerts API Route', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
+  const createRunning = (duration: number) =>
+    repository.createTimer({
+      duration,
+      startTime: clock.now(),
+      isActive: true,
+      remainingTime: duration,
+      isNotificationMode: false,
+      runSegments: [{ startedAt: clock.now(), endedAt: null }],
+    });
+
+  const reconcile = () =>
+    POST(
+      new Request('http://localhost:3000/api/missed-alerts', {
+        method: 'POST',
+      }),
+    );
+
+  beforeEach(() => {
+    clock = new FakeClock(1700000000000);
+    repository = new InMemoryTimerRepository();
+    setClock(clock);
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setClock(null);
+    setTimerRepository(null);
+  });
+
+  it('should record timers that expired unseen and list them', async () => {
+    const timer = await createRunning(1800);
+    clock.advanceSeconds(1800 + 45 * 60);
+
+    const reconciled = await reconcile();
+    const listed = await GET(
+      new Request(
+        `http://localhost:3000/api/missed-alerts?timerId=${timer.id}`,
+      ),
+    );
+
+    const expected = {
+      success: true,
+      missedAlerts: [
+        {
+          id: expect.stringMatching(/^missed_/),
+          timerId: timer.id,
+          expiredAt: 1700001800000,
+          detectedAt: 1700004500000,
+          lateSeconds: 2700,
+        },
+      ],
+      count: 1,
+    };
+    expect(await reconciled.json()).toEqual(expected);
+    expect(await listed.json()).toEqual(expected);
+    expect((await repository.getTimer(timer.id))?.isActive).toBe(false);
+
+    // Nothing left to reconcile
+    expect((await (await reconcile()).json()).count).toBe(0);
+  });
+
+  it('should return 400 for an invalid limit', async () => {
+    const response = await GET(
+      new Request('http://localhost:3000/api/missed-alerts?limit=0'),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Invalid limit. Must be a positive integer.',
+      errors: [
+        {
+          field: 'limit',
+          message: 'Invalid limit. Must be a positive integer.',
+        },
+      ],
+    });
+  });
+});
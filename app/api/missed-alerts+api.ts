@@ -0,0 +1,75 @@
+import { getTimerRepository } from '../../services/timerRepository';
+import { authorize } from '../../services/apiTokens';
+import { getClock } from '../../services/clock';
+import {
+  lateSeconds,
+  reconcileMissedAlerts,
+} from '../../services/missedAlerts';
+import {
+  invalidRequest,
+  positiveIntegerParam,
+  stringParam,
+  validateQuery,
+} from '../../services/validation';
+
+// Missed alerts, newest first, each with how many seconds late it was found
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const parsed = validateQuery(request, {
+      timerId: stringParam,
+      limit: positiveIntegerParam(),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+
+    const missedAlerts = (
+      await getTimerRepository().getMissedAlerts(parsed.value)
+    ).map((alert) => ({ ...alert, lateSeconds: lateSeconds(alert) }));
+
+    return Response.json({
+      success: true,
+      missedAlerts,
+      count: missedAlerts.length,
+    });
+  } catch (error) {
+    console.error('GET /api/missed-alerts error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch missed alerts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Expires every timer that ran out unseen and returns the alerts found missed
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const missedAlerts = (
+      await reconcileMissedAlerts(getTimerRepository(), getClock().now())
+    ).map((alert) => ({ ...alert, lateSeconds: lateSeconds(alert) }));
+
+    return Response.json({
+      success: true,
+      missedAlerts,
+      count: missedAlerts.length,
+    });
+  } catch (error) {
+    console.error('POST /api/missed-alerts error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to reconcile missed alerts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { GET } from './openapi.json+api';
+import { componentSchema, openApiDocument } from '../../services/openapi';
+import * as timers from './timers+api';
+import * as timer from './timers/[id]+api';
+import * as current from './timers/current+api';
+import * as currentEvents from './timers/current/events+api';
+import * as start from './timers/[id]/start+api';
+import * as pause from './timers/[id]/pause+api';
+import * as reset from './timers/[id]/reset+api';
+import * as duration from './timers/[id]/duration+api';
+import * as adjust from './timers/[id]/adjust+api';
+import * as snooze from './timers/[id]/snooze+api';
+import * as history from './timers/[id]/history+api';
+import * as segments from './timers/[id]/segments+api';
+import * as events from './timers/[id]/events+api';
+
+// Every route module in app/api/timers by the path it serves
+const timerRoutes: Record<string, object> = {
+  '/api/timers': timers,
+  '/api/timers/{id}': timer,
+  '/api/timers/current': current,
+  '/api/timers/current/events': currentEvents,
+  '/api/timers/{id}/start': start,
+  '/api/timers/{id}/pause': pause,
+  '/api/timers/{id}/reset': reset,
+  '/api/timers/{id}/duration': duration,
+  '/api/timers/{id}/adjust': adjust,
+  '/api/timers/{id}/snooze': snooze,
+  '/api/timers/{id}/history': history,
+  '/api/timers/{id}/segments': segments,
+  '/api/timers/{id}/events': events,
+};
+
+describe('/api/openapi.json API Route', () => {
+  it('should serve the OpenAPI document', async () => {
+    const response = await GET();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.openapi).toBe('3.1.0');
+    expect(body).toEqual(JSON.parse(JSON.stringify(openApiDocument)));
+  });
+
+  it('should describe every timer route and method', () => {
+    const paths = openApiDocument.paths as Record<string, object>;
+
+    expect(Object.keys(paths).sort()).toEqual(Object.keys(timerRoutes).sort());
+    for (const [route, handlers] of Object.entries(timerRoutes)) {
+      expect(Object.keys(paths[route]).sort()).toEqual(
+        Object.keys(handlers)
+          .map((method) => method.toLowerCase())
+          .sort(),
+      );
+    }
+  });
+
+  it('should document the 401 of every operation', () => {
+    const paths = openApiDocument.paths as Record<
+      string,
+      Record<string, { responses: object }>
+    >;
+
+    expect(openApiDocument.security).toEqual([{ bearerToken: [] }]);
+    for (const operations of Object.values(paths)) {
+      for (const { responses } of Object.values(operations)) {
+        expect(responses).toHaveProperty('401');
+      }
+    }
+  });
+
+  it('should hold valid JSON Schemas', () => {
+    for (const name of Object.keys(
+      openApiDocument.components.schemas,
+    ) as (keyof typeof openApiDocument.components.schemas)[]) {
+      expect(componentSchema(name)).toBeValidSchema();
+    }
+  });
+
+  it('should accept the requests the routes accept', () => {
+    expect({ name: 'Medicine', maxRunsPerDay: null }).toMatchSchema(
+      componentSchema('UpdateTimerRequest'),
+    );
+    expect({ seconds: -300 }).toMatchSchema(componentSchema('AdjustRequest'));
+    expect({}).not.toMatchSchema(componentSchema('UpdateTimerRequest'));
+    expect({ isActive: true }).not.toMatchSchema(
+      componentSchema('UpdateTimerRequest'),
+    );
+    expect({ seconds: 0 }).not.toMatchSchema(componentSchema('AdjustRequest'));
+  });
+});
@@ -0,0 +1,6 @@
+import { openApiDocument } from '../../services/openapi';
+
+// The OpenAPI 3.1 description of the timer API
+export async function GET(): Promise<Response> {
+  return Response.json(openApiDocument);
+}
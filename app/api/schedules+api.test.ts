@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './schedules+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+
+describe('/api/schedules API Route', () => {
+  let repository: InMemoryTimerRepository;
+
+  const template = {
+    name: 'Weekdays',
+    windows: [
+      { start: '07:00', end: '12:00', interval: 2700 },
+      { start: '12:00', end: '19:00', interval: 5400 },
+    ],
+    quietHours: { start: '20:00', end: '07:00' },
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+    let now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  const postSchedule = (body: unknown) =>
+    POST(
+      new Request('http://localhost:3000/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }),
+    );
+
+  describe('POST /api/schedules', () => {
+    it('should create a schedule template', async () => {
+      const response = await postSchedule(template);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        schedule: {
+          id: expect.stringMatching(/^schedule_\d+_[a-z0-9]+$/),
+          ...template,
+          isActive: false,
+        },
+        message: 'Schedule created successfully',
+      });
+      expect(await repository.getSchedule(body.schedule.id)).toEqual(
+        body.schedule,
+      );
+    });
+
+    it('should leave only the newest active template active', async () => {
+      const first = await (
+        await postSchedule({ ...template, isActive: true })
+      ).json();
+      const second = await (
+        await postSchedule({ ...template, name: 'Weekend', isActive: true })
+      ).json();
+
+      expect(await repository.getActiveSchedule()).toEqual(second.schedule);
+      expect((await repository.getSchedule(first.schedule.id))?.isActive).toBe(
+        false,
+      );
+    });
+
+    it('should return status 400 for an invalid template', async () => {
+      const response = await postSchedule({
+        ...template,
+        quietHours: { start: '8pm', end: '7am' },
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error:
+          'Invalid quietHours. Must be null or start and end times as HH:MM.',
+        errors: [
+          {
+            field: 'quietHours',
+            message:
+              'Invalid quietHours. Must be null or start and end times as HH:MM.',
+          },
+        ],
+      });
+      expect(await repository.getSchedules()).toEqual([]);
+    });
+  });
+
+  describe('GET /api/schedules', () => {
+    it('should list templates in creation order', async () => {
+      await postSchedule(template);
+      await postSchedule({ ...template, name: 'Weekend' });
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/schedules'),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.count).toBe(2);
+      expect(body.schedules.map((s: { name: string }) => s.name)).toEqual([
+        'Weekdays',
+        'Weekend',
+      ]);
+    });
+
+    it('should handle repository errors gracefully', async () => {
+      jest
+        .spyOn(repository, 'getSchedules')
+        .mockRejectedValue(new Error('Disk full'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/schedules'),
+      );
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Failed to fetch schedules',
+        details: 'Disk full',
+      });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { getTimerRepository } from '../../services/timerRepository';
+import { authorize } from '../../services/apiTokens';
+import { invalidRequest, readBody } from '../../services/validation';
+import { ScheduleTemplate, parseSchedule } from '../../services/schedules';
+
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const schedules = await getTimerRepository().getSchedules();
+
+    return Response.json({
+      success: true,
+      schedules,
+      count: schedules.length,
+    });
+  } catch (error) {
+    console.error('GET /api/schedules error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch schedules',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const read = await readBody(request);
+    if ('errors' in read) return invalidRequest(read.errors);
+    const result = parseSchedule(read.body);
+    if ('errors' in result) return invalidRequest(result.errors);
+
+    const schedule = await getTimerRepository().createSchedule(
+      result.schedule as Omit<ScheduleTemplate, 'id'>,
+    );
+
+    return Response.json({
+      success: true,
+      schedule,
+      message: 'Schedule created successfully',
+    });
+  } catch (error) {
+    console.error('POST /api/schedules error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to create schedule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { GET, PUT, DELETE } from './[id]+api';
+import { setTimerRepository } from '../../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../../services/memoryTimerRepository';
+import { ScheduleTemplate } from '../../../services/schedules';
+
+describe('/api/schedules/[id] API Route', () => {
+  let repository: InMemoryTimerRepository;
+  let schedule: ScheduleTemplate;
+
+  beforeEach(async () => {
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+    schedule = await repository.createSchedule({
+      name: 'Weekdays',
+      windows: [{ start: '07:00', end: '19:00', interval: 3600 }],
+      quietHours: null,
+      isActive: false,
+    });
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  const request = (method: string, body?: unknown) =>
+    new Request(`http://localhost:3000/api/schedules/${schedule.id}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  it('should return a schedule template', async () => {
+    const response = await GET(request('GET'), { id: schedule.id });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, schedule });
+  });
+
+  it('should return status 404 for an unknown template', async () => {
+    const response = await GET(request('GET'), { id: 'schedule_missing' });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Schedule not found',
+    });
+  });
+
+  it('should update only the given fields', async () => {
+    const response = await PUT(
+      request('PUT', {
+        quietHours: { start: '20:30', end: '06:30' },
+        isActive: true,
+      }),
+      { id: schedule.id },
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.schedule).toEqual({
+      ...schedule,
+      quietHours: { start: '20:30', end: '06:30' },
+      isActive: true,
+    });
+    expect(await repository.getActiveSchedule()).toEqual(body.schedule);
+  });
+
+  it('should return status 400 for an invalid update', async () => {
+    const response = await PUT(request('PUT', { name: '' }), {
+      id: schedule.id,
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe(
+      'Invalid name. Must be a non-empty string.',
+    );
+  });
+
+  it('should delete a schedule template', async () => {
+    const response = await DELETE(request('DELETE'), { id: schedule.id });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      message: 'Schedule deleted successfully',
+    });
+    expect(await repository.getSchedule(schedule.id)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { getTimerRepository } from '../../../services/timerRepository';
+import { authorize } from '../../../services/apiTokens';
+import { parseSchedule } from '../../../services/schedules';
+import { invalidRequest, readBody } from '../../../services/validation';
+
+export async function GET(
+  request: Request,
+  { id }: { id: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const schedule = await getTimerRepository().getSchedule(id);
+
+    if (!schedule) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Schedule not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    return Response.json({
+      success: true,
+      schedule,
+    });
+  } catch (error) {
+    console.error(`GET /api/schedules/${id} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch schedule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { id }: { id: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const existing = await getTimerRepository().getSchedule(id);
+    if (!existing) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Schedule not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const read = await readBody(request);
+    if ('errors' in read) return invalidRequest(read.errors);
+    const result = parseSchedule(read.body, true);
+    if ('errors' in result) return invalidRequest(result.errors);
+
+    const schedule = await getTimerRepository().updateSchedule(
+      id,
+      result.schedule,
+    );
+
+    return Response.json({
+      success: true,
+      schedule,
+      message: 'Schedule updated successfully',
+    });
+  } catch (error) {
+    console.error(`PUT /api/schedules/${id} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to update schedule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { id }: { id: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const schedule = await getTimerRepository().getSchedule(id);
+    if (!schedule) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Schedule not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    await getTimerRepository().deleteSchedule(id);
+
+    return Response.json({
+      success: true,
+      message: 'Schedule deleted successfully',
+    });
+  } catch (error) {
+    console.error(`DELETE /api/schedules/${id} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to delete schedule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
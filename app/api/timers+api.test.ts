@@ -2,46 +2,42 @@
  * @jest-environment node
  */
 import { GET, POST } from './timers+api';
-import { database } from '../../services/database';
-
-// Mock the database service
-jest.mock('../../services/database', () => ({
-  database: {
-    initialize: jest.fn(() => Promise.resolve()),
-    getAllTimers: jest.fn(),
-    createTimer: jest.fn(),
-  },
-}));
-
-const mockDatabase = database as jest.Mocked<typeof database>;
+import { GET as getCurrentTimer } from './timers/current+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+import { componentSchema } from '../../services/openapi';
 
 describe('/api/timers API Route', () => {
+  let repository: InMemoryTimerRepository;
+
   beforeEach(() => {
-    jest.clearAllMocks();
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    jest.restoreAllMocks();
   });
 
   describe('GET /api/timers', () => {
     it('should return all timers with status 200', async () => {
-      const mockTimers = [
-        {
-          id: 'timer_1',
-          duration: 1800,
-          startTime: Date.now() - 1000,
-          isActive: false,
-          remainingTime: 1800,
-          isNotificationMode: false,
-        },
-        {
-          id: 'timer_2',
-          duration: 3600,
-          startTime: Date.now(),
-          isActive: true,
-          remainingTime: 3600,
-          isNotificationMode: false,
-        },
-      ];
-
-      mockDatabase.getAllTimers.mockResolvedValue(mockTimers);
+      let now = 1700000000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+      const older = await repository.createTimer({
+        duration: 1800,
+        startTime: 1700000000000,
+        isActive: false,
+        remainingTime: 1800,
+        isNotificationMode: false,
+      });
+      const newer = await repository.createTimer({
+        duration: 3600,
+        startTime: 1700000001000,
+        isActive: true,
+        remainingTime: 3600,
+        isNotificationMode: false,
+      });
 
       const request = new Request('http://localhost:3000/api/timers');
       const response = await GET(request);
@@ -50,48 +46,15 @@ describe('/api/timers API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timers: mockTimers,
+        timers: [newer, older],
         count: 2,
+        nextCursor: null,
       });
 
-      // Validate response schema
-      const expectedSchema = {
-        type: 'object',
-        properties: {
-          success: { type: 'boolean' },
-          timers: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                duration: { type: 'number' },
-                startTime: { type: 'number' },
-                isActive: { type: 'boolean' },
-                remainingTime: { type: 'number' },
-                isNotificationMode: { type: 'boolean' },
-              },
-              required: [
-                'id',
-                'duration',
-                'startTime',
-                'isActive',
-                'remainingTime',
-                'isNotificationMode',
-              ],
-            },
-          },
-          count: { type: 'number' },
-        },
-        required: ['success', 'timers', 'count'],
-      };
-
-      expect(body).toMatchSchema(expectedSchema);
+      expect(body).toMatchSchema(componentSchema('TimerListResponse'));
     });
 
     it('should return empty array when no timers exist', async () => {
-      mockDatabase.getAllTimers.mockResolvedValue([]);
-
       const request = new Request('http://localhost:3000/api/timers');
       const response = await GET(request);
       const body = await response.json();
@@ -101,12 +64,77 @@ describe('/api/timers API Route', () => {
         success: true,
         timers: [],
         count: 0,
+        nextCursor: null,
       });
     });
 
+    it('should pass paging and filter parameters to the repository', async () => {
+      const listTimers = jest
+        .spyOn(repository, 'listTimers')
+        .mockResolvedValue({
+          timers: [],
+          nextCursor: '1700000000000:timer_9',
+        });
+
+      const request = new Request(
+        'http://localhost:3000/api/timers?limit=10&cursor=1700000100000%3Atimer_1&isActive=true&createdAfter=1700000000500&createdBefore=1700003600000&sort=asc',
+      );
+      const response = await GET(request);
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.nextCursor).toBe('1700000000000:timer_9');
+      expect(listTimers).toHaveBeenCalledWith({
+        limit: 10,
+        cursor: { createdAt: 1700000100000, id: 'timer_1' },
+        isActive: true,
+        createdAfter: 1700000000500,
+        createdBefore: 1700003600000,
+        sort: 'asc',
+      });
+    });
+
+    it('should return status 400 for invalid query parameters', async () => {
+      const listTimers = jest.spyOn(repository, 'listTimers');
+      const testCases = [
+        ['limit=0', 'Invalid limit. Must be an integer between 1 and 100.'],
+        ['limit=101', 'Invalid limit. Must be an integer between 1 and 100.'],
+        ['cursor=garbage', 'Invalid cursor.'],
+        ['isActive=yes', "Invalid isActive. Must be 'true' or 'false'."],
+        [
+          'createdAfter=yesterday',
+          'Invalid createdAfter. Must be a timestamp in milliseconds.',
+        ],
+        [
+          'createdBefore=-1',
+          'Invalid createdBefore. Must be a timestamp in milliseconds.',
+        ],
+        ['archived=maybe', "Invalid archived. Must be 'true' or 'false'."],
+        ['sort=newest', "Invalid sort. Must be 'asc' or 'desc'."],
+      ];
+
+      for (const [query, error] of testCases) {
+        const request = new Request(
+          `http://localhost:3000/api/timers?${query}`,
+        );
+        const response = await GET(request);
+        const body = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(body).toEqual({
+          success: false,
+          error,
+          errors: [{ field: query.split('=')[0], message: error }],
+        });
+        expect(body).toMatchSchema(componentSchema('Error'));
+      }
+
+      expect(listTimers).not.toHaveBeenCalled();
+    });
+
     it('should handle database errors gracefully', async () => {
       const error = new Error('Database connection failed');
-      mockDatabase.getAllTimers.mockRejectedValue(error);
+      jest.spyOn(repository, 'listTimers').mockRejectedValue(error);
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -120,6 +148,7 @@ describe('/api/timers API Route', () => {
         error: 'Failed to fetch timers',
         details: 'Database connection failed',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
       expect(consoleSpy).toHaveBeenCalledWith('GET /api/timers error:', error);
       consoleSpy.mockRestore();
@@ -132,16 +161,7 @@ describe('/api/timers API Route', () => {
         duration: 1800,
       };
 
-      const newTimer = {
-        id: 'timer_123',
-        duration: 1800,
-        startTime: Date.now(),
-        isActive: false,
-        remainingTime: 1800,
-        isNotificationMode: false,
-      };
-
-      mockDatabase.createTimer.mockResolvedValue(newTimer);
+      const createTimer = jest.spyOn(repository, 'createTimer');
 
       const request = new Request('http://localhost:3000/api/timers', {
         method: 'POST',
@@ -155,11 +175,12 @@ describe('/api/timers API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timer: newTimer,
+        timer: (await repository.getAllTimers())[0],
         message: 'Timer created successfully',
       });
+      expect(body.timer).toMatchObject({ duration: 1800, isActive: false });
 
-      expect(mockDatabase.createTimer).toHaveBeenCalledWith({
+      expect(createTimer).toHaveBeenCalledWith({
         duration: 1800,
         startTime: expect.any(Number),
         isActive: false,
@@ -167,39 +188,11 @@ describe('/api/timers API Route', () => {
         isNotificationMode: false,
       });
 
-      // Validate response schema
-      const expectedSchema = {
-        type: 'object',
-        properties: {
-          success: { type: 'boolean' },
-          timer: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              duration: { type: 'number' },
-              startTime: { type: 'number' },
-              isActive: { type: 'boolean' },
-              remainingTime: { type: 'number' },
-              isNotificationMode: { type: 'boolean' },
-            },
-            required: [
-              'id',
-              'duration',
-              'startTime',
-              'isActive',
-              'remainingTime',
-              'isNotificationMode',
-            ],
-          },
-          message: { type: 'string' },
-        },
-        required: ['success', 'timer', 'message'],
-      };
-
-      expect(body).toMatchSchema(expectedSchema);
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
     });
 
     it('should return status 400 when duration is missing', async () => {
+      const createTimer = jest.spyOn(repository, 'createTimer');
       const requestData = {};
 
       const request = new Request('http://localhost:3000/api/timers', {
@@ -215,12 +208,20 @@ describe('/api/timers API Route', () => {
       expect(body).toEqual({
         success: false,
         error: 'Invalid duration. Must be a positive number.',
+        errors: [
+          {
+            field: 'duration',
+            message: 'Invalid duration. Must be a positive number.',
+          },
+        ],
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
-      expect(mockDatabase.createTimer).not.toHaveBeenCalled();
+      expect(createTimer).not.toHaveBeenCalled();
     });
 
     it('should return status 400 when duration is invalid', async () => {
+      const createTimer = jest.spyOn(repository, 'createTimer');
       const testCases = [
         { duration: 0 },
         { duration: -1 },
@@ -242,10 +243,16 @@ describe('/api/timers API Route', () => {
         expect(body).toEqual({
           success: false,
           error: 'Invalid duration. Must be a positive number.',
+          errors: [
+            {
+              field: 'duration',
+              message: 'Invalid duration. Must be a positive number.',
+            },
+          ],
         });
       }
 
-      expect(mockDatabase.createTimer).not.toHaveBeenCalled();
+      expect(createTimer).not.toHaveBeenCalled();
     });
 
     it('should handle database errors gracefully', async () => {
@@ -254,7 +261,7 @@ describe('/api/timers API Route', () => {
       };
 
       const error = new Error('Database insertion failed');
-      mockDatabase.createTimer.mockRejectedValue(error);
+      jest.spyOn(repository, 'createTimer').mockRejectedValue(error);
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -273,12 +280,14 @@ describe('/api/timers API Route', () => {
         error: 'Failed to create timer',
         details: 'Database insertion failed',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
       expect(consoleSpy).toHaveBeenCalledWith('POST /api/timers error:', error);
       consoleSpy.mockRestore();
     });
 
     it('should handle malformed JSON gracefully', async () => {
+      const createTimer = jest.spyOn(repository, 'createTimer');
       const request = new Request('http://localhost:3000/api/timers', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -288,10 +297,14 @@ describe('/api/timers API Route', () => {
       const response = await POST(request);
       const body = await response.json();
 
-      expect(response.status).toBe(500);
-      expect(body.success).toBe(false);
-      expect(body.error).toBe('Failed to create timer');
-      expect(body.details).toBe('Unknown error');
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error: 'Invalid body. Must be JSON.',
+        errors: [{ field: 'body', message: 'Invalid body. Must be JSON.' }],
+      });
+      expect(body).toMatchSchema(componentSchema('Error'));
+      expect(createTimer).not.toHaveBeenCalled();
     });
 
     it('should create timer with valid edge case durations', async () => {
@@ -304,17 +317,6 @@ describe('/api/timers API Route', () => {
       ];
 
       for (const requestData of testCases) {
-        const newTimer = {
-          id: `timer_${requestData.duration}`,
-          duration: requestData.duration,
-          startTime: Date.now(),
-          isActive: false,
-          remainingTime: requestData.duration,
-          isNotificationMode: false,
-        };
-
-        mockDatabase.createTimer.mockResolvedValue(newTimer);
-
         const request = new Request('http://localhost:3000/api/timers', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -327,28 +329,99 @@ describe('/api/timers API Route', () => {
         expect(response.status).toBe(200);
         expect(body.success).toBe(true);
         expect(body.timer.duration).toBe(requestData.duration);
-
-        jest.clearAllMocks();
+        expect(body.timer.remainingTime).toBe(requestData.duration);
       }
     });
   });
 
+  describe('Child-scoped /api/children/[childId]/timers', () => {
+    const createChild = () =>
+      repository.createChild({
+        name: 'Ava',
+        avatarEmoji: '🦄',
+        defaultInterval: 2700,
+      });
+
+    it('should only list timers belonging to the child', async () => {
+      let now = 1700000000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+      const child = await createChild();
+      const timer = {
+        duration: 1800,
+        startTime: 1700000000000,
+        isActive: false,
+        remainingTime: 1800,
+        isNotificationMode: false,
+      };
+      const own = await repository.createTimer({ ...timer, childId: child.id });
+      await repository.createTimer({ ...timer, duration: 900 });
+      const listTimers = jest.spyOn(repository, 'listTimers');
+
+      const request = new Request(
+        `http://localhost:3000/api/children/${child.id}/timers`,
+      );
+      const response = await GET(request, { childId: child.id });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.timers.map((timer: { id: string }) => timer.id)).toEqual([
+        own.id,
+      ]);
+      expect(listTimers).toHaveBeenCalledWith({ childId: child.id });
+    });
+
+    it('should return 404 when the child does not exist', async () => {
+      const listTimers = jest.spyOn(repository, 'listTimers');
+
+      const request = new Request(
+        'http://localhost:3000/api/children/missing/timers',
+      );
+      const response = await GET(request, { childId: 'missing' });
+      const body = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(body).toEqual({
+        success: false,
+        error: 'Child not found',
+      });
+      expect(listTimers).not.toHaveBeenCalled();
+    });
+
+    it("should create timers with the child's default interval", async () => {
+      const child = await createChild();
+      const createTimer = jest.spyOn(repository, 'createTimer');
+
+      const request = new Request(
+        `http://localhost:3000/api/children/${child.id}/timers`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
+        },
+      );
+      const response = await POST(request, { childId: child.id });
+
+      expect(response.status).toBe(200);
+      expect(createTimer).toHaveBeenCalledWith({
+        duration: 2700,
+        startTime: expect.any(Number),
+        isActive: false,
+        remainingTime: 2700,
+        isNotificationMode: false,
+        childId: child.id,
+      });
+    });
+  });
+
   describe('Database initialization', () => {
-    it('should initialize database on module import', () => {
-      // Since the module is already imported when the test file loads,
-      // we can check that the initialize function is available and callable
-      expect(mockDatabase.initialize).toBeDefined();
-      expect(typeof mockDatabase.initialize).toBe('function');
-
-      // Call the initialize function to simulate module import behavior
-      mockDatabase.initialize();
-      expect(mockDatabase.initialize).toHaveBeenCalled();
+    it('should initialize the repository', async () => {
+      await expect(repository.initialize()).resolves.toBeUndefined();
     });
   });
 
   describe('Error handling edge cases', () => {
     it('should handle non-Error objects thrown from database', async () => {
-      mockDatabase.getAllTimers.mockRejectedValue('String error');
+      jest.spyOn(repository, 'listTimers').mockRejectedValue('String error');
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -367,7 +440,7 @@ describe('/api/timers API Route', () => {
     });
 
     it('should handle null/undefined errors from database', async () => {
-      mockDatabase.createTimer.mockRejectedValue(null);
+      jest.spyOn(repository, 'createTimer').mockRejectedValue(null);
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -390,4 +463,186 @@ describe('/api/timers API Route', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('stored timers', () => {
+    it('should list timers created through POST', async () => {
+      const createResponse = await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duration: 1800 }),
+        }),
+      );
+      const { timer } = await createResponse.json();
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/timers'),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        timers: [
+          {
+            ...timer,
+            childId: null,
+            isRecurring: false,
+            maxRunsPerDay: null,
+            preAlertOffsets: [],
+            isSnoozed: false,
+            runSegments: [],
+            countUpThreshold: null,
+            name: 'Potty',
+            version: 1,
+          },
+        ],
+        count: 1,
+        nextCursor: null,
+      });
+      expect(body).toMatchSchema(componentSchema('TimerListResponse'));
+    });
+
+    it('should store pre-alert offsets largest first', async () => {
+      const response = await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duration: 1800, preAlertOffsets: [60, 300] }),
+        }),
+      );
+      const { timer } = await response.json();
+
+      expect(timer.preAlertOffsets).toEqual([300, 60]);
+    });
+
+    it('should return status 400 for invalid pre-alert offsets', async () => {
+      const response = await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duration: 1800, preAlertOffsets: [-60] }),
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error:
+          'Invalid preAlertOffsets. Must be an array of positive whole seconds.',
+        errors: [
+          {
+            field: 'preAlertOffsets',
+            message:
+              'Invalid preAlertOffsets. Must be an array of positive whole seconds.',
+          },
+        ],
+      });
+    });
+
+    it('should keep the current timer of each name apart', async () => {
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+      await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duration: 3600 }),
+        }),
+      );
+      dateSpy.mockReturnValue(1700000001000);
+      const waterResponse = await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duration: 2700, name: ' Drink water ' }),
+        }),
+      );
+      dateSpy.mockRestore();
+
+      const { timer: water } = await waterResponse.json();
+      expect(water.name).toBe('Drink water');
+
+      const potty = await getCurrentTimer(
+        new Request('http://localhost:3000/api/timers/current?name=Potty'),
+      );
+      expect((await potty.json()).timer.duration).toBe(3600);
+      const latest = await getCurrentTimer(
+        new Request('http://localhost:3000/api/timers/current'),
+      );
+      expect((await latest.json()).timer.id).toBe(water.id);
+    });
+
+    it('should list every invalid field at once', async () => {
+      const response = await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            duration: 0,
+            name: '',
+            countUpThreshold: 1.5,
+          }),
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(
+        (await response.json()).errors.map((e: { field: string }) => e.field),
+      ).toEqual(['duration', 'name', 'countUpThreshold']);
+    });
+
+    it('should return status 400 for an empty name', async () => {
+      const response = await POST(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ duration: 1800, name: '  ' }),
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Invalid name. Must be 1 to 40 characters.',
+        errors: [
+          {
+            field: 'name',
+            message: 'Invalid name. Must be 1 to 40 characters.',
+          },
+        ],
+      });
+    });
+
+    it('should page through timers with nextCursor', async () => {
+      let now = 1700000000000;
+      const dateSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+      for (let i = 1; i <= 3; i++) {
+        now += 1000;
+        await POST(
+          new Request('http://localhost:3000/api/timers', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ duration: i * 600 }),
+          }),
+        );
+      }
+      dateSpy.mockRestore();
+
+      const durations: number[] = [];
+      let cursor: string | null = null;
+      do {
+        const query: string = cursor
+          ? `limit=2&sort=asc&cursor=${encodeURIComponent(cursor)}`
+          : 'limit=2&sort=asc';
+        const response = await GET(
+          new Request(`http://localhost:3000/api/timers?${query}`),
+        );
+        const body = await response.json();
+        durations.push(...body.timers.map((timer: any) => timer.duration));
+        cursor = body.nextCursor;
+      } while (cursor);
+
+      expect(durations).toEqual([600, 1200, 1800]);
+    });
+  });
 });
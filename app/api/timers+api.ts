@@ -1,13 +1,80 @@
-import { database } from '../../services/database';
+import {
+  getTimerRepository,
+  decodeTimerCursor,
+  TimerListOptions,
+  MAX_TIMER_PAGE_SIZE,
+} from '../../services/timerRepository';
+import { authorize } from '../../services/apiTokens';
+import { getClock } from '../../services/clock';
+import { parsePreAlertOffsets } from '../../services/preAlerts';
+import { parseCountUpThreshold } from '../../services/countUp';
+import { parseTimerName } from '../../services/namedTimers';
+import {
+  Schema,
+  booleanParam,
+  fromParser,
+  invalidRequest,
+  oneOf,
+  optional,
+  positiveIntegerParam,
+  positiveNumber,
+  timestampParam,
+  validateBody,
+  validateQuery,
+} from '../../services/validation';
 
-export async function GET(request: Request): Promise<Response> {
+// Paging and filter query parameters of GET /api/timers
+const listQuerySchema: Schema<Omit<TimerListOptions, 'childId'>> = {
+  limit: positiveIntegerParam(MAX_TIMER_PAGE_SIZE),
+  cursor: optional((value) => {
+    const cursor = decodeTimerCursor(String(value));
+    return cursor ? { value: cursor } : { error: 'Invalid cursor.' };
+  }),
+  isActive: booleanParam,
+  archived: booleanParam,
+  createdAfter: timestampParam,
+  createdBefore: timestampParam,
+  sort: optional(oneOf(['asc', 'desc'] as const)),
+};
+
+const createTimerSchema = {
+  duration: optional(positiveNumber),
+  name: optional(fromParser(parseTimerName, 'name')),
+  preAlertOffsets: optional(fromParser(parsePreAlertOffsets, 'offsets')),
+  countUpThreshold: optional(fromParser(parseCountUpThreshold, 'threshold')),
+};
+
+export async function GET(
+  request: Request,
+  { childId }: { childId?: string } = {},
+): Promise<Response> {
   try {
-    const timers = await database.getAllTimers();
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const parsed = validateQuery(request, listQuerySchema);
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+
+    if (childId && !(await getTimerRepository().getChild(childId))) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Child not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const { timers, nextCursor } = await getTimerRepository().listTimers({
+      ...parsed.value,
+      ...(childId ? { childId } : {}),
+    });
 
     return Response.json({
       success: true,
       timers,
       count: timers.length,
+      nextCursor,
     });
   } catch (error) {
     console.error('GET /api/timers error:', error);
@@ -22,28 +89,50 @@ export async function GET(request: Request): Promise<Response> {
   }
 }
 
-export async function POST(request: Request): Promise<Response> {
+export async function POST(
+  request: Request,
+  { childId }: { childId?: string } = {},
+): Promise<Response> {
   try {
-    const body = await request.json();
-    const { duration } = body;
+    const denied = await authorize(request);
+    if (denied) return denied;
 
-    if (!duration || typeof duration !== 'number' || duration <= 0) {
+    const child = childId ? await getTimerRepository().getChild(childId) : null;
+    if (childId && !child) {
       return Response.json(
         {
           success: false,
-          error: 'Invalid duration. Must be a positive number.',
+          error: 'Child not found',
         },
-        { status: 400 },
+        { status: 404 },
       );
     }
 
-    const now = Date.now();
-    const newTimer = await database.createTimer({
+    const parsed = await validateBody(request, createTimerSchema);
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { name, preAlertOffsets, countUpThreshold } = parsed.value;
+    // Timers created for a child fall back to that child's default interval
+    const duration = parsed.value.duration ?? child?.defaultInterval;
+    if (duration === undefined) {
+      return invalidRequest([
+        {
+          field: 'duration',
+          message: 'Invalid duration. Must be a positive number.',
+        },
+      ]);
+    }
+
+    const now = getClock().now();
+    const newTimer = await getTimerRepository().createTimer({
       duration,
       startTime: now,
       isActive: false,
       remainingTime: duration,
       isNotificationMode: false,
+      ...(childId ? { childId } : {}),
+      ...(name ? { name } : {}),
+      ...(preAlertOffsets ? { preAlertOffsets } : {}),
+      ...(countUpThreshold ? { countUpThreshold } : {}),
     });
 
     return Response.json({
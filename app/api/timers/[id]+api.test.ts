@@ -1,39 +1,66 @@
 /**
  * @jest-environment node
  */
-import { GET, PUT, DELETE } from './[id]+api';
-import { database } from '../../../services/database';
-
-// Mock the database service
-jest.mock('../../../services/database', () => ({
-  database: {
-    initialize: jest.fn(() => Promise.resolve()),
-    getTimer: jest.fn(),
-    updateTimer: jest.fn(),
-    deleteTimer: jest.fn(),
-  },
-}));
-
-const mockDatabase = database as jest.Mocked<typeof database>;
+import { GET, PUT, PATCH, DELETE } from './[id]+api';
+import { GET as GET_CURRENT } from './current+api';
+import { PUT as SNOOZE } from './[id]/snooze+api';
+import { PUT as START } from './[id]/start+api';
+import { PUT as PAUSE } from './[id]/pause+api';
+import { GET as GET_SEGMENTS } from './[id]/segments+api';
+import { PUT as ADJUST } from './[id]/adjust+api';
+import { setTimerRepository } from '../../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../../services/memoryTimerRepository';
+import { FakeClock, setClock } from '../../../services/clock';
+import { componentSchema } from '../../../services/openapi';
+import { TimerState } from '../../../contexts/TimerContext';
 
 describe('/api/timers/[id] API Route', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
   beforeEach(() => {
-    jest.clearAllMocks();
+    clock = new FakeClock(1700000000000);
+    repository = new InMemoryTimerRepository();
+    setClock(clock);
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setClock(null);
+    setTimerRepository(null);
+    jest.restoreAllMocks();
   });
 
+  // Stores a timer under its own id, e.g. 'timer_123', and reads it back
+  const storeTimer = async (
+    timer: TimerState & { childId?: string | null },
+  ): Promise<TimerState> => {
+    await repository.importData({
+      timers: [
+        { childId: null, ...timer, createdAt: clock.now(), archived: false },
+      ],
+      children: [],
+      events: [],
+      transitions: [],
+      dailyAggregates: [],
+      schedules: [],
+      missedAlerts: [],
+    });
+    return (await repository.getTimer(timer.id))!;
+  };
+
   describe('GET /api/timers/[id]', () => {
     it('should return a specific timer with status 200', async () => {
       const timerId = 'timer_123';
-      const mockTimer = {
+      const storedTimer = await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: true,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(mockTimer);
+      });
+      const getTimer = jest.spyOn(repository, 'getTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}`,
@@ -44,46 +71,17 @@ describe('/api/timers/[id] API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timer: mockTimer,
-      });
-
-      expect(mockDatabase.getTimer).toHaveBeenCalledWith(timerId);
-
-      // Validate response schema
-      const expectedSchema = {
-        type: 'object',
-        properties: {
-          success: { type: 'boolean' },
-          timer: {
-            type: 'object',
-            properties: {
-              id: { type: 'string' },
-              duration: { type: 'number' },
-              startTime: { type: 'number' },
-              isActive: { type: 'boolean' },
-              remainingTime: { type: 'number' },
-              isNotificationMode: { type: 'boolean' },
-            },
-            required: [
-              'id',
-              'duration',
-              'startTime',
-              'isActive',
-              'remainingTime',
-              'isNotificationMode',
-            ],
-          },
-        },
-        required: ['success', 'timer'],
-      };
+        timer: storedTimer,
+      });
 
-      expect(body).toMatchSchema(expectedSchema);
+      expect(getTimer).toHaveBeenCalledWith(timerId);
+
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
     });
 
     it('should return 404 when timer not found', async () => {
       const timerId = 'nonexistent_timer';
-
-      mockDatabase.getTimer.mockResolvedValue(null);
+      const getTimer = jest.spyOn(repository, 'getTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}`,
@@ -96,15 +94,16 @@ describe('/api/timers/[id] API Route', () => {
         success: false,
         error: 'Timer not found',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
-      expect(mockDatabase.getTimer).toHaveBeenCalledWith(timerId);
+      expect(getTimer).toHaveBeenCalledWith(timerId);
     });
 
     it('should handle database errors gracefully', async () => {
       const timerId = 'timer_123';
       const error = new Error('Database connection failed');
 
-      mockDatabase.getTimer.mockRejectedValue(error);
+      jest.spyOn(repository, 'getTimer').mockRejectedValue(error);
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -120,6 +119,7 @@ describe('/api/timers/[id] API Route', () => {
         error: 'Failed to fetch timer',
         details: 'Database connection failed',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
       expect(consoleSpy).toHaveBeenCalledWith(
         `GET /api/timers/${timerId} error:`,
@@ -129,27 +129,70 @@ describe('/api/timers/[id] API Route', () => {
     });
   });
 
+  describe('Child-scoped /api/children/[childId]/timers/[id]', () => {
+    const childTimer = () =>
+      storeTimer({
+        id: 'timer_123',
+        duration: 3600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 3600,
+        isNotificationMode: false,
+        childId: 'child_1',
+      });
+
+    it('should return the timer when it belongs to the child', async () => {
+      const storedTimer = await childTimer();
+
+      const request = new Request(
+        'http://localhost:3000/api/children/child_1/timers/timer_123',
+      );
+      const response = await GET(request, {
+        id: 'timer_123',
+        childId: 'child_1',
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.timer).toEqual(storedTimer);
+    });
+
+    it("should return 404 for another child's timer", async () => {
+      await childTimer();
+      const deleteTimer = jest.spyOn(repository, 'deleteTimer');
+
+      const request = new Request(
+        'http://localhost:3000/api/children/child_2/timers/timer_123',
+        { method: 'DELETE' },
+      );
+      const response = await DELETE(request, {
+        id: 'timer_123',
+        childId: 'child_2',
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(body).toEqual({
+        success: false,
+        error: 'Timer not found',
+      });
+      expect(deleteTimer).not.toHaveBeenCalled();
+      expect(await repository.getTimer('timer_123')).not.toBeNull();
+    });
+  });
+
   describe('PUT /api/timers/[id]', () => {
     it('should handle start action successfully', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now() - 1000,
+        startTime: clock.now() - 1000,
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      const updatedTimer = {
-        ...existingTimer,
-        isActive: true,
-        startTime: Date.now(),
-        isNotificationMode: false,
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.updateTimer.mockResolvedValue(updatedTimer);
+      });
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}/start`,
@@ -164,37 +207,41 @@ describe('/api/timers/[id] API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timer: updatedTimer,
+        timer: await repository.getTimer(timerId),
         message: 'Timer start successfully',
       });
-
-      expect(mockDatabase.updateTimer).toHaveBeenCalledWith(timerId, {
+      expect(body.timer).toMatchObject({
         isActive: true,
-        startTime: expect.any(Number),
+        startTime: clock.now(),
         isNotificationMode: false,
       });
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
+
+      expect(updateTimer).toHaveBeenCalledWith(
+        timerId,
+        {
+          isActive: true,
+          startTime: clock.now(),
+          isNotificationMode: false,
+          runSegments: [{ startedAt: clock.now(), endedAt: null }],
+        },
+        'start',
+        undefined,
+      );
     });
 
     it('should handle pause action successfully', async () => {
       const timerId = 'timer_123';
-      const startTime = Date.now() - 5000; // Started 5 seconds ago
-      const activeTimer = {
+      const startTime = clock.now() - 5000; // Started 5 seconds ago
+      await storeTimer({
         id: timerId,
         duration: 3600,
         startTime,
         isActive: true,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      const pausedTimer = {
-        ...activeTimer,
-        isActive: false,
-        remainingTime: 3595, // 5 seconds elapsed
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(activeTimer);
-      mockDatabase.updateTimer.mockResolvedValue(pausedTimer);
+      });
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}/pause`,
@@ -209,37 +256,35 @@ describe('/api/timers/[id] API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timer: pausedTimer,
+        timer: await repository.getTimer(timerId),
         message: 'Timer pause successfully',
       });
+      expect(body.timer).toMatchObject({ isActive: false, startTime });
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
 
-      expect(mockDatabase.updateTimer).toHaveBeenCalledWith(timerId, {
-        isActive: false,
-        remainingTime: expect.any(Number),
-      });
+      expect(updateTimer).toHaveBeenCalledWith(
+        timerId,
+        {
+          isActive: false,
+          remainingTime: expect.any(Number),
+          runSegments: [],
+        },
+        'pause',
+        undefined,
+      );
     });
 
     it('should handle reset action successfully', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      const existingTimer = await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now() - 1000,
+        startTime: clock.now() - 1000,
         isActive: true,
         remainingTime: 3599,
         isNotificationMode: false,
-      };
-
-      const resetTimer = {
-        ...existingTimer,
-        isActive: false,
-        startTime: Date.now(),
-        remainingTime: 3600,
-        isNotificationMode: false,
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.updateTimer.mockResolvedValue(resetTimer);
+      });
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}/reset`,
@@ -254,40 +299,46 @@ describe('/api/timers/[id] API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timer: resetTimer,
+        timer: await repository.getTimer(timerId),
         message: 'Timer reset successfully',
       });
-
-      expect(mockDatabase.updateTimer).toHaveBeenCalledWith(timerId, {
+      expect(body.timer).toMatchObject({
         isActive: false,
-        startTime: expect.any(Number),
-        remainingTime: existingTimer.duration,
+        startTime: clock.now(),
+        remainingTime: 3600,
         isNotificationMode: false,
       });
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
+
+      expect(updateTimer).toHaveBeenCalledWith(
+        timerId,
+        {
+          duration: existingTimer.duration,
+          isActive: false,
+          startTime: clock.now(),
+          remainingTime: existingTimer.duration,
+          isNotificationMode: false,
+          runSegments: [],
+        },
+        'reset',
+        undefined,
+      );
     });
 
     it('should handle duration update action successfully', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      const updatedTimer = {
-        ...existingTimer,
-        duration: 1800,
-        remainingTime: 1800,
-      };
+      });
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const requestData = { duration: 1800 };
 
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.updateTimer.mockResolvedValue(updatedTimer);
-
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}/duration`,
         {
@@ -303,29 +354,36 @@ describe('/api/timers/[id] API Route', () => {
       expect(response.status).toBe(200);
       expect(body).toEqual({
         success: true,
-        timer: updatedTimer,
+        timer: await repository.getTimer(timerId),
         message: 'Timer duration successfully',
       });
+      expect(body.timer).toMatchObject({ duration: 1800, remainingTime: 1800 });
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
 
-      expect(mockDatabase.updateTimer).toHaveBeenCalledWith(timerId, {
-        duration: 1800,
-        remainingTime: 1800,
-        startTime: expect.any(Number),
-      });
+      expect(updateTimer).toHaveBeenCalledWith(
+        timerId,
+        {
+          duration: 1800,
+          remainingTime: 1800,
+          startTime: clock.now(),
+          runSegments: [],
+        },
+        'duration',
+        undefined,
+      );
     });
 
     it('should return 400 for invalid duration update', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
+      });
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const invalidData = { duration: -1 };
 
@@ -345,61 +403,53 @@ describe('/api/timers/[id] API Route', () => {
       expect(body).toEqual({
         success: false,
         error: 'Invalid duration. Must be a positive number.',
+        errors: [
+          {
+            field: 'duration',
+            message: 'Invalid duration. Must be a positive number.',
+          },
+        ],
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
-      expect(mockDatabase.updateTimer).not.toHaveBeenCalled();
+      expect(updateTimer).not.toHaveBeenCalled();
     });
 
-    it('should handle generic update action', async () => {
+    it('should refuse free-form updates', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      const updatedTimer = {
-        ...existingTimer,
-        isNotificationMode: true,
-      };
-
-      const updateData = { isNotificationMode: true };
-
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.updateTimer.mockResolvedValue(updatedTimer);
+      });
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}`,
         {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updateData),
+          body: JSON.stringify({ remainingTime: 1 }),
         },
       );
 
       const response = await PUT(request, { id: timerId });
-      const body = await response.json();
 
-      expect(response.status).toBe(200);
-      expect(body).toEqual({
-        success: true,
-        timer: updatedTimer,
-        message: 'Timer updated successfully',
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('GET, PATCH, DELETE');
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Method not allowed. Use PATCH to edit a timer.',
       });
-
-      expect(mockDatabase.updateTimer).toHaveBeenCalledWith(
-        timerId,
-        updateData,
-      );
+      expect(updateTimer).not.toHaveBeenCalled();
     });
 
     it('should return 404 when timer not found for update', async () => {
       const timerId = 'nonexistent_timer';
-
-      mockDatabase.getTimer.mockResolvedValue(null);
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}/start`,
@@ -416,25 +466,25 @@ describe('/api/timers/[id] API Route', () => {
         success: false,
         error: 'Timer not found',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
-      expect(mockDatabase.updateTimer).not.toHaveBeenCalled();
+      expect(updateTimer).not.toHaveBeenCalled();
     });
 
     it('should handle database errors during update', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
+      });
 
       const error = new Error('Database update failed');
 
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.updateTimer.mockRejectedValue(error);
+      jest.spyOn(repository, 'updateTimer').mockRejectedValue(error);
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -454,6 +504,7 @@ describe('/api/timers/[id] API Route', () => {
         error: 'Failed to update timer',
         details: 'Database update failed',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
       expect(consoleSpy).toHaveBeenCalledWith(
         `PUT /api/timers/${timerId} error:`,
@@ -463,20 +514,133 @@ describe('/api/timers/[id] API Route', () => {
     });
   });
 
+  describe('PATCH /api/timers/[id]', () => {
+    const timerId = 'timer_123';
+    const existingTimer = {
+      id: timerId,
+      duration: 3600,
+      startTime: 1700000000000,
+      isActive: false,
+      remainingTime: 3600,
+      isNotificationMode: false,
+    };
+
+    const patch = (body: unknown) =>
+      PATCH(
+        new Request(`http://localhost:3000/api/timers/${timerId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+        { id: timerId },
+      );
+
+    it('should update editable settings', async () => {
+      await storeTimer(existingTimer);
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
+
+      const response = await patch({
+        name: ' Medicine ',
+        isRecurring: true,
+        maxRunsPerDay: null,
+      });
+
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        timer: await repository.getTimer(timerId),
+        message: 'Timer updated successfully',
+      });
+      expect(body.timer).toMatchObject({
+        ...existingTimer,
+        name: 'Medicine',
+        isRecurring: true,
+        maxRunsPerDay: null,
+      });
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
+      expect(updateTimer).toHaveBeenCalledWith(
+        timerId,
+        { name: 'Medicine', isRecurring: true, maxRunsPerDay: null },
+        'update',
+        undefined,
+      );
+    });
+
+    it('should list every field it cannot accept', async () => {
+      await storeTimer(existingTimer);
+      const updateTimer = jest.spyOn(repository, 'updateTimer');
+
+      const response = await patch({
+        countUpThreshold: -5,
+        remainingTime: 0,
+        isActive: true,
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.success).toBe(false);
+      expect(body).toMatchSchema(componentSchema('Error'));
+      expect(body.errors).toEqual([
+        {
+          field: 'countUpThreshold',
+          message:
+            'Invalid countUpThreshold. Must be a positive whole number of seconds or null.',
+        },
+        {
+          field: 'remainingTime',
+          message:
+            'Unknown field remainingTime. Must be one of: name, preAlertOffsets, countUpThreshold, isRecurring, maxRunsPerDay.',
+        },
+        {
+          field: 'isActive',
+          message:
+            'Unknown field isActive. Must be one of: name, preAlertOffsets, countUpThreshold, isRecurring, maxRunsPerDay.',
+        },
+      ]);
+      expect(updateTimer).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when nothing is changed', async () => {
+      await storeTimer(existingTimer);
+
+      const response = await patch({});
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).errors).toEqual([
+        {
+          field: 'body',
+          message:
+            'Invalid body. Must set at least one of: name, preAlertOffsets, countUpThreshold, isRecurring, maxRunsPerDay.',
+        },
+      ]);
+    });
+
+    it('should return 404 when timer not found', async () => {
+      const response = await patch({ name: 'Medicine' });
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Timer not found',
+      });
+    });
+  });
+
   describe('DELETE /api/timers/[id]', () => {
     it('should delete a timer successfully', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.deleteTimer.mockResolvedValue();
+      });
+      const getTimer = jest.spyOn(repository, 'getTimer');
+      const deleteTimer = jest.spyOn(repository, 'deleteTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}`,
@@ -493,15 +657,16 @@ describe('/api/timers/[id] API Route', () => {
         success: true,
         message: 'Timer deleted successfully',
       });
+      expect(body).toMatchSchema(componentSchema('DeleteResponse'));
 
-      expect(mockDatabase.getTimer).toHaveBeenCalledWith(timerId);
-      expect(mockDatabase.deleteTimer).toHaveBeenCalledWith(timerId);
+      expect(getTimer).toHaveBeenCalledWith(timerId);
+      expect(deleteTimer).toHaveBeenCalledWith(timerId, undefined);
+      expect(await repository.getTimer(timerId)).toBeNull();
     });
 
     it('should return 404 when timer not found for deletion', async () => {
       const timerId = 'nonexistent_timer';
-
-      mockDatabase.getTimer.mockResolvedValue(null);
+      const deleteTimer = jest.spyOn(repository, 'deleteTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}`,
@@ -518,25 +683,25 @@ describe('/api/timers/[id] API Route', () => {
         success: false,
         error: 'Timer not found',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
-      expect(mockDatabase.deleteTimer).not.toHaveBeenCalled();
+      expect(deleteTimer).not.toHaveBeenCalled();
     });
 
     it('should handle database errors during deletion', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
+      });
 
       const error = new Error('Database deletion failed');
 
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
-      mockDatabase.deleteTimer.mockRejectedValue(error);
+      jest.spyOn(repository, 'deleteTimer').mockRejectedValue(error);
 
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
 
@@ -556,6 +721,7 @@ describe('/api/timers/[id] API Route', () => {
         error: 'Failed to delete timer',
         details: 'Database deletion failed',
       });
+      expect(body).toMatchSchema(componentSchema('Error'));
 
       expect(consoleSpy).toHaveBeenCalledWith(
         `DELETE /api/timers/${timerId} error:`,
@@ -568,16 +734,14 @@ describe('/api/timers/[id] API Route', () => {
   describe('Edge cases and error handling', () => {
     it('should handle malformed JSON in PUT requests', async () => {
       const timerId = 'timer_123';
-      const existingTimer = {
+      await storeTimer({
         id: timerId,
         duration: 3600,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: 3600,
         isNotificationMode: false,
-      };
-
-      mockDatabase.getTimer.mockResolvedValue(existingTimer);
+      });
 
       const request = new Request(
         `http://localhost:3000/api/timers/${timerId}/duration`,
@@ -591,9 +755,12 @@ describe('/api/timers/[id] API Route', () => {
       const response = await PUT(request, { id: timerId });
       const body = await response.json();
 
-      expect(response.status).toBe(500);
-      expect(body.success).toBe(false);
-      expect(body.error).toBe('Failed to update timer');
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error: 'Invalid body. Must be JSON.',
+        errors: [{ field: 'body', message: 'Invalid body. Must be JSON.' }],
+      });
     });
 
     it('should handle empty timer ID', async () => {
@@ -613,8 +780,7 @@ describe('/api/timers/[id] API Route', () => {
 
     it('should handle special characters in timer ID', async () => {
       const timerId = 'timer_with_special_chars_!@#$%';
-
-      mockDatabase.getTimer.mockResolvedValue(null);
+      const getTimer = jest.spyOn(repository, 'getTimer');
 
       const request = new Request(
         `http://localhost:3000/api/timers/${encodeURIComponent(timerId)}`,
@@ -628,7 +794,559 @@ describe('/api/timers/[id] API Route', () => {
         error: 'Timer not found',
       });
 
-      expect(mockDatabase.getTimer).toHaveBeenCalledWith(timerId);
+      expect(getTimer).toHaveBeenCalledWith(timerId);
+    });
+  });
+
+  describe('lifecycle', () => {
+    const act = async (id: string, action: string) =>
+      (
+        await PUT(
+          new Request(`http://localhost:3000/api/timers/${id}/${action}`, {
+            method: 'PUT',
+          }),
+          { id },
+        )
+      ).json();
+
+    const createTimer = () =>
+      repository.createTimer({
+        duration: 3600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 3600,
+        isNotificationMode: false,
+      });
+
+    it('should pause with the exact time left', async () => {
+      const timer = await createTimer();
+
+      const started = await act(timer.id, 'start');
+      clock.advanceSeconds(300);
+      const paused = await act(timer.id, 'pause');
+
+      expect(started.timer.startTime).toBe(1700000000000);
+      expect(paused.timer).toMatchObject({
+        isActive: false,
+        remainingTime: 3300,
+      });
+    });
+
+    it('should resume with the time left when it was paused', async () => {
+      const timer = await createTimer();
+
+      await act(timer.id, 'start');
+      clock.advanceSeconds(2400);
+      await act(timer.id, 'pause');
+      clock.advanceSeconds(900);
+      await act(timer.id, 'start');
+      clock.advanceSeconds(60);
+      const current = await (
+        await GET_CURRENT(
+          new Request('http://localhost:3000/api/timers/current'),
+        )
+      ).json();
+      const paused = await act(timer.id, 'pause');
+
+      expect(current.timer.remainingTime).toBe(1140);
+      expect(paused.timer.remainingTime).toBe(1140);
+    });
+
+    it('should list every run segment through /segments', async () => {
+      const timer = await createTimer();
+      await act(timer.id, 'start');
+      clock.advanceSeconds(600);
+      await act(timer.id, 'pause');
+      clock.advanceSeconds(300);
+      await act(timer.id, 'start');
+      clock.advanceSeconds(120);
+
+      const response = await GET_SEGMENTS(
+        new Request(`http://localhost:3000/api/timers/${timer.id}/segments`),
+        { id: timer.id },
+      );
+
+      const body = await response.json();
+
+      expect(body).toEqual({
+        success: true,
+        segments: [
+          { startedAt: 1700000000000, endedAt: 1700000600000 },
+          { startedAt: 1700000900000, endedAt: null },
+        ],
+        count: 2,
+        totalSeconds: 720,
+      });
+      expect(body).toMatchSchema(componentSchema('SegmentsResponse'));
+    });
+
+    it('should expire the current timer once its duration has passed', async () => {
+      const timer = await createTimer();
+      await act(timer.id, 'start');
+
+      clock.advanceSeconds(3599);
+      const running = await (
+        await GET_CURRENT(
+          new Request('http://localhost:3000/api/timers/current'),
+        )
+      ).json();
+      clock.advanceSeconds(1);
+      const expired = await (
+        await GET_CURRENT(
+          new Request('http://localhost:3000/api/timers/current'),
+        )
+      ).json();
+
+      expect(running.timer).toMatchObject({ isActive: true, remainingTime: 1 });
+      expect(expired.missedAlert).toBeUndefined();
+      expect(expired.timer).toMatchObject({
+        isActive: false,
+        remainingTime: 0,
+        isNotificationMode: true,
+      });
+      expect(
+        (await repository.getTimerTransitions(timer.id)).map((transition) => [
+          transition.event,
+          transition.occurredAt,
+        ]),
+      ).toEqual([
+        ['create', 1700000000000],
+        ['start', 1700000000000],
+        ['expire', 1700003600000],
+      ]);
+    });
+
+    it('should expire the current timer silently during quiet hours', async () => {
+      await repository.createSchedule({
+        name: 'All quiet',
+        windows: [],
+        quietHours: { start: '00:00', end: '00:00' },
+        isActive: true,
+      });
+      const timer = await createTimer();
+      await act(timer.id, 'start');
+
+      clock.advanceSeconds(3600);
+      const expired = await (
+        await GET_CURRENT(
+          new Request('http://localhost:3000/api/timers/current'),
+        )
+      ).json();
+
+      expect(expired.timer).toMatchObject({
+        isActive: false,
+        remainingTime: 0,
+        isNotificationMode: false,
+      });
+    });
+
+    it('should report a missed alert when the expiry is found late', async () => {
+      const timer = await createTimer();
+      await act(timer.id, 'start');
+
+      clock.advanceSeconds(3600 + 25 * 60);
+      const response = await GET_CURRENT(
+        new Request('http://localhost:3000/api/timers/current'),
+      );
+      const body = await response.json();
+
+      expect(body).toMatchSchema(componentSchema('TimerResponse'));
+      expect(body.timer).toMatchObject({ id: timer.id, isActive: false });
+      expect(body.missedAlert).toEqual({
+        id: expect.stringMatching(/^missed_/),
+        timerId: timer.id,
+        expiredAt: 1700003600000,
+        detectedAt: 1700005100000,
+      });
+      expect(await repository.getMissedAlerts()).toEqual([body.missedAlert]);
+    });
+
+    it('should turn on recurrence when starting', async () => {
+      const timer = await createTimer();
+
+      const response = await PUT(
+        new Request(`http://localhost:3000/api/timers/${timer.id}/start`, {
+          method: 'PUT',
+          body: JSON.stringify({ isRecurring: true, maxRunsPerDay: 6 }),
+        }),
+        { id: timer.id },
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(await repository.getTimer(timer.id)).toMatchObject({
+        isActive: true,
+        isRecurring: true,
+        maxRunsPerDay: 6,
+      });
+      expect(body.timer.isRecurring).toBe(true);
+    });
+
+    it('should return status 400 for invalid recurrence settings', async () => {
+      const timer = await createTimer();
+
+      const response = await PUT(
+        new Request(`http://localhost:3000/api/timers/${timer.id}/start`, {
+          method: 'PUT',
+          body: JSON.stringify({ maxRunsPerDay: -1 }),
+        }),
+        { id: timer.id },
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body).toEqual({
+        success: false,
+        error: 'Invalid maxRunsPerDay. Must be a positive integer or null.',
+        errors: [
+          {
+            field: 'maxRunsPerDay',
+            message:
+              'Invalid maxRunsPerDay. Must be a positive integer or null.',
+          },
+        ],
+      });
+      expect((await repository.getTimer(timer.id))!.isActive).toBe(false);
+    });
+
+    describe('adjust', () => {
+      const adjust = (id: string, body: unknown) =>
+        ADJUST(
+          new Request(`http://localhost:3000/api/timers/${id}/adjust`, {
+            method: 'PUT',
+            body: JSON.stringify(body),
+          }),
+          { id },
+        );
+
+      it('should add time to a running timer without restarting it', async () => {
+        const timer = await createTimer();
+        await act(timer.id, 'start');
+        clock.advanceSeconds(600);
+
+        const response = await adjust(timer.id, { seconds: 300 });
+        const body = await response.json();
+        clock.advanceSeconds(60);
+        const paused = await act(timer.id, 'pause');
+
+        expect(response.status).toBe(200);
+        expect(body.message).toBe('Timer adjusted successfully');
+        expect(body.timer).toMatchObject({
+          duration: 3600,
+          adjustment: 300,
+          remainingTime: 3300,
+        });
+        expect(paused.timer.remainingTime).toBe(3240);
+      });
+
+      it('should take time off a paused timer', async () => {
+        const timer = await createTimer();
+        await act(timer.id, 'start');
+        clock.advanceSeconds(600);
+        await act(timer.id, 'pause');
+
+        // Through the generic /api/timers/:id handler this time
+        const response = await PUT(
+          new Request(`http://localhost:3000/api/timers/${timer.id}/adjust`, {
+            method: 'PUT',
+            body: JSON.stringify({ seconds: -300 }),
+          }),
+          { id: timer.id },
+        );
+
+        expect((await response.json()).timer).toMatchObject({
+          isActive: false,
+          duration: 3600,
+          adjustment: -300,
+          remainingTime: 2700,
+        });
+      });
+
+      it('should return status 409 for a timer that is not counting down', async () => {
+        const timer = await createTimer();
+
+        const response = await adjust(timer.id, { seconds: 300 });
+
+        expect(response.status).toBe(409);
+        expect((await response.json()).error).toBe(
+          'Cannot adjust a timer that is idle.',
+        );
+      });
+
+      it('should return status 400 for an invalid number of seconds', async () => {
+        const timer = await createTimer();
+        await act(timer.id, 'start');
+
+        const response = await adjust(timer.id, { seconds: 0 });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toBe(
+          'Invalid seconds. Must be a non-zero whole number from -14400 to 14400.',
+        );
+      });
+    });
+
+    describe('illegal transitions', () => {
+      it('should return status 409 instead of restarting a running timer', async () => {
+        const timer = await createTimer();
+        await act(timer.id, 'start');
+        clock.advanceSeconds(600);
+
+        const response = await PUT(
+          new Request(`http://localhost:3000/api/timers/${timer.id}/start`, {
+            method: 'PUT',
+          }),
+          { id: timer.id },
+        );
+
+        expect(response.status).toBe(409);
+        expect(await response.json()).toEqual({
+          success: false,
+          error: 'Cannot start a timer that is running.',
+        });
+        expect((await repository.getTimer(timer.id))!.startTime).toBe(
+          1700000000000,
+        );
+      });
+
+      it('should apply the same rules on the dedicated routes', async () => {
+        const timer = await createTimer();
+        const request = (action: string) =>
+          new Request(
+            `http://localhost:3000/api/timers/${timer.id}/${action}`,
+            {
+              method: 'PUT',
+            },
+          );
+
+        const paused = await PAUSE(request('pause'), { id: timer.id });
+        await START(request('start'), { id: timer.id });
+        const started = await START(request('start'), { id: timer.id });
+
+        expect(paused.status).toBe(409);
+        expect((await paused.json()).error).toBe(
+          'Cannot pause a timer that is idle.',
+        );
+        expect(started.status).toBe(409);
+      });
+
+      it('should not change the duration of an alerting timer', async () => {
+        const timer = await createTimer();
+        await repository.updateTimer(timer.id, { isNotificationMode: true });
+
+        const response = await PUT(
+          new Request(`http://localhost:3000/api/timers/${timer.id}/duration`, {
+            method: 'PUT',
+            body: JSON.stringify({ duration: 600 }),
+          }),
+          { id: timer.id },
+        );
+
+        expect(response.status).toBe(409);
+        expect((await repository.getTimer(timer.id))!.duration).toBe(3600);
+      });
+    });
+
+    describe('snooze', () => {
+      const getCurrent = async () =>
+        (
+          await GET_CURRENT(
+            new Request('http://localhost:3000/api/timers/current'),
+          )
+        ).json();
+
+      const snooze = (id: string, body?: unknown) =>
+        SNOOZE(
+          new Request(`http://localhost:3000/api/timers/${id}/snooze`, {
+            method: 'PUT',
+            body: body === undefined ? undefined : JSON.stringify(body),
+          }),
+          { id },
+        );
+
+      it('should count down the snooze and alert again', async () => {
+        const timer = await createTimer();
+        await act(timer.id, 'start');
+        clock.advanceSeconds(3600);
+        await getCurrent();
+
+        const response = await snooze(timer.id, { minutes: 10 });
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(body.timer).toMatchObject({
+          duration: 3600,
+          isActive: true,
+          remainingTime: 600,
+          isNotificationMode: false,
+        });
+
+        clock.advanceSeconds(300);
+        expect((await getCurrent()).timer.remainingTime).toBe(300);
+        clock.advanceSeconds(300);
+        expect((await getCurrent()).timer.isNotificationMode).toBe(true);
+        expect(
+          (await repository.getTimerTransitions(timer.id)).map(
+            (transition) => transition.event,
+          ),
+        ).toEqual(['create', 'start', 'expire', 'snooze', 'expire']);
+      });
+
+      it('should go through /api/timers/:id/snooze as well', async () => {
+        const timer = await createTimer();
+        await repository.updateTimer(timer.id, { isNotificationMode: true });
+
+        const body = await act(timer.id, 'snooze');
+
+        expect(body.message).toBe('Timer snoozed successfully');
+        expect(body.timer.remainingTime).toBe(300);
+      });
+
+      it('should return status 409 unless the timer is alerting', async () => {
+        const timer = await createTimer();
+
+        const response = await snooze(timer.id);
+
+        expect(response.status).toBe(409);
+        expect(await response.json()).toEqual({
+          success: false,
+          error: 'Cannot snooze a timer that is idle.',
+        });
+      });
+
+      it('should return status 400 for an invalid length', async () => {
+        const timer = await createTimer();
+        await repository.updateTimer(timer.id, { isNotificationMode: true });
+
+        const response = await snooze(timer.id, { minutes: 0 });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toBe(
+          'Invalid minutes. Must be a whole number from 1 to 60.',
+        );
+      });
+    });
+
+    describe('If-Match', () => {
+      const get = async (id: string) =>
+        GET(new Request(`http://localhost:3000/api/timers/${id}`), { id });
+
+      const pause = (id: string, ifMatch?: string) =>
+        PAUSE(
+          new Request(`http://localhost:3000/api/timers/${id}/pause`, {
+            method: 'PUT',
+            headers: ifMatch ? { 'If-Match': ifMatch } : {},
+          }),
+          { id },
+        );
+
+      const reset = (id: string, ifMatch: string) =>
+        PUT(
+          new Request(`http://localhost:3000/api/timers/${id}/reset`, {
+            method: 'PUT',
+            headers: { 'If-Match': ifMatch },
+          }),
+          { id },
+        );
+
+      const startedTimer = async () => {
+        const timer = await createTimer();
+        await act(timer.id, 'start');
+        return timer;
+      };
+
+      it('should send the version as an ETag and bump it on each change', async () => {
+        const timer = await createTimer();
+
+        const fetched = await get(timer.id);
+        expect(fetched.headers.get('ETag')).toBe('"1"');
+        expect((await fetched.json()).timer.version).toBe(1);
+
+        await act(timer.id, 'start');
+        const paused = await pause(timer.id, '"2"');
+        expect(paused.status).toBe(200);
+        expect(paused.headers.get('ETag')).toBe('"3"');
+        expect((await paused.json()).timer.version).toBe(3);
+      });
+
+      it('should return 412 to the second of two caregivers', async () => {
+        const timer = await startedTimer();
+        const etag = (await get(timer.id)).headers.get('ETag')!;
+
+        clock.advanceSeconds(300);
+        expect((await pause(timer.id, etag)).status).toBe(200);
+        const response = await reset(timer.id, etag);
+
+        expect(response.status).toBe(412);
+        expect(response.headers.get('ETag')).toBe('"3"');
+        expect(await response.json()).toEqual({
+          success: false,
+          error:
+            'Timer has changed since it was fetched. Fetch it again and retry.',
+        });
+        expect(await repository.getTimer(timer.id)).toMatchObject({
+          isActive: false,
+          remainingTime: 3300,
+        });
+      });
+
+      it('should apply changes without If-Match, with *, and never for weak tags', async () => {
+        const timer = await startedTimer();
+
+        expect((await pause(timer.id, 'W/"2"')).status).toBe(412);
+        expect((await pause(timer.id, '"1", *')).status).toBe(200);
+        expect((await act(timer.id, 'start')).success).toBe(true);
+        expect((await pause(timer.id)).status).toBe(200);
+      });
+
+      it('should return 412 when the timer changes between read and write', async () => {
+        const timer = await startedTimer();
+        // Another request saves a change after this one has read version 1
+        jest
+          .spyOn(repository, 'getTimer')
+          .mockResolvedValueOnce({ ...timer, isActive: true, version: 1 });
+
+        const response = await pause(timer.id, '"1"');
+
+        expect(response.status).toBe(412);
+        // The ETag of the change that got in first, to retry against
+        expect(response.headers.get('ETag')).toBe('"2"');
+        expect((await repository.getTimer(timer.id))?.isActive).toBe(true);
+      });
+
+      it('should not delete a timer that has changed', async () => {
+        const timer = await startedTimer();
+
+        const response = await DELETE(
+          new Request(`http://localhost:3000/api/timers/${timer.id}`, {
+            method: 'DELETE',
+            headers: { 'If-Match': '"1"' },
+          }),
+          { id: timer.id },
+        );
+
+        expect(response.status).toBe(412);
+        expect(await repository.getTimer(timer.id)).not.toBeNull();
+      });
+
+      it('should not delete a timer that changes between read and write', async () => {
+        const timer = await startedTimer();
+        // Another request starts it after this one has read version 1
+        jest
+          .spyOn(repository, 'getTimer')
+          .mockResolvedValueOnce({ ...timer, version: 1 });
+
+        const response = await DELETE(
+          new Request(`http://localhost:3000/api/timers/${timer.id}`, {
+            method: 'DELETE',
+            headers: { 'If-Match': '"1"' },
+          }),
+          { id: timer.id },
+        );
+
+        expect(response.status).toBe(412);
+        expect(await repository.getTimer(timer.id)).not.toBeNull();
+      });
     });
   });
 });
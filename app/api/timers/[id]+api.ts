@@ -1,11 +1,39 @@
-import { database } from '../../../services/database';
+import {
+  getTimerRepository,
+  StaleTimerError,
+} from '../../../services/timerRepository';
+import { authorize } from '../../../services/apiTokens';
+import { getClock } from '../../../services/clock';
+import { getScopedTimer } from '../../../services/childScope';
+import {
+  checkIfMatch,
+  preconditionFailed,
+  timerETag,
+} from '../../../services/etags';
+import { parseRecurrence } from '../../../services/recurrence';
+import { parseSnooze, snoozeTimer } from '../../../services/snooze';
+import { parseAdjustment } from '../../../services/adjust';
+import {
+  TimerLifecycleAction,
+  transition,
+} from '../../../services/timerMachine';
+import { timerSettingsSchema } from '../../../services/timerSettings';
+import {
+  invalidRequest,
+  positiveNumber,
+  readBody,
+  validateBody,
+} from '../../../services/validation';
 
 export async function GET(
   request: Request,
-  { id }: { id: string },
+  { id, childId }: { id: string; childId?: string },
 ): Promise<Response> {
   try {
-    const timer = await database.getTimer(id);
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
 
     if (!timer) {
       return Response.json(
@@ -17,10 +45,13 @@ export async function GET(
       );
     }
 
-    return Response.json({
-      success: true,
-      timer,
-    });
+    return Response.json(
+      {
+        success: true,
+        timer,
+      },
+      { headers: { ETag: timerETag(timer) } },
+    );
   } catch (error) {
     console.error(`GET /api/timers/${id} error:`, error);
     return Response.json(
@@ -36,9 +67,12 @@ export async function GET(
 
 export async function PUT(
   request: Request,
-  { id }: { id: string },
+  { id, childId }: { id: string; childId?: string },
 ): Promise<Response> {
   try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
     // Handle empty ID case
     if (!id || id.trim() === '') {
       return Response.json(
@@ -53,7 +87,7 @@ export async function PUT(
     const urlPath = request.url.split('/');
     const action = urlPath[urlPath.length - 1];
 
-    const timer = await database.getTimer(id);
+    const timer = await getScopedTimer(id, childId);
     if (!timer) {
       return Response.json(
         {
@@ -64,81 +98,120 @@ export async function PUT(
       );
     }
 
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
     let updatedTimer;
     let actionMessage = '';
+    // Lifecycle changes go through the timer state machine below
+    let timerAction: TimerLifecycleAction | null = null;
+    let extraUpdates = {};
 
     switch (action) {
       case 'start':
-        updatedTimer = await database.updateTimer(id, {
-          isActive: true,
-          startTime: Date.now(),
-          isNotificationMode: false,
-        });
+        const startBody = await readBody(request);
+        if ('errors' in startBody) return invalidRequest(startBody.errors);
+        const recurrence = parseRecurrence(startBody.body);
+        if ('errors' in recurrence) return invalidRequest(recurrence.errors);
+
+        timerAction = { type: 'start' };
+        extraUpdates = recurrence.updates;
         actionMessage = 'start';
         break;
 
       case 'pause':
-        if (timer.isActive) {
-          const now = Date.now();
-          const elapsed = Math.floor((now - timer.startTime) / 1000);
-          const remaining = Math.max(0, timer.duration - elapsed);
-
-          updatedTimer = await database.updateTimer(id, {
-            isActive: false,
-            remainingTime: remaining,
-          });
-        } else {
-          updatedTimer = timer;
-        }
+        timerAction = { type: 'pause' };
         actionMessage = 'pause';
         break;
 
       case 'reset':
-        updatedTimer = await database.updateTimer(id, {
-          isActive: false,
-          startTime: Date.now(),
-          remainingTime: timer.duration,
-          isNotificationMode: false,
-        });
+        timerAction = { type: 'reset' };
         actionMessage = 'reset';
         break;
 
-      case 'duration':
-        const body = await request.json();
-        const { duration } = body;
+      case 'snooze':
+        const snoozeBody = await readBody(request);
+        if ('errors' in snoozeBody) return invalidRequest(snoozeBody.errors);
+        const snooze = parseSnooze(snoozeBody.body);
+        if ('errors' in snooze) return invalidRequest(snooze.errors);
 
-        if (!duration || typeof duration !== 'number' || duration <= 0) {
+        const snoozed = await snoozeTimer(
+          getTimerRepository(),
+          timer,
+          snooze.minutes,
+          getClock().now(),
+          precondition.expectedVersion,
+        );
+        if ('error' in snoozed) {
           return Response.json(
-            {
-              success: false,
-              error: 'Invalid duration. Must be a positive number.',
-            },
-            { status: 400 },
+            { success: false, error: snoozed.error },
+            { status: 409 },
           );
         }
+        updatedTimer = snoozed.timer;
+        actionMessage = 'snoozed';
+        break;
 
-        updatedTimer = await database.updateTimer(id, {
-          duration,
-          remainingTime: timer.isActive ? duration : duration,
-          startTime: timer.isActive ? Date.now() : timer.startTime,
+      case 'duration':
+        const duration = await validateBody(request, {
+          duration: positiveNumber,
         });
+        if ('errors' in duration) return invalidRequest(duration.errors);
+
+        timerAction = { type: 'duration', duration: duration.value.duration };
         actionMessage = 'duration';
         break;
 
-      default:
-        // Generic update for other fields
-        const updateBody = await request.json();
-        updatedTimer = await database.updateTimer(id, updateBody);
-        actionMessage = 'updated';
+      case 'adjust':
+        const adjustBody = await readBody(request);
+        if ('errors' in adjustBody) return invalidRequest(adjustBody.errors);
+        const adjustment = parseAdjustment(adjustBody.body);
+        if ('errors' in adjustment) return invalidRequest(adjustment.errors);
+
+        timerAction = { type: 'adjust', seconds: adjustment.seconds };
+        actionMessage = 'adjusted';
         break;
+
+      default:
+        // Settings are edited with PATCH, which only takes editable fields
+        return Response.json(
+          {
+            success: false,
+            error: 'Method not allowed. Use PATCH to edit a timer.',
+          },
+          { status: 405, headers: { Allow: 'GET, PATCH, DELETE' } },
+        );
     }
 
-    return Response.json({
-      success: true,
-      timer: updatedTimer,
-      message: `Timer ${actionMessage} successfully`,
-    });
+    if (timerAction) {
+      const result = transition(timer, timerAction, getClock().now());
+      if ('error' in result) {
+        return Response.json(
+          { success: false, error: result.error },
+          { status: 409 },
+        );
+      }
+      updatedTimer = await getTimerRepository().updateTimer(
+        id,
+        { ...extraUpdates, ...result.updates },
+        result.event,
+        precondition.expectedVersion,
+      );
+    }
+
+    return Response.json(
+      {
+        success: true,
+        timer: updatedTimer,
+        message: `Timer ${actionMessage} successfully`,
+      },
+      { headers: { ETag: timerETag(updatedTimer!) } },
+    );
   } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
     console.error(`PUT /api/timers/${id} error:`, error);
     return Response.json(
       {
@@ -151,12 +224,84 @@ export async function PUT(
   }
 }
 
+// Edits a timer's settings. Only the fields of timerSettingsSchema are
+// accepted; anything else, run state included, answers 400.
+export async function PATCH(
+  request: Request,
+  { id, childId }: { id: string; childId?: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
+    if (!timer) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Timer not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    const parsed = await validateBody(request, timerSettingsSchema, {
+      allowUnknown: false,
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    if (Object.keys(parsed.value).length === 0) {
+      return invalidRequest([
+        {
+          field: 'body',
+          message: `Invalid body. Must set at least one of: ${Object.keys(timerSettingsSchema).join(', ')}.`,
+        },
+      ]);
+    }
+
+    const updatedTimer = await getTimerRepository().updateTimer(
+      id,
+      parsed.value,
+      'update',
+      precondition.expectedVersion,
+    );
+
+    return Response.json(
+      {
+        success: true,
+        timer: updatedTimer,
+        message: 'Timer updated successfully',
+      },
+      { headers: { ETag: timerETag(updatedTimer) } },
+    );
+  } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
+    console.error(`PATCH /api/timers/${id} error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to update timer',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
 export async function DELETE(
   request: Request,
-  { id }: { id: string },
+  { id, childId }: { id: string; childId?: string },
 ): Promise<Response> {
   try {
-    const timer = await database.getTimer(id);
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
     if (!timer) {
       return Response.json(
         {
@@ -167,13 +312,20 @@ export async function DELETE(
       );
     }
 
-    await database.deleteTimer(id);
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    await getTimerRepository().deleteTimer(id, precondition.expectedVersion);
 
     return Response.json({
       success: true,
       message: 'Timer deleted successfully',
     });
   } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
     console.error(`DELETE /api/timers/${id} error:`, error);
     return Response.json(
       {
@@ -0,0 +1,88 @@
+import {
+  getTimerRepository,
+  StaleTimerError,
+} from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import { getScopedTimer } from '../../../../services/childScope';
+import {
+  checkIfMatch,
+  preconditionFailed,
+  timerETag,
+} from '../../../../services/etags';
+import { parseAdjustment } from '../../../../services/adjust';
+import { invalidRequest, readBody } from '../../../../services/validation';
+import { transition } from '../../../../services/timerMachine';
+
+// Adds { seconds } to the time left on a running or paused timer, or takes
+// it off when negative, keeping the time already run
+export async function PUT(
+  request: Request,
+  { id, childId }: { id: string; childId?: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
+    if (!timer) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Timer not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    const read = await readBody(request);
+    if ('errors' in read) return invalidRequest(read.errors);
+    const adjustment = parseAdjustment(read.body);
+    if ('errors' in adjustment) return invalidRequest(adjustment.errors);
+
+    const result = transition(
+      timer,
+      { type: 'adjust', seconds: adjustment.seconds },
+      getClock().now(),
+    );
+    if ('error' in result) {
+      return Response.json(
+        { success: false, error: result.error },
+        { status: 409 },
+      );
+    }
+
+    const updatedTimer = await getTimerRepository().updateTimer(
+      id,
+      result.updates,
+      result.event,
+      precondition.expectedVersion,
+    );
+
+    return Response.json(
+      {
+        success: true,
+        timer: updatedTimer,
+        message: 'Timer adjusted successfully',
+      },
+      { headers: { ETag: timerETag(updatedTimer) } },
+    );
+  } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
+    console.error(`PUT /api/timers/${id}/adjust error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to adjust timer',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,11 +1,31 @@
-import { database } from '../../../../services/database';
+import {
+  getTimerRepository,
+  StaleTimerError,
+} from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import { getScopedTimer } from '../../../../services/childScope';
+import {
+  checkIfMatch,
+  preconditionFailed,
+  timerETag,
+} from '../../../../services/etags';
+import { transition } from '../../../../services/timerMachine';
+import {
+  invalidRequest,
+  positiveNumber,
+  validateBody,
+} from '../../../../services/validation';
 
 export async function PUT(
   request: Request,
-  { id }: { id: string },
+  { id, childId }: { id: string; childId?: string },
 ): Promise<Response> {
   try {
-    const timer = await database.getTimer(id);
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
     if (!timer) {
       return Response.json(
         {
@@ -16,31 +36,44 @@ export async function PUT(
       );
     }
 
-    const body = await request.json();
-    const { duration } = body;
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    const parsed = await validateBody(request, { duration: positiveNumber });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
 
-    if (!duration || typeof duration !== 'number' || duration <= 0) {
+    const result = transition(
+      timer,
+      { type: 'duration', duration: parsed.value.duration },
+      getClock().now(),
+    );
+    if ('error' in result) {
       return Response.json(
-        {
-          success: false,
-          error: 'Invalid duration. Must be a positive number.',
-        },
-        { status: 400 },
+        { success: false, error: result.error },
+        { status: 409 },
       );
     }
 
-    const updatedTimer = await database.updateTimer(id, {
-      duration,
-      remainingTime: timer.isActive ? duration : duration,
-      startTime: timer.isActive ? Date.now() : timer.startTime,
-    });
+    const updatedTimer = await getTimerRepository().updateTimer(
+      id,
+      result.updates,
+      result.event,
+      precondition.expectedVersion,
+    );
 
-    return Response.json({
-      success: true,
-      timer: updatedTimer,
-      message: 'Timer duration updated successfully',
-    });
+    return Response.json(
+      {
+        success: true,
+        timer: updatedTimer,
+        message: 'Timer duration updated successfully',
+      },
+      { headers: { ETag: timerETag(updatedTimer) } },
+    );
   } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
     console.error(`PUT /api/timers/${id}/duration error:`, error);
     return Response.json(
       {
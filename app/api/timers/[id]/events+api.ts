@@ -0,0 +1,51 @@
+import { getTimerRepository } from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import { getScopedTimer } from '../../../../services/childScope';
+import {
+  parseLastEventId,
+  streamTimerEvents,
+} from '../../../../services/timerEvents';
+import { invalidRequest } from '../../../../services/validation';
+
+// Streams the timer's state changes as Server-Sent Events
+export async function GET(
+  request: Request,
+  { id, childId }: { id: string; childId?: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
+    if (!timer) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Timer not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const parsed = parseLastEventId(request);
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+
+    return streamTimerEvents(
+      getTimerRepository(),
+      getClock(),
+      () => getScopedTimer(id, childId),
+      { lastEventId: parsed.value.lastEventId, signal: request.signal },
+    );
+  } catch (error) {
+    console.error(`GET /api/timers/${id}/events error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to stream timer events',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { getTimerRepository } from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getScopedTimer } from '../../../../services/childScope';
+
+export async function GET(
+  request: Request,
+  { id, childId }: { id: string; childId?: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
+    if (!timer) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Timer not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const transitions = await getTimerRepository().getTimerTransitions(id);
+
+    return Response.json({
+      success: true,
+      transitions,
+      count: transitions.length,
+    });
+  } catch (error) {
+    console.error(`GET /api/timers/${id}/history error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch timer history',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,11 +1,26 @@
-import { database } from '../../../../services/database';
+import {
+  getTimerRepository,
+  StaleTimerError,
+} from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import { getScopedTimer } from '../../../../services/childScope';
+import {
+  checkIfMatch,
+  preconditionFailed,
+  timerETag,
+} from '../../../../services/etags';
+import { transition } from '../../../../services/timerMachine';
 
 export async function PUT(
   request: Request,
-  { id }: { id: string },
+  { id, childId }: { id: string; childId?: string },
 ): Promise<Response> {
   try {
-    const timer = await database.getTimer(id);
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
     if (!timer) {
       return Response.json(
         {
@@ -16,19 +31,37 @@ export async function PUT(
       );
     }
 
-    const updatedTimer = await database.updateTimer(id, {
-      isActive: false,
-      startTime: Date.now(),
-      remainingTime: timer.duration,
-      isNotificationMode: false,
-    });
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    const result = transition(timer, { type: 'reset' }, getClock().now());
+    if ('error' in result) {
+      return Response.json(
+        { success: false, error: result.error },
+        { status: 409 },
+      );
+    }
+
+    const updatedTimer = await getTimerRepository().updateTimer(
+      id,
+      result.updates,
+      result.event,
+      precondition.expectedVersion,
+    );
 
-    return Response.json({
-      success: true,
-      timer: updatedTimer,
-      message: 'Timer reset successfully',
-    });
+    return Response.json(
+      {
+        success: true,
+        timer: updatedTimer,
+        message: 'Timer reset successfully',
+      },
+      { headers: { ETag: timerETag(updatedTimer) } },
+    );
   } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
     console.error(`PUT /api/timers/${id}/reset error:`, error);
     return Response.json(
       {
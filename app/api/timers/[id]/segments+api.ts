@@ -0,0 +1,49 @@
+import { getTimerRepository } from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import { getScopedTimer } from '../../../../services/childScope';
+import { runSeconds, segmentHistory } from '../../../../services/runSegments';
+
+// Every stretch the timer has run for, across all of its intervals, with the
+// total time run in seconds
+export async function GET(
+  request: Request,
+  { id, childId }: { id: string; childId?: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
+    if (!timer) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Timer not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const segments = segmentHistory(
+      await getTimerRepository().getTimerTransitions(id),
+    );
+
+    return Response.json({
+      success: true,
+      segments,
+      count: segments.length,
+      totalSeconds: runSeconds(segments, getClock().now()),
+    });
+  } catch (error) {
+    console.error(`GET /api/timers/${id}/segments error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch timer segments',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { getClock } from '../../../../services/clock';
+import { authorize } from '../../../../services/apiTokens';
+import { getScopedTimer } from '../../../../services/childScope';
+import {
+  checkIfMatch,
+  preconditionFailed,
+  timerETag,
+} from '../../../../services/etags';
+import {
+  getTimerRepository,
+  StaleTimerError,
+} from '../../../../services/timerRepository';
+import { parseSnooze, snoozeTimer } from '../../../../services/snooze';
+import { invalidRequest, readBody } from '../../../../services/validation';
+
+// Snoozes an alerting timer. An optional body of { minutes } sets the length
+// (5 by default).
+export async function PUT(
+  request: Request,
+  { id, childId }: { id: string; childId?: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
+    if (!timer) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Timer not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    const read = await readBody(request);
+    if ('errors' in read) return invalidRequest(read.errors);
+    const snooze = parseSnooze(read.body);
+    if ('errors' in snooze) return invalidRequest(snooze.errors);
+
+    const result = await snoozeTimer(
+      getTimerRepository(),
+      timer,
+      snooze.minutes,
+      getClock().now(),
+      precondition.expectedVersion,
+    );
+    if ('error' in result) {
+      return Response.json(
+        { success: false, error: result.error },
+        { status: 409 },
+      );
+    }
+
+    return Response.json(
+      {
+        success: true,
+        timer: result.timer,
+        message: 'Timer snoozed successfully',
+      },
+      { headers: { ETag: timerETag(result.timer) } },
+    );
+  } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
+    console.error(`PUT /api/timers/${id}/snooze error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to snooze timer',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
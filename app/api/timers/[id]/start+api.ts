@@ -1,11 +1,30 @@
-import { database } from '../../../../services/database';
+import {
+  getTimerRepository,
+  StaleTimerError,
+} from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import { getScopedTimer } from '../../../../services/childScope';
+import {
+  checkIfMatch,
+  preconditionFailed,
+  timerETag,
+} from '../../../../services/etags';
+import { parseRecurrence } from '../../../../services/recurrence';
+import { invalidRequest, readBody } from '../../../../services/validation';
+import { transition } from '../../../../services/timerMachine';
 
+// Starts the timer. An optional body of { isRecurring, maxRunsPerDay } turns
+// automatic restarts on or off in the same step.
 export async function PUT(
   request: Request,
-  { id }: { id: string },
+  { id, childId }: { id: string; childId?: string },
 ): Promise<Response> {
   try {
-    const timer = await database.getTimer(id);
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    const timer = await getScopedTimer(id, childId);
     if (!timer) {
       return Response.json(
         {
@@ -16,18 +35,42 @@ export async function PUT(
       );
     }
 
-    const updatedTimer = await database.updateTimer(id, {
-      isActive: true,
-      startTime: Date.now(),
-      isNotificationMode: false,
-    });
+    const precondition = checkIfMatch(request, timer);
+    if ('failed' in precondition) return precondition.failed;
+
+    const read = await readBody(request);
+    if ('errors' in read) return invalidRequest(read.errors);
+    const recurrence = parseRecurrence(read.body);
+    if ('errors' in recurrence) return invalidRequest(recurrence.errors);
 
-    return Response.json({
-      success: true,
-      timer: updatedTimer,
-      message: 'Timer started successfully',
-    });
+    const result = transition(timer, { type: 'start' }, getClock().now());
+    if ('error' in result) {
+      return Response.json(
+        { success: false, error: result.error },
+        { status: 409 },
+      );
+    }
+
+    const updatedTimer = await getTimerRepository().updateTimer(
+      id,
+      { ...recurrence.updates, ...result.updates },
+      result.event,
+      precondition.expectedVersion,
+    );
+
+    return Response.json(
+      {
+        success: true,
+        timer: updatedTimer,
+        message: 'Timer started successfully',
+      },
+      { headers: { ETag: timerETag(updatedTimer) } },
+    );
   } catch (error) {
+    if (error instanceof StaleTimerError) {
+      const latest = await getTimerRepository().getTimer(id);
+      return preconditionFailed(latest ?? undefined);
+    }
     console.error(`PUT /api/timers/${id}/start error:`, error);
     return Response.json(
       {
@@ -1,8 +1,40 @@
-import { database } from '../../../services/database';
+import { getTimerRepository } from '../../../services/timerRepository';
+import { authorize } from '../../../services/apiTokens';
+import { getClock } from '../../../services/clock';
+import { remainingTimeAt } from '../../../services/timerMachine';
+import { expireOverdueTimer } from '../../../services/missedAlerts';
+import { isQuietTime } from '../../../services/schedules';
+import {
+  invalidRequest,
+  stringParam,
+  validateQuery,
+} from '../../../services/validation';
 
-export async function GET(request: Request): Promise<Response> {
+export async function GET(
+  request: Request,
+  { childId }: { childId?: string } = {},
+): Promise<Response> {
   try {
-    const timer = await database.getCurrentTimer();
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    if (childId && !(await getTimerRepository().getChild(childId))) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Child not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    // ?name= picks the current timer of that name, e.g. Drink water
+    const parsed = validateQuery(request, { name: stringParam });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const timer = await getTimerRepository().getCurrentTimer(
+      childId,
+      parsed.value.name,
+    );
 
     if (!timer) {
       return Response.json(
@@ -16,35 +48,32 @@ export async function GET(request: Request): Promise<Response> {
 
     // Calculate current remaining time if timer is active
     if (timer.isActive) {
-      const now = Date.now();
-      const elapsed = Math.floor((now - timer.startTime) / 1000);
-      const remaining = Math.max(0, timer.duration - elapsed);
-
-      // Update the timer with current remaining time
-      const updatedTimer = {
-        ...timer,
-        remainingTime: remaining,
-      };
-
-      // If timer has expired, mark it as inactive and trigger notification mode
-      if (remaining <= 0 && !timer.isNotificationMode) {
-        await database.updateTimer(timer.id, {
-          isActive: false,
-          remainingTime: 0,
-          isNotificationMode: true,
-        });
+      const now = getClock().now();
 
+      // If timer has expired, mark it as inactive and trigger notification
+      // mode, unless it is quiet time. Finding it long after the fact also
+      // records a missed alert.
+      const repository = getTimerRepository();
+      const overdue = await expireOverdueTimer(
+        repository,
+        timer,
+        now,
+        isQuietTime(await repository.getActiveSchedule(), now),
+      );
+      if (overdue) {
         return Response.json({
           success: true,
-          timer: {
-            ...updatedTimer,
-            isActive: false,
-            remainingTime: 0,
-            isNotificationMode: true,
-          },
+          timer: overdue.timer,
+          ...(overdue.missedAlert ? { missedAlert: overdue.missedAlert } : {}),
         });
       }
 
+      // Update the timer with current remaining time
+      const updatedTimer = {
+        ...timer,
+        remainingTime: remainingTimeAt(timer, now),
+      };
+
       return Response.json({
         success: true,
         timer: updatedTimer,
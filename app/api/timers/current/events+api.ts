@@ -0,0 +1,56 @@
+import { getTimerRepository } from '../../../../services/timerRepository';
+import { authorize } from '../../../../services/apiTokens';
+import { getClock } from '../../../../services/clock';
+import {
+  parseLastEventId,
+  streamTimerEvents,
+} from '../../../../services/timerEvents';
+import {
+  invalidRequest,
+  stringParam,
+  validateQuery,
+} from '../../../../services/validation';
+
+// Streams the current timer's state changes as Server-Sent Events. When a
+// new timer becomes current the stream follows it.
+export async function GET(
+  request: Request,
+  { childId }: { childId?: string } = {},
+): Promise<Response> {
+  try {
+    const denied = await authorize(request);
+    if (denied) return denied;
+
+    if (childId && !(await getTimerRepository().getChild(childId))) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Child not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const parsed = validateQuery(request, { name: stringParam });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const lastEvent = parseLastEventId(request);
+    if ('errors' in lastEvent) return invalidRequest(lastEvent.errors);
+
+    return streamTimerEvents(
+      getTimerRepository(),
+      getClock(),
+      () => getTimerRepository().getCurrentTimer(childId, parsed.value.name),
+      { lastEventId: lastEvent.value.lastEventId, signal: request.signal },
+    );
+  } catch (error) {
+    console.error('GET /api/timers/current/events error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to stream timer events',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+import { GET, POST } from './tokens+api';
+import { POST as REVOKE } from './tokens/[id]/revoke+api';
+import { GET as GET_TIMERS } from './timers+api';
+import { setTimerRepository } from '../../services/timerRepository';
+import { InMemoryTimerRepository } from '../../services/memoryTimerRepository';
+import { FakeClock, setClock } from '../../services/clock';
+import { bootstrapApiToken } from '../../services/apiTokens';
+
+// Checks real tokens, unlike the other route tests
+jest.unmock('../../services/apiTokens');
+
+describe('/api/tokens API Route', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
+  const bearer = (secret: string) => ({ Authorization: `Bearer ${secret}` });
+
+  const mint = async (
+    body: object,
+    headers: Record<string, string> = {},
+  ): Promise<Response> => {
+    clock.advanceSeconds(1);
+    return POST(
+      new Request('http://localhost:3000/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      }),
+    );
+  };
+
+  const revoke = (id: string, headers: Record<string, string> = {}) =>
+    REVOKE(
+      new Request(`http://localhost:3000/api/tokens/${id}/revoke`, {
+        method: 'POST',
+        headers,
+      }),
+      { id },
+    );
+
+  beforeEach(() => {
+    clock = new FakeClock(1700000000000);
+    repository = new InMemoryTimerRepository();
+    setClock(clock);
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setClock(null);
+    setTimerRepository(null);
+  });
+
+  // The household's first token, minted by the app
+  const bootstrap = async () =>
+    (await bootstrapApiToken(repository, clock.now()))!;
+
+  describe('POST /api/tokens', () => {
+    it('should refuse to mint the first token over HTTP', async () => {
+      const response = await mint({ name: 'Parent', role: 'admin' });
+
+      expect(response.status).toBe(401);
+      expect(await repository.getApiTokens()).toEqual([]);
+    });
+
+    it('should mint a token with an admin token', async () => {
+      const admin = await bootstrap();
+      const response = await mint(
+        { name: 'Parent', role: 'admin' },
+        bearer(admin.secret),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({
+        success: true,
+        token: {
+          id: expect.stringMatching(/^token_/),
+          name: 'Parent',
+          role: 'admin',
+          createdAt: 1700000001000,
+          revokedAt: null,
+        },
+        secret: expect.stringMatching(/^ptk_[0-9a-f]{64}$/),
+        message: 'Token minted successfully',
+      });
+    });
+
+    it('should mint caregiver tokens only with an admin token', async () => {
+      const admin = await bootstrap();
+
+      expect((await mint({ name: "Sitter's phone" })).status).toBe(401);
+
+      const response = await mint(
+        { name: "Sitter's phone" },
+        bearer(admin.secret),
+      );
+      const body = await response.json();
+      expect(response.status).toBe(200);
+      expect(body.token.role).toBe('caregiver');
+
+      const forbidden = await mint(
+        { name: 'Grandma', role: 'admin' },
+        bearer(body.secret),
+      );
+      expect(forbidden.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/tokens', () => {
+    it('should list tokens without their secrets', async () => {
+      const admin = await bootstrap();
+      await mint({ name: "Sitter's phone" }, bearer(admin.secret));
+
+      const response = await GET(
+        new Request('http://localhost:3000/api/tokens', {
+          headers: bearer(admin.secret),
+        }),
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.count).toBe(2);
+      expect(body.tokens.map((token: { name: string }) => token.name)).toEqual([
+        "Sitter's phone",
+        'This device',
+      ]);
+      expect(JSON.stringify(body)).not.toContain(admin.secret);
+    });
+  });
+
+  describe('POST /api/tokens/[id]/revoke', () => {
+    it('should stop a revoked token from reaching the API', async () => {
+      const admin = await bootstrap();
+      const sitter = await (
+        await mint({ name: "Sitter's phone" }, bearer(admin.secret))
+      ).json();
+      const listTimers = (secret: string) =>
+        GET_TIMERS(
+          new Request('http://localhost:3000/api/timers', {
+            headers: bearer(secret),
+          }),
+        );
+      expect((await listTimers(sitter.secret)).status).toBe(200);
+
+      clock.advanceSeconds(60);
+      const response = await revoke(sitter.token.id, bearer(admin.secret));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        success: true,
+        token: { ...sitter.token, revokedAt: 1700000061000 },
+        message: 'Token revoked successfully',
+      });
+      expect((await listTimers(sitter.secret)).status).toBe(401);
+      expect((await listTimers(admin.secret)).status).toBe(200);
+    });
+
+    it('should refuse to revoke the last admin token', async () => {
+      const admin = await bootstrap();
+
+      const response = await revoke(admin.token.id, bearer(admin.secret));
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        success: false,
+        error:
+          'Cannot revoke the last admin token. Mint another admin token first.',
+      });
+    });
+
+    it('should return 404 for an unknown token', async () => {
+      const admin = await bootstrap();
+
+      const response = await revoke('token_missing', bearer(admin.secret));
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Token not found',
+      });
+    });
+  });
+});
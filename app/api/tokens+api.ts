@@ -0,0 +1,75 @@
+import { getTimerRepository } from '../../services/timerRepository';
+import { getClock } from '../../services/clock';
+import { TOKEN_ROLES, authorize, mintApiToken } from '../../services/apiTokens';
+import {
+  invalidRequest,
+  nonEmptyString,
+  oneOf,
+  optional,
+  validateBody,
+} from '../../services/validation';
+
+// Every token, revoked ones included; secrets and hashes are never listed
+export async function GET(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const tokens = await getTimerRepository().getApiTokens();
+
+    return Response.json({
+      success: true,
+      tokens,
+      count: tokens.length,
+    });
+  } catch (error) {
+    console.error('GET /api/tokens error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to fetch tokens',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// Mints a token. The secret is in this response only. Only an admin token
+// can mint one; the first is minted by the app itself.
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const parsed = await validateBody(request, {
+      name: nonEmptyString,
+      role: optional(oneOf(TOKEN_ROLES)),
+    });
+    if ('errors' in parsed) return invalidRequest(parsed.errors);
+    const { name, role = 'caregiver' } = parsed.value;
+
+    const { token, secret } = await mintApiToken(
+      getTimerRepository(),
+      { name, role },
+      getClock().now(),
+    );
+
+    return Response.json({
+      success: true,
+      token,
+      secret,
+      message: 'Token minted successfully',
+    });
+  } catch (error) {
+    console.error('POST /api/tokens error:', error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to mint token',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
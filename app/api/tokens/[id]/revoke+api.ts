@@ -0,0 +1,66 @@
+import { getTimerRepository } from '../../../../services/timerRepository';
+import { getClock } from '../../../../services/clock';
+import { authorize } from '../../../../services/apiTokens';
+
+// Revokes a token; it stops working at once but stays listed. The last admin
+// token cannot be revoked, so the API never silently reopens.
+export async function POST(
+  request: Request,
+  { id }: { id: string },
+): Promise<Response> {
+  try {
+    const denied = await authorize(request, 'admin');
+    if (denied) return denied;
+
+    const repository = getTimerRepository();
+    const tokens = await repository.getApiTokens();
+    const token = tokens.find((token) => token.id === id);
+    if (!token) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Token not found',
+        },
+        { status: 404 },
+      );
+    }
+
+    const otherAdmins = tokens.filter(
+      (other) =>
+        other.id !== id && other.role === 'admin' && other.revokedAt === null,
+    );
+    if (
+      token.role === 'admin' &&
+      token.revokedAt === null &&
+      otherAdmins.length === 0
+    ) {
+      return Response.json(
+        {
+          success: false,
+          error:
+            'Cannot revoke the last admin token. Mint another admin token first.',
+        },
+        { status: 409 },
+      );
+    }
+
+    const revokedAt = token.revokedAt ?? getClock().now();
+    await repository.revokeApiToken(id, revokedAt);
+
+    return Response.json({
+      success: true,
+      token: { ...token, revokedAt },
+      message: 'Token revoked successfully',
+    });
+  } catch (error) {
+    console.error(`POST /api/tokens/${id}/revoke error:`, error);
+    return Response.json(
+      {
+        success: false,
+        error: 'Failed to revoke token',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 },
+    );
+  }
+}
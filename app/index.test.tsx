@@ -1,7 +1,9 @@
 import React from 'react';
-import { render } from '@testing-library/react-native';
-import { Platform } from 'react-native';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert, Platform, Share } from 'react-native';
 import App from './index';
+import * as Notifications from 'expo-notifications';
+import { MissedAlert } from '../services/missedAlerts';
 
 // Mock expo modules that cause issues
 jest.mock('expo-notifications', () => ({
@@ -83,6 +85,10 @@ const mockTimerContext = {
     startTime: Date.now(),
     isNotificationMode: false,
   },
+  timers: [] as Record<string, unknown>[],
+  addTimer: jest.fn(),
+  removeTimer: jest.fn(),
+  runTimerAction: jest.fn(),
   loading: false,
   error: null,
   createTimer: jest.fn(),
@@ -90,8 +96,25 @@ const mockTimerContext = {
   pauseTimer: jest.fn(),
   resetTimer: jest.fn(),
   updateDuration: jest.fn(),
+  adjustTimer: jest.fn(),
   syncTimer: jest.fn(),
   setNotificationMode: jest.fn(),
+  snoozeTimer: jest.fn(),
+  setRecurrence: jest.fn(),
+  setPreAlerts: jest.fn(),
+  preAlert: null as number | null,
+  setCountUpThreshold: jest.fn(),
+  lastSuccessAt: null as number | null,
+  missedAlerts: [] as MissedAlert[],
+  dismissMissedAlerts: jest.fn(),
+  logEvent: jest.fn(),
+  children: [],
+  activeChildId: null,
+  selectChild: jest.fn(),
+  exportBackup: jest.fn(),
+  importBackup: jest.fn(),
+  schedule: null as { name: string } | null,
+  scheduledInterval: null as number | null,
 };
 
 jest.mock('../contexts/TimerContext', () => ({
@@ -222,5 +245,293 @@ describe('App Component', () => {
         getByText('Tap anywhere for a potty break animation!'),
       ).toBeTruthy();
     });
+
+    it('turns on auto-restart from the settings modal', async () => {
+      const { getByText } = render(<App />);
+      fireEvent.press(getByText('⚙️ Timer Settings'));
+      fireEvent.press(getByText('🔁 Off'));
+
+      // A blank limit means no daily maximum
+      await waitFor(() =>
+        expect(mockTimerContext.setRecurrence).toHaveBeenCalledWith(true, null),
+      );
+    });
+
+    it("offers the active schedule's interval as a preset", async () => {
+      mockTimerContext.schedule = { name: 'Weekdays' };
+      mockTimerContext.scheduledInterval = 2700;
+      try {
+        const { getByText } = render(<App />);
+        fireEvent.press(getByText('⚙️ Timer Settings'));
+        fireEvent.press(getByText('📅 Weekdays (45 min)'));
+
+        await waitFor(() =>
+          expect(mockTimerContext.updateDuration).toHaveBeenCalledWith(2700),
+        );
+      } finally {
+        mockTimerContext.schedule = null;
+        mockTimerContext.scheduledInterval = null;
+      }
+    });
+
+    it('adds and takes off time on a running timer', async () => {
+      mockTimerContext.timer.isActive = true;
+      try {
+        const { getByText } = render(<App />);
+        fireEvent.press(getByText('+5 min'));
+        fireEvent.press(getByText('−5 min'));
+
+        await waitFor(() =>
+          expect(mockTimerContext.adjustTimer).toHaveBeenCalledWith(-300),
+        );
+        expect(mockTimerContext.adjustTimer).toHaveBeenCalledWith(300);
+      } finally {
+        mockTimerContext.timer.isActive = false;
+      }
+    });
+
+    it('offers no adjustments before the timer has started', () => {
+      const { queryByText } = render(<App />);
+
+      expect(queryByText('+5 min')).toBeNull();
+    });
+
+    it('snoozes an alert for the chosen number of minutes', async () => {
+      mockTimerContext.timer.isNotificationMode = true;
+      try {
+        const { getByText } = render(<App />);
+        fireEvent.press(getByText('😴 10 min'));
+
+        await waitFor(() =>
+          expect(mockTimerContext.snoozeTimer).toHaveBeenCalledWith(10),
+        );
+        expect(mockTimerContext.setNotificationMode).not.toHaveBeenCalledWith(
+          false,
+        );
+      } finally {
+        mockTimerContext.timer.isNotificationMode = false;
+      }
+    });
+
+    it('logs an outcome only when one is picked', async () => {
+      mockTimerContext.timer.isNotificationMode = true;
+      try {
+        const { getByTestId, getByText } = render(<App />);
+        fireEvent.press(getByTestId('app-touchable'));
+
+        await waitFor(() =>
+          expect(mockTimerContext.setNotificationMode).toHaveBeenCalledWith(
+            false,
+          ),
+        );
+        expect(mockTimerContext.logEvent).not.toHaveBeenCalled();
+
+        fireEvent.press(getByText('✅ Went!'));
+        await waitFor(() =>
+          expect(mockTimerContext.logEvent).toHaveBeenCalledWith('success'),
+        );
+      } finally {
+        mockTimerContext.timer.isNotificationMode = false;
+      }
+    });
+
+    it('shows a banner and notifies when a pre-alert is raised', async () => {
+      mockTimerContext.timer.isActive = true;
+      mockTimerContext.preAlert = 300;
+      try {
+        const { getByText } = render(<App />);
+
+        expect(getByText('⏳ Potty break in 5 min')).toBeTruthy();
+        await waitFor(() =>
+          expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+            content: {
+              title: '🚽 Potty break soon',
+              body: 'Potty break in 5 min. Time to wrap up!',
+            },
+            trigger: null,
+          }),
+        );
+      } finally {
+        mockTimerContext.timer.isActive = false;
+        mockTimerContext.preAlert = null;
+      }
+    });
+
+    it('turns on the default pre-alerts from the settings modal', async () => {
+      const { getByText } = render(<App />);
+      fireEvent.press(getByText('⚙️ Timer Settings'));
+      fireEvent.press(getByText('🔔 Off'));
+
+      await waitFor(() =>
+        expect(mockTimerContext.setPreAlerts).toHaveBeenCalledWith([300, 60]),
+      );
+    });
+
+    it('counts up from the last success next to the countdown', () => {
+      mockTimerContext.lastSuccessAt = Date.now() - 5 * 60 * 1000;
+      try {
+        const { getByText } = render(<App />);
+
+        expect(getByText('60:00')).toBeTruthy();
+        expect(getByText('05:00')).toBeTruthy();
+      } finally {
+        mockTimerContext.lastSuccessAt = null;
+      }
+    });
+
+    it('turns off the count-up alert from the settings modal', async () => {
+      Object.assign(mockTimerContext.timer, { countUpThreshold: 10800 });
+      try {
+        const { getByText } = render(<App />);
+        fireEvent.press(getByText('⚙️ Timer Settings'));
+        fireEvent.press(getByText('⏱️ On'));
+
+        await waitFor(() =>
+          expect(mockTimerContext.setCountUpThreshold).toHaveBeenCalledWith(
+            null,
+          ),
+        );
+      } finally {
+        Object.assign(mockTimerContext.timer, { countUpThreshold: undefined });
+      }
+    });
+
+    it('lists named timers and dismisses their own alerts', async () => {
+      mockTimerContext.timers = [
+        {
+          id: 'timer_water',
+          name: 'Drink water',
+          duration: 2700,
+          remainingTime: 1500,
+          isActive: true,
+          isNotificationMode: false,
+        },
+        {
+          id: 'timer_medicine',
+          name: 'Medicine',
+          duration: 3600,
+          remainingTime: 0,
+          isActive: false,
+          isNotificationMode: true,
+        },
+      ];
+      try {
+        const { getByText } = render(<App />);
+
+        expect(getByText('Drink water 25:00')).toBeTruthy();
+        expect(getByText('⏰ Time for Medicine!')).toBeTruthy();
+        fireEvent.press(getByText('✔️ Done'));
+
+        await waitFor(() =>
+          expect(mockTimerContext.runTimerAction).toHaveBeenCalledWith(
+            'timer_medicine',
+            { type: 'dismiss' },
+          ),
+        );
+        expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+          content: { title: '⏰ Medicine', body: 'Time for Medicine!' },
+          trigger: null,
+        });
+      } finally {
+        mockTimerContext.timers = [];
+      }
+    });
+
+    it('sums up the alerts missed while the app was closed', () => {
+      mockTimerContext.missedAlerts = [
+        {
+          id: 'missed_1',
+          timerId: 'timer_potty',
+          expiredAt: 1700000000000,
+          detectedAt: 1700001500000,
+        },
+        {
+          id: 'missed_2',
+          timerId: 'timer_water',
+          expiredAt: 1700001440000,
+          detectedAt: 1700001500000,
+        },
+      ];
+      mockTimerContext.timers = [
+        {
+          id: 'timer_water',
+          name: 'Drink water',
+          duration: 2700,
+          remainingTime: 0,
+          isActive: false,
+          isNotificationMode: true,
+        },
+      ];
+      try {
+        const { getByText } = render(<App />);
+
+        expect(getByText('⏰ You missed a break 25 minutes ago')).toBeTruthy();
+        expect(
+          getByText('⏰ You missed Drink water 1 minute ago'),
+        ).toBeTruthy();
+        fireEvent.press(getByText('OK'));
+        expect(mockTimerContext.dismissMissedAlerts).toHaveBeenCalled();
+      } finally {
+        mockTimerContext.missedAlerts = [];
+        mockTimerContext.timers = [];
+      }
+    });
+
+    it('shares a backup from the settings modal', async () => {
+      const backup = { format: 'potty-timer-backup', version: 1, timers: [] };
+      mockTimerContext.exportBackup.mockResolvedValue(backup);
+      const { getByText } = render(<App />);
+      fireEvent.press(getByText('⚙️ Timer Settings'));
+      fireEvent.press(getByText('💾 Export Backup'));
+
+      await waitFor(() =>
+        expect(Share.share).toHaveBeenCalledWith({
+          title: 'Potty Timer Backup',
+          message: JSON.stringify(backup, null, 2),
+        }),
+      );
+    });
+
+    it('imports a pasted backup from the settings modal', async () => {
+      const backup = { format: 'potty-timer-backup', version: 3, timers: [] };
+      mockTimerContext.importBackup.mockResolvedValue({
+        result: {
+          imported: { timers: 2, events: 3 },
+          skipped: { timers: 1 },
+          conflicts: [],
+        },
+      });
+      const { getByText, UNSAFE_getByProps } = render(<App />);
+      fireEvent.press(getByText('⚙️ Timer Settings'));
+      fireEvent.changeText(
+        UNSAFE_getByProps({ placeholder: 'Paste a backup to import' }),
+        JSON.stringify(backup),
+      );
+      fireEvent.press(getByText('📥 Import Backup'));
+
+      await waitFor(() =>
+        expect(Alert.alert).toHaveBeenCalledWith(
+          'Backup Imported',
+          '5 records added, 1 already here, 0 kept as they were.',
+        ),
+      );
+      expect(mockTimerContext.importBackup).toHaveBeenCalledWith(backup);
+    });
+
+    it('refuses a pasted backup that is not JSON', async () => {
+      const { getByText, UNSAFE_getByProps } = render(<App />);
+      fireEvent.press(getByText('⚙️ Timer Settings'));
+      fireEvent.changeText(
+        UNSAFE_getByProps({ placeholder: 'Paste a backup to import' }),
+        'not a backup',
+      );
+      fireEvent.press(getByText('📥 Import Backup'));
+
+      expect(Alert.alert).toHaveBeenCalledWith(
+        'Import Failed',
+        'Please paste a JSON backup',
+      );
+      expect(mockTimerContext.importBackup).not.toHaveBeenCalled();
+    });
   });
 });
@@ -21,12 +21,20 @@ import {
   TouchableOpacity,
   TextInput,
   Alert,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAudioPlayer } from 'expo-audio';
 import AnimatedEmoji from '../AnimatedEmoji';
 import CountdownTimer from '../CountdownTimer';
-import { useTimer } from '../contexts/TimerContext';
+import { useTimer, PottyOutcome } from '../contexts/TimerContext';
+import { SNOOZE_OPTIONS } from '../services/snooze';
+import { DEFAULT_PRE_ALERT_OFFSETS } from '../services/preAlerts';
+import { ADJUST_STEP_MINUTES } from '../services/adjust';
+import { canTransition } from '../services/timerMachine';
+import { elapsedSeconds, getClock } from '../services/clock';
+import { MissedAlert, lateSeconds } from '../services/missedAlerts';
+import { DEFAULT_TIMER_NAME } from '../services/namedTimers';
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import * as Haptics from 'expo-haptics';
@@ -110,6 +118,24 @@ const setupPushNotifications = async () => {
   }
 };
 
+// "5 min" or "30 sec" for a pre-alert offset in seconds
+const formatPreAlert = (seconds: number) =>
+  seconds >= 60 ? `${Math.round(seconds / 60)} min` : `${seconds} sec`;
+
+// "You missed a break 25 minutes ago", naming timers other than the potty one
+const formatMissedAlert = (alert: MissedAlert, name = DEFAULT_TIMER_NAME) => {
+  const minutes = Math.round(lateSeconds(alert) / 60);
+  return `You missed ${name === DEFAULT_TIMER_NAME ? 'a break' : name} ${minutes} ${
+    minutes === 1 ? 'minute' : 'minutes'
+  } ago`;
+};
+
+// Time left on a named timer, as MM:SS
+const formatTimeLeft = (seconds: number) =>
+  `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(
+    seconds % 60,
+  ).padStart(2, '0')}`;
+
 /**
  * Requests notification permissions and sets up appropriate notification type.
  */
@@ -151,6 +177,10 @@ const registerAndScheduleNotifications = async () => {
 export default function PottyTimerScreen() {
   const {
     timer,
+    timers,
+    addTimer,
+    removeTimer,
+    runTimerAction,
     loading,
     error,
     createTimer,
@@ -158,7 +188,26 @@ export default function PottyTimerScreen() {
     pauseTimer,
     resetTimer,
     updateDuration,
+    adjustTimer,
     setNotificationMode,
+    snoozeTimer,
+    setRecurrence,
+    setPreAlerts,
+    preAlert,
+    setCountUpThreshold,
+    lastSuccessAt,
+    countUpAlert,
+    dismissCountUpAlert,
+    missedAlerts,
+    dismissMissedAlerts,
+    logEvent,
+    children,
+    activeChildId,
+    selectChild,
+    exportBackup,
+    importBackup,
+    schedule,
+    scheduledInterval,
   } = useTimer();
 
   const [showEmoji, setShowEmoji] = useState(false);
@@ -168,6 +217,14 @@ export default function PottyTimerScreen() {
   const [showTimerSelector, setShowTimerSelector] = useState(false);
   const [customMinutes, setCustomMinutes] = useState('60');
   const [customSeconds, setCustomSeconds] = useState('00');
+  const [maxRunsInput, setMaxRunsInput] = useState('');
+  const [preAlertInput, setPreAlertInput] = useState('');
+  const [countUpInput, setCountUpInput] = useState('');
+  const [newTimerName, setNewTimerName] = useState('');
+  const [newTimerMinutes, setNewTimerMinutes] = useState('');
+  const [backupInput, setBackupInput] = useState('');
+  // Named timers whose alert has already been notified
+  const notifiedTimerIds = useRef(new Set<string>());
   const { width, height } = useWindowDimensions();
   const appState = useRef<AppStateStatus>(AppState.currentState);
   const colorCycleRef = useRef<any>(null);
@@ -191,13 +248,89 @@ export default function PottyTimerScreen() {
     '#F7DC6F', // Light Yellow
   ];
 
-  // Timer preset options
+  // Outcome options offered when a potty break alert is dismissed
+  const pottyOutcomes: { label: string; value: PottyOutcome }[] = [
+    { label: '✅ Went!', value: 'success' },
+    { label: '💦 Accident', value: 'accident' },
+    { label: '🤷 Tried', value: 'tried-nothing' },
+  ];
+
+  // Timer preset options, led by what the active schedule sets right now
   const timerPresets = [
+    ...(schedule && scheduledInterval
+      ? [
+          {
+            label: `📅 ${schedule.name} (${Math.round(scheduledInterval / 60)} min)`,
+            value: scheduledInterval,
+          },
+        ]
+      : []),
     { label: '30 Minutes', value: 1800 },
     { label: '1 Hour', value: 3600 },
     { label: '2 Hours', value: 7200 },
   ];
 
+  // Show the current timer's daily limit in the settings
+  useEffect(() => {
+    setMaxRunsInput(timer?.maxRunsPerDay ? String(timer.maxRunsPerDay) : '');
+  }, [timer?.id, timer?.maxRunsPerDay]);
+
+  // Show the current timer's pre-alerts in minutes, e.g. "5, 1"
+  useEffect(() => {
+    setPreAlertInput(
+      (timer?.preAlertOffsets ?? [])
+        .map((offset) => String(offset / 60))
+        .join(', '),
+    );
+  }, [timer?.id, timer?.preAlertOffsets]);
+
+  // Show the current timer's count-up threshold in minutes
+  useEffect(() => {
+    setCountUpInput(
+      timer?.countUpThreshold ? String(timer.countUpThreshold / 60) : '',
+    );
+  }, [timer?.id, timer?.countUpThreshold]);
+
+  // Gentle cue for each pre-alert: soft haptic and a local notification
+  useEffect(() => {
+    if (preAlert === null) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Notifications.scheduleNotificationAsync({
+      content: {
+        title: '🚽 Potty break soon',
+        body: `Potty break in ${formatPreAlert(preAlert)}. Time to wrap up!`,
+      },
+      trigger: null,
+    }).catch(console.error);
+  }, [preAlert]);
+
+  // Named timers other than the main one, each with its own alert
+  const namedTimers = timers.filter((named) => named.id !== timer?.id);
+  const alertingTimerIds = namedTimers
+    .filter((named) => named.isNotificationMode)
+    .map((named) => named.id);
+
+  useEffect(() => {
+    for (const named of namedTimers) {
+      if (!named.isNotificationMode) {
+        notifiedTimerIds.current.delete(named.id);
+        continue;
+      }
+      if (notifiedTimerIds.current.has(named.id)) continue;
+      notifiedTimerIds.current.add(named.id);
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      Notifications.scheduleNotificationAsync({
+        content: {
+          title: `⏰ ${named.name}`,
+          body: `Time for ${named.name}!`,
+        },
+        trigger: null,
+      }).catch(console.error);
+    }
+  }, [alertingTimerIds.join(',')]);
+
   useEffect(() => {
     // Register and schedule notifications on mount
     registerAndScheduleNotifications();
@@ -233,9 +366,12 @@ export default function PottyTimerScreen() {
     // Initial animation trigger
     triggerEmoji();
     // Animation repeats every hour with notification mode
-    const interval = setInterval(() => {
-      triggerNotificationMode();
-    }, 60 * 60 * 1000);
+    const interval = setInterval(
+      () => {
+        triggerNotificationMode();
+      },
+      60 * 60 * 1000,
+    );
 
     // For testing: trigger notification mode after 5 seconds (only in debug mode)
     let testTimeout: any = null;
@@ -286,6 +422,13 @@ export default function PottyTimerScreen() {
     };
   }, [timer?.isNotificationMode, player]);
 
+  // Buzz once when the count-up threshold passes
+  useEffect(() => {
+    if (countUpAlert) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+  }, [countUpAlert]);
+
   // Countdown complete handler
   const handleCountdownComplete = () => {
     // Immediately trigger notification mode when countdown completes
@@ -309,13 +452,32 @@ export default function PottyTimerScreen() {
     }
   }
 
+  // Leaves notification mode, recording what happened during the potty
+  // break when an outcome was picked
+  const dismissNotificationMode = async (outcome?: PottyOutcome) => {
+    setNotificationMode(false);
+    // Success haptic feedback for dismissal
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    if (outcome) await logEvent(outcome);
+  };
+
+  // Adds or takes off a few minutes, e.g. after an unplanned trip
+  const handleAdjust = async (seconds: number) => {
+    await adjustTimer(seconds);
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  // Silences the alert for a short follow-up countdown
+  const handleSnooze = async (minutes: number) => {
+    await snoozeTimer(minutes);
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
   // Manually trigger animation on tap with haptic feedback or dismiss notification mode
   const handleUserInteraction = async () => {
     if (timer?.isNotificationMode) {
-      // Dismiss notification mode
-      setNotificationMode(false);
-      // Success haptic feedback for dismissal
-      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // Dismissing without picking an outcome logs nothing
+      await dismissNotificationMode();
     } else {
       // Medium haptic feedback for user tap interaction
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
@@ -369,6 +531,144 @@ export default function PottyTimerScreen() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   };
 
+  // Save auto-restart settings; a blank limit means no daily maximum
+  const saveRecurrence = async (isRecurring: boolean) => {
+    const maxRunsPerDay = parseInt(maxRunsInput);
+
+    if (maxRunsInput !== '' && !(maxRunsPerDay > 0)) {
+      Alert.alert(
+        'Invalid Limit',
+        'Please enter how many times a day, or leave it blank',
+      );
+      return;
+    }
+
+    await setRecurrence(
+      isRecurring,
+      maxRunsInput === '' ? null : maxRunsPerDay,
+    );
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  // Save pre-alerts from minutes like "5, 1"; blank means the defaults
+  const savePreAlerts = async (enabled: boolean) => {
+    if (!enabled) {
+      await setPreAlerts([]);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      return;
+    }
+
+    const minutes = preAlertInput
+      .split(',')
+      .map((value) => value.trim())
+      .filter((value) => value !== '')
+      .map(Number);
+
+    if (!minutes.every((value) => value > 0)) {
+      Alert.alert(
+        'Invalid Heads-up',
+        'Please enter minutes before the break, like 5, 1',
+      );
+      return;
+    }
+
+    await setPreAlerts(
+      minutes.length > 0
+        ? minutes.map((value) => Math.round(value * 60))
+        : DEFAULT_PRE_ALERT_OFFSETS,
+    );
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  // Save how long after the last success to alert, in minutes
+  const saveCountUpThreshold = async (enabled: boolean) => {
+    if (!enabled) {
+      await setCountUpThreshold(null);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      return;
+    }
+
+    const minutes = Number(countUpInput);
+    if (!(minutes > 0)) {
+      Alert.alert(
+        'Invalid Alert Time',
+        'Please enter how many minutes after the last potty to alert',
+      );
+      return;
+    }
+
+    await setCountUpThreshold(Math.round(minutes * 60));
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  // Add a named timer, e.g. "Drink water" every 45 minutes
+  const handleAddTimer = async () => {
+    const name = newTimerName.trim();
+    const minutes = Number(newTimerMinutes);
+
+    if (name === '' || !(minutes > 0)) {
+      Alert.alert(
+        'Invalid Timer',
+        'Please enter a name and how many minutes it runs for',
+      );
+      return;
+    }
+
+    await addTimer(name, Math.round(minutes * 60));
+    setNewTimerName('');
+    setNewTimerMinutes('');
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  // Share a JSON backup through the system share sheet
+  const handleExportBackup = async () => {
+    try {
+      const backup = await exportBackup();
+      await Share.share({
+        title: 'Potty Timer Backup',
+        message: JSON.stringify(backup, null, 2),
+      });
+    } catch (error) {
+      Alert.alert(
+        'Backup Failed',
+        error instanceof Error ? error.message : 'Could not export backup',
+      );
+    }
+  };
+
+  // Restore a JSON backup pasted in, e.g. one shared from another device.
+  // Nothing already here is overwritten.
+  const handleImportBackup = async () => {
+    let document: unknown;
+    try {
+      document = JSON.parse(backupInput);
+    } catch {
+      Alert.alert('Import Failed', 'Please paste a JSON backup');
+      return;
+    }
+
+    try {
+      const imported = await importBackup(document);
+      if ('error' in imported) {
+        Alert.alert('Import Failed', imported.error);
+        return;
+      }
+      const { result } = imported;
+      const count = (counts: Record<string, number>) =>
+        Object.values(counts).reduce((sum, n) => sum + n, 0);
+      Alert.alert(
+        'Backup Imported',
+        `${count(result.imported)} records added, ${count(result.skipped)} already here, ${result.conflicts.length} kept as they were.`,
+      );
+      setBackupInput('');
+    } catch (error) {
+      Alert.alert(
+        'Import Failed',
+        error instanceof Error ? error.message : 'Could not import backup',
+      );
+    }
+  };
+
   // Handle custom timer input
   const handleCustomTimer = () => {
     const minutes = parseInt(customMinutes) || 0;
@@ -477,6 +777,127 @@ export default function PottyTimerScreen() {
               </TouchableOpacity>
             </View>
 
+            {/* Recurring intervals */}
+            <Text style={styles.customLabel}>
+              Auto-restart after each break (max per day):
+            </Text>
+            <View style={styles.customInputContainer}>
+              <TextInput
+                style={styles.timeInput}
+                value={maxRunsInput}
+                onChangeText={setMaxRunsInput}
+                placeholder='∞'
+                keyboardType='numeric'
+                maxLength={2}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.setButton,
+                  !timer?.isRecurring && styles.toggleOffButton,
+                ]}
+                onPress={() => saveRecurrence(!timer?.isRecurring)}>
+                <Text style={styles.setButtonText}>
+                  {timer?.isRecurring ? '🔁 On' : '🔁 Off'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Pre-alerts */}
+            <Text style={styles.customLabel}>
+              Heads-up before each break (minutes):
+            </Text>
+            <View style={styles.customInputContainer}>
+              <TextInput
+                style={styles.timeInput}
+                value={preAlertInput}
+                onChangeText={setPreAlertInput}
+                placeholder='5, 1'
+                keyboardType='numbers-and-punctuation'
+                maxLength={8}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.setButton,
+                  !timer?.preAlertOffsets?.length && styles.toggleOffButton,
+                ]}
+                onPress={() => savePreAlerts(!timer?.preAlertOffsets?.length)}>
+                <Text style={styles.setButtonText}>
+                  {timer?.preAlertOffsets?.length ? '🔔 On' : '🔔 Off'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Count-up alert */}
+            <Text style={styles.customLabel}>
+              Alert this long after the last potty (minutes):
+            </Text>
+            <View style={styles.customInputContainer}>
+              <TextInput
+                style={styles.timeInput}
+                value={countUpInput}
+                onChangeText={setCountUpInput}
+                placeholder='180'
+                keyboardType='numeric'
+                maxLength={4}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.setButton,
+                  !timer?.countUpThreshold && styles.toggleOffButton,
+                ]}
+                onPress={() => saveCountUpThreshold(!timer?.countUpThreshold)}>
+                <Text style={styles.setButtonText}>
+                  {timer?.countUpThreshold ? '⏱️ On' : '⏱️ Off'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Named timers */}
+            <Text style={styles.customLabel}>
+              Another timer (name and minutes):
+            </Text>
+            <View style={styles.customInputContainer}>
+              <TextInput
+                style={[styles.timeInput, styles.nameInput]}
+                value={newTimerName}
+                onChangeText={setNewTimerName}
+                placeholder='Drink water'
+                maxLength={40}
+              />
+              <TextInput
+                style={styles.timeInput}
+                value={newTimerMinutes}
+                onChangeText={setNewTimerMinutes}
+                placeholder='45'
+                keyboardType='numeric'
+                maxLength={3}
+              />
+              <TouchableOpacity
+                style={styles.setButton}
+                onPress={handleAddTimer}>
+                <Text style={styles.setButtonText}>➕ Add</Text>
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={styles.backupButton}
+              onPress={handleExportBackup}>
+              <Text style={styles.backupButtonText}>💾 Export Backup</Text>
+            </TouchableOpacity>
+
+            <TextInput
+              style={styles.backupInput}
+              value={backupInput}
+              onChangeText={setBackupInput}
+              placeholder='Paste a backup to import'
+              multiline
+            />
+            <TouchableOpacity
+              style={styles.backupButton}
+              onPress={handleImportBackup}>
+              <Text style={styles.backupButtonText}>📥 Import Backup</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.cancelButton}
               onPress={() => setShowTimerSelector(false)}>
@@ -522,9 +943,85 @@ export default function PottyTimerScreen() {
           },
         ]}
         testID='main-container'>
+        {/* Summary of alerts that went off while the app was closed */}
+        {missedAlerts.length > 0 && (
+          <View style={styles.missedAlertBanner}>
+            {missedAlerts.map((alert) => (
+              <Text key={alert.id} style={styles.missedAlertText}>
+                {`⏰ ${formatMissedAlert(
+                  alert,
+                  timers.find((named) => named.id === alert.timerId)?.name,
+                )}`}
+              </Text>
+            ))}
+            <TouchableOpacity onPress={dismissMissedAlerts}>
+              <Text style={styles.missedAlertDismiss}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Count-up alert, shown alongside the countdown */}
+        {countUpAlert && (
+          <View style={styles.countUpAlertBanner}>
+            <Text style={styles.countUpAlertText}>
+              {`⏱️ ${Math.round(
+                (timer?.countUpThreshold ?? 0) / 60,
+              )}+ min since the last success`}
+            </Text>
+            <TouchableOpacity onPress={dismissCountUpAlert}>
+              <Text style={styles.countUpAlertDismiss}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Child Selector - Only when child profiles exist */}
+        {!timer?.isNotificationMode && children.length > 0 && (
+          <View style={styles.childSelector}>
+            <TouchableOpacity
+              style={[
+                styles.childChip,
+                activeChildId === null && styles.selectedChildChip,
+              ]}
+              onPress={() => selectChild(null)}>
+              <Text
+                style={[
+                  styles.childChipText,
+                  activeChildId === null && styles.selectedChildChipText,
+                ]}>
+                🏠 Everyone
+              </Text>
+            </TouchableOpacity>
+            {children.map((child) => (
+              <TouchableOpacity
+                key={child.id}
+                style={[
+                  styles.childChip,
+                  activeChildId === child.id && styles.selectedChildChip,
+                ]}
+                onPress={() => selectChild(child.id)}>
+                <Text
+                  style={[
+                    styles.childChipText,
+                    activeChildId === child.id && styles.selectedChildChipText,
+                  ]}>
+                  {child.avatarEmoji} {child.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Countdown Timer with Settings Button - Only in Normal Mode */}
         {!timer?.isNotificationMode && (
           <View style={styles.timerSection}>
+            {/* Pre-alert banner */}
+            {preAlert !== null && timer?.isActive && (
+              <View style={styles.preAlertBanner}>
+                <Text style={styles.preAlertText}>
+                  ⏳ Potty break in {formatPreAlert(preAlert)}
+                </Text>
+              </View>
+            )}
             {timer && (
               <CountdownTimer
                 timeInSeconds={timer.remainingTime}
@@ -533,6 +1030,32 @@ export default function PottyTimerScreen() {
                 style={styles.countdownWrapper}
               />
             )}
+            {/* Time since the last success, counting up */}
+            {lastSuccessAt !== null && (
+              <CountdownTimer
+                timeInSeconds={elapsedSeconds(lastSuccessAt, getClock().now())}
+                countUp
+                style={styles.countUpWrapper}
+              />
+            )}
+            {timer && canTransition(timer, 'adjust') && (
+              <View style={styles.adjustButtons}>
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => handleAdjust(-ADJUST_STEP_MINUTES * 60)}>
+                  <Text style={styles.adjustButtonText}>
+                    −{ADJUST_STEP_MINUTES} min
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => handleAdjust(ADJUST_STEP_MINUTES * 60)}>
+                  <Text style={styles.adjustButtonText}>
+                    +{ADJUST_STEP_MINUTES} min
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
             <TouchableOpacity
               style={styles.settingsButton}
               onPress={() => setShowTimerSelector(true)}>
@@ -554,6 +1077,48 @@ export default function PottyTimerScreen() {
                 <Text style={styles.controlButtonText}>🔄 Reset</Text>
               </TouchableOpacity>
             </View>
+
+            {/* Named timers running alongside */}
+            {namedTimers.map((named) => (
+              <View
+                key={named.id}
+                style={[
+                  styles.namedTimerRow,
+                  named.isNotificationMode && styles.namedTimerAlerting,
+                ]}>
+                <Text style={styles.namedTimerText}>
+                  {named.isNotificationMode
+                    ? `⏰ Time for ${named.name}!`
+                    : `${named.name} ${formatTimeLeft(named.remainingTime)}`}
+                </Text>
+                {named.isNotificationMode ? (
+                  <TouchableOpacity
+                    style={styles.adjustButton}
+                    onPress={() =>
+                      runTimerAction(named.id, { type: 'dismiss' })
+                    }>
+                    <Text style={styles.adjustButtonText}>✔️ Done</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.adjustButton}
+                    onPress={() =>
+                      runTimerAction(named.id, {
+                        type: named.isActive ? 'pause' : 'start',
+                      })
+                    }>
+                    <Text style={styles.adjustButtonText}>
+                      {named.isActive ? '⏸️' : '▶️'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => removeTimer(named.id)}>
+                  <Text style={styles.adjustButtonText}>🗑️</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
           </View>
         )}
 
@@ -623,6 +1188,34 @@ export default function PottyTimerScreen() {
                   </Text>
                 </View>
               )}
+
+              {/* Outcome buttons for logging the potty break */}
+              <View style={styles.outcomeButtons}>
+                {pottyOutcomes.map((outcome) => (
+                  <TouchableOpacity
+                    key={outcome.value}
+                    style={styles.outcomeButton}
+                    onPress={() => dismissNotificationMode(outcome.value)}>
+                    <Text style={styles.outcomeButtonText}>
+                      {outcome.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Snooze buttons for when a break has to wait */}
+              <View style={styles.snoozeButtons}>
+                {SNOOZE_OPTIONS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={styles.snoozeButton}
+                    onPress={() => handleSnooze(minutes)}>
+                    <Text style={styles.snoozeButtonText}>
+                      😴 {minutes} min
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             </View>
           ) : (
             <>
@@ -669,7 +1262,7 @@ export default function PottyTimerScreen() {
 
         <Text style={[styles.instruction, { fontSize: textFontSize * 0.65 }]}>
           {timer?.isNotificationMode
-            ? 'Tap anywhere to dismiss!'
+            ? 'Pick what happened, or tap anywhere to skip!'
             : 'Tap anywhere for a potty break animation!'}
         </Text>
 
@@ -728,9 +1321,90 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
+  preAlertBanner: {
+    backgroundColor: '#FFF3CD',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  preAlertText: {
+    color: '#856404',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  missedAlertBanner: {
+    backgroundColor: '#F8D7DA',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  missedAlertText: {
+    color: '#721C24',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  missedAlertDismiss: {
+    color: '#721C24',
+    fontSize: 14,
+    marginTop: 4,
+    textDecorationLine: 'underline',
+  },
+  countUpAlertBanner: {
+    backgroundColor: '#FFF3CD',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  countUpAlertText: {
+    color: '#856404',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  countUpAlertDismiss: {
+    color: '#856404',
+    fontSize: 14,
+    marginTop: 4,
+    textDecorationLine: 'underline',
+  },
+  childSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  childChip: {
+    backgroundColor: '#e9ecef',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedChildChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#0051D0',
+  },
+  childChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  selectedChildChipText: {
+    color: 'white',
+  },
   countdownWrapper: {
     marginBottom: 10,
   },
+  countUpWrapper: {
+    marginTop: 0,
+    marginBottom: 10,
+  },
   settingsButton: {
     backgroundColor: '#007AFF',
     paddingHorizontal: 16,
@@ -748,6 +1422,41 @@ const styles = StyleSheet.create({
     gap: 10,
     marginTop: 10,
   },
+  adjustButtons: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 4,
+  },
+  adjustButton: {
+    backgroundColor: '#e9ecef',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  adjustButtonText: {
+    color: '#333',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  namedTimerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginTop: 8,
+  },
+  namedTimerAlerting: {
+    backgroundColor: '#FFF3CD',
+  },
+  namedTimerText: {
+    color: '#333',
+    fontSize: 15,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
   controlButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -860,6 +1569,9 @@ const styles = StyleSheet.create({
     width: 60,
     marginHorizontal: 5,
   },
+  nameInput: {
+    width: 120,
+  },
   timeSeparator: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -876,6 +1588,29 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '600',
   },
+  toggleOffButton: {
+    backgroundColor: '#6c757d',
+  },
+  backupButton: {
+    backgroundColor: '#6c757d',
+    padding: 15,
+    borderRadius: 10,
+    marginTop: 10,
+  },
+  backupInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 10,
+    maxHeight: 120,
+  },
+  backupButtonText: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    fontWeight: '600',
+  },
   cancelButton: {
     backgroundColor: '#dc3545',
     padding: 15,
@@ -901,6 +1636,41 @@ const styles = StyleSheet.create({
     color: '#222',
     textAlign: 'center',
   },
+  outcomeButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 20,
+  },
+  outcomeButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  outcomeButtonText: {
+    color: '#222',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  snoozeButtons: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 12,
+  },
+  snoozeButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  snoozeButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
 
 // Global function declarations
@@ -1,7 +1,20 @@
 import React from 'react';
-import { render, renderHook } from '@testing-library/react-native';
+import {
+  act,
+  render,
+  renderHook,
+  waitFor,
+} from '@testing-library/react-native';
 import { Text } from 'react-native';
-import { TimerProvider, useTimer, TimerState } from './TimerContext';
+import {
+  TimerProvider,
+  TimerSubscriber,
+  useTimer,
+  TimerState,
+} from './TimerContext';
+import { InMemoryTimerRepository } from '../services/memoryTimerRepository';
+import { FakeClock } from '../services/clock';
+import { createBackup } from '../services/backup';
 
 // Mock the database service
 const mockDatabase = {
@@ -165,6 +178,521 @@ describe('TimerContext', () => {
     });
   });
 
+  describe('Repository Injection', () => {
+    it('creates the default timer in the injected repository', async () => {
+      const repository = new InMemoryTimerRepository();
+
+      const { getByTestId } = render(
+        <TimerProvider repository={repository}>
+          <TestComponent />
+        </TimerProvider>,
+      );
+
+      await waitFor(async () => {
+        const [timer] = await repository.getAllTimers();
+        expect(getByTestId('timer-status')).toHaveTextContent(timer.id);
+      });
+      expect(mockDatabase.createTimer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Schedules', () => {
+    const renderWithSchedule = async () => {
+      const clock = new FakeClock(new Date(2024, 0, 15, 21, 0).getTime());
+      const repository = new InMemoryTimerRepository(clock);
+      await repository.createSchedule({
+        name: 'Weekdays',
+        windows: [{ start: '18:00', end: '22:00', interval: 2700 }],
+        quietHours: { start: '21:00', end: '07:00' },
+        isActive: true,
+      });
+
+      const hook = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(hook.result.current.timer).not.toBeNull());
+      return hook;
+    };
+
+    it("creates the default timer with the schedule's interval", async () => {
+      const { result } = await renderWithSchedule();
+
+      expect(result.current.schedule?.name).toBe('Weekdays');
+      expect(result.current.scheduledInterval).toBe(2700);
+      expect(result.current.timer?.duration).toBe(2700);
+    });
+
+    it('starts and resets to the interval of a schedule set since loading', async () => {
+      const clock = new FakeClock(new Date(2024, 0, 15, 19, 0).getTime());
+      const repository = new InMemoryTimerRepository(clock);
+      await repository.createTimer({
+        duration: 600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 600,
+        isNotificationMode: false,
+      });
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timer).not.toBeNull());
+
+      const schedule = await repository.createSchedule({
+        name: 'Evenings',
+        windows: [{ start: '18:00', end: '22:00', interval: 2700 }],
+        quietHours: null,
+        isActive: true,
+      });
+      await act(() => result.current.startTimer());
+
+      expect(result.current.schedule?.id).toBe(schedule.id);
+      expect(result.current.timer).toMatchObject({
+        duration: 2700,
+        remainingTime: 2700,
+      });
+
+      await repository.updateSchedule(schedule.id, {
+        windows: [{ start: '18:00', end: '22:00', interval: 1800 }],
+      });
+      await act(() => result.current.resetTimer());
+
+      expect(result.current.timer).toMatchObject({
+        duration: 1800,
+        remainingTime: 1800,
+      });
+    });
+
+    it('never enters notification mode during quiet hours', async () => {
+      const { result } = await renderWithSchedule();
+
+      act(() => result.current.setNotificationMode(true));
+
+      expect(result.current.timer?.isNotificationMode).toBe(false);
+    });
+  });
+
+  describe('Transitions', () => {
+    it('reports an illegal transition instead of applying it', async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      await repository.createTimer({
+        duration: 600,
+        startTime: clock.now(),
+        isActive: true,
+        remainingTime: 600,
+        isNotificationMode: false,
+      });
+
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timer?.isActive).toBe(true));
+
+      clock.advanceSeconds(60);
+      await act(() => result.current.startTimer());
+
+      expect(result.current.error).toBe(
+        'Cannot start a timer that is running.',
+      );
+      expect(result.current.timer?.startTime).toBe(1700000000000);
+    });
+
+    it('resumes a paused timer with the time it had left', async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      await repository.createTimer({
+        duration: 600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 600,
+        isNotificationMode: false,
+      });
+
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timer).not.toBeNull());
+
+      await act(() => result.current.startTimer());
+      clock.advanceSeconds(240);
+      await act(() => result.current.pauseTimer());
+      clock.advanceSeconds(120);
+      await act(() => result.current.startTimer());
+      clock.advanceSeconds(60);
+
+      await waitFor(() =>
+        expect(result.current.timer?.remainingTime).toBe(300),
+      );
+    });
+  });
+
+  describe('Concurrent changes', () => {
+    const renderWithTimer = async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      const timer = await repository.createTimer({
+        duration: 600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 600,
+        isNotificationMode: false,
+      });
+
+      const hook = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(hook.result.current.timer?.id).toBe(timer.id));
+      return { ...hook, clock, repository, timer };
+    };
+
+    it('works an action out again from a change made elsewhere', async () => {
+      const { result, clock, repository, timer } = await renderWithTimer();
+      // Another device starts the timer without this one hearing of it
+      await repository.updateTimer(
+        timer.id,
+        {
+          isActive: true,
+          runSegments: [{ startedAt: clock.now(), endedAt: null }],
+        },
+        'start',
+      );
+
+      clock.advanceSeconds(60);
+      await act(() => result.current.startTimer());
+
+      expect(result.current.error).toBe(
+        'Cannot start a timer that is running.',
+      );
+      expect(result.current.timer).toMatchObject({
+        isActive: true,
+        remainingTime: 540,
+      });
+    });
+
+    it('saves settings over a change made elsewhere', async () => {
+      const { result, repository, timer } = await renderWithTimer();
+      await repository.updateTimer(timer.id, { duration: 900 }, 'duration');
+
+      await act(() => result.current.setPreAlerts([60]));
+
+      expect(result.current.error).toBeNull();
+      expect(await repository.getTimer(timer.id)).toMatchObject({
+        duration: 900,
+        preAlertOffsets: [60],
+        version: 3,
+      });
+    });
+  });
+
+  describe('Pre-alerts', () => {
+    it('raises each pre-alert as the countdown passes it', async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      await repository.createTimer({
+        duration: 600,
+        startTime: clock.now(),
+        isActive: true,
+        remainingTime: 600,
+        isNotificationMode: false,
+        preAlertOffsets: [300, 60],
+      });
+
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timer?.isActive).toBe(true));
+      expect(result.current.preAlert).toBeNull();
+
+      clock.advanceSeconds(300);
+      await waitFor(() => expect(result.current.preAlert).toBe(300));
+
+      clock.advanceSeconds(240);
+      await waitFor(() => expect(result.current.preAlert).toBe(60));
+    });
+  });
+
+  describe('Count up', () => {
+    const renderWithCountUp = async (isActive: boolean) => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      const timer = await repository.createTimer({
+        duration: 3600,
+        startTime: clock.now(),
+        isActive,
+        remainingTime: 3600,
+        isNotificationMode: false,
+        countUpThreshold: 7200,
+        runSegments: isActive
+          ? [{ startedAt: clock.now(), endedAt: null }]
+          : [],
+      });
+      await repository.createEvent({
+        timerId: timer.id,
+        outcome: 'success',
+        timestamp: clock.now() - 7000 * 1000,
+        note: null,
+      });
+
+      const hook = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() =>
+        expect(hook.result.current.lastSuccessAt).toBe(
+          1700000000000 - 7000 * 1000,
+        ),
+      );
+      expect(hook.result.current.countUpAlert).toBe(false);
+      return { ...hook, clock };
+    };
+
+    it('alerts once the time since the last success passes the threshold', async () => {
+      const { result, clock } = await renderWithCountUp(false);
+
+      clock.advanceSeconds(200);
+      await waitFor(() => expect(result.current.countUpAlert).toBe(true), {
+        timeout: 2000,
+      });
+      expect(result.current.timer?.isNotificationMode).toBe(false);
+
+      // Logging a success starts the count again
+      await act(() => result.current.logEvent('success'));
+      expect(result.current.lastSuccessAt).toBe(clock.now());
+      expect(result.current.countUpAlert).toBe(false);
+    });
+
+    it('leaves a running countdown running', async () => {
+      const { result, clock } = await renderWithCountUp(true);
+      await waitFor(() => expect(result.current.timer?.isActive).toBe(true));
+
+      clock.advanceSeconds(200);
+      await waitFor(() => expect(result.current.countUpAlert).toBe(true), {
+        timeout: 2000,
+      });
+
+      expect(result.current.timer?.isActive).toBe(true);
+      expect(result.current.timer?.isNotificationMode).toBe(false);
+      expect(result.current.timer?.remainingTime).toBeGreaterThan(0);
+
+      act(() => result.current.dismissCountUpAlert());
+      expect(result.current.countUpAlert).toBe(false);
+      expect(result.current.timer?.isActive).toBe(true);
+    });
+  });
+
+  describe('Missed alerts', () => {
+    it('records a timer that ran out while the app was closed', async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      const timer = await repository.createTimer({
+        duration: 1800,
+        startTime: clock.now(),
+        isActive: true,
+        remainingTime: 1800,
+        isNotificationMode: false,
+        runSegments: [{ startedAt: clock.now(), endedAt: null }],
+      });
+      clock.advanceSeconds(1800 + 25 * 60);
+
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.missedAlerts).toHaveLength(1));
+
+      expect(result.current.missedAlerts[0]).toMatchObject({
+        timerId: timer.id,
+        expiredAt: 1700001800000,
+        detectedAt: 1700003300000,
+      });
+      await waitFor(() =>
+        expect(result.current.timer?.isNotificationMode).toBe(true),
+      );
+
+      act(() => result.current.dismissMissedAlerts());
+      expect(result.current.missedAlerts).toEqual([]);
+      expect(await repository.getMissedAlerts()).toHaveLength(1);
+    });
+  });
+
+  describe('Named timers', () => {
+    it('runs a named timer alongside the main one with its own alert', async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      await repository.createTimer({
+        duration: 3600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 3600,
+        isNotificationMode: false,
+      });
+
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timers).toHaveLength(1));
+
+      // Timer ids come from the clock, so keep them apart
+      clock.advanceSeconds(1);
+      await act(() => result.current.addTimer('Drink water', 600));
+      const water = result.current.timers.find(
+        (timer) => timer.name === 'Drink water',
+      )!;
+      await act(() =>
+        result.current.runTimerAction(water.id, { type: 'start' }),
+      );
+
+      clock.advanceSeconds(600);
+      await waitFor(() =>
+        expect(
+          result.current.timers.find((timer) => timer.id === water.id),
+        ).toMatchObject({ isActive: false, isNotificationMode: true }),
+      );
+      // The main timer carries on untouched
+      expect(result.current.timer?.isNotificationMode).toBe(false);
+
+      await act(() =>
+        result.current.runTimerAction(water.id, { type: 'dismiss' }),
+      );
+      expect(
+        result.current.timers.find((timer) => timer.id === water.id)
+          ?.isNotificationMode,
+      ).toBe(false);
+    });
+  });
+
+  describe('Live updates', () => {
+    it('takes changes streamed from other devices', async () => {
+      const clock = new FakeClock(1700000000000);
+      const repository = new InMemoryTimerRepository(clock);
+      const timer = await repository.createTimer({
+        duration: 3600,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 3600,
+        isNotificationMode: false,
+      });
+      const unsubscribe = jest.fn();
+      let onChange: Parameters<TimerSubscriber>[0] = () => {};
+      const subscribe: TimerSubscriber = jest.fn((listener) => {
+        onChange = listener;
+        return unsubscribe;
+      });
+
+      const { result, unmount } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider
+            repository={repository}
+            clock={clock}
+            subscribe={subscribe}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timer?.id).toBe(timer.id));
+      expect(subscribe).toHaveBeenCalledWith(expect.any(Function), {
+        childId: undefined,
+        name: 'Potty',
+      });
+
+      // Started elsewhere 10 minutes ago
+      clock.advanceSeconds(600);
+      act(() =>
+        onChange({
+          event: 'start',
+          occurredAt: clock.now() - 600000,
+          timer: {
+            ...timer,
+            isActive: true,
+            startTime: clock.now() - 600000,
+            runSegments: [{ startedAt: clock.now() - 600000, endedAt: null }],
+          },
+        }),
+      );
+
+      expect(result.current.timer).toMatchObject({
+        id: timer.id,
+        isActive: true,
+        remainingTime: 3000,
+      });
+
+      unmount();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+
+  describe('Backups', () => {
+    it('imports a backup and shows what it added', async () => {
+      const clock = new FakeClock(1700000000000);
+      const source = new InMemoryTimerRepository(clock);
+      await source.createChild({
+        name: 'Sam',
+        avatarEmoji: '🦁',
+        defaultInterval: 1800,
+      });
+      const backup = await createBackup(source);
+      const repository = new InMemoryTimerRepository(clock);
+
+      const { result } = renderHook(() => useTimer(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <TimerProvider repository={repository} clock={clock}>
+            {children}
+          </TimerProvider>
+        ),
+      });
+      await waitFor(() => expect(result.current.timer).not.toBeNull());
+
+      let imported: Awaited<ReturnType<typeof result.current.importBackup>>;
+      await act(async () => {
+        imported = await result.current.importBackup(backup);
+      });
+
+      expect(imported!).toMatchObject({
+        result: { imported: { children: 1 } },
+      });
+      expect(result.current.children.map((child) => child.name)).toEqual([
+        'Sam',
+      ]);
+      expect(await result.current.importBackup({ format: 'other' })).toEqual({
+        error: "Invalid backup. Expected format 'potty-timer-backup'.",
+      });
+    });
+  });
+
   describe('Component Integration', () => {
     it('integrates with React Native components', () => {
       const { getByTestId } = render(
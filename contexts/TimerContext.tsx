@@ -3,22 +3,137 @@ import React, {
   useContext,
   useReducer,
   useEffect,
+  useRef,
   ReactNode,
 } from 'react';
-import { database } from '../services/database';
+import { AppState } from 'react-native';
+import {
+  StaleTimerError,
+  TimerRepository,
+  getTimerRepository,
+} from '../services/timerRepository';
+import {
+  BackupDocument,
+  ImportResult,
+  createBackup,
+  restoreBackup,
+  validateBackup,
+} from '../services/backup';
+import { Clock, getClock } from '../services/clock';
+import { restartIfRecurring } from '../services/recurrence';
+import { snoozeTimer as snoozeRepositoryTimer } from '../services/snooze';
+import { crossedPreAlerts } from '../services/preAlerts';
+import { isCountUpOverdue, lastSuccessAt } from '../services/countUp';
+import { DEFAULT_TIMER_NAME, getCurrentTimers } from '../services/namedTimers';
+import { MissedAlert, reconcileMissedAlerts } from '../services/missedAlerts';
+import { TimerStreamEvent } from '../services/timerEvents';
+import {
+  TimerLifecycleAction,
+  canTransition,
+  remainingTimeAt,
+  transition,
+} from '../services/timerMachine';
+import {
+  ScheduleTemplate,
+  intervalAt,
+  isQuietTime,
+} from '../services/schedules';
 
 // Types
 export interface TimerState {
   id: string;
+  // What the timer is for, e.g. "Potty" or "Drink water"; each name's newest
+  // timer runs independently of the others
+  name?: string;
   duration: number;
   startTime: number;
   isActive: boolean;
   remainingTime: number;
   isNotificationMode: boolean;
+  childId?: string | null;
+  // Recurring timers start their next interval when an alert is dismissed,
+  // at most maxRunsPerDay times a day (null for no limit)
+  isRecurring?: boolean;
+  maxRunsPerDay?: number | null;
+  // Seconds before zero at which to give a gentle heads-up, e.g. [300, 60]
+  preAlertOffsets?: number[];
+  // Counting down a snoozed alert rather than a regular interval
+  isSnoozed?: boolean;
+  // Stretches of the current interval the timer has run for
+  runSegments?: RunSegment[];
+  // Seconds since the last success after which to alert (null for never)
+  countUpThreshold?: number | null;
+  // Seconds added to (or, when negative, taken off) the current interval by
+  // `adjust`; the configured duration stays as it is
+  adjustment?: number;
+  // Starts at 1 and goes up with every saved change; the API sends it as the
+  // timer's ETag
+  version?: number;
+}
+
+// One stretch of running between a start or resume and the next stop, in
+// milliseconds; endedAt is null while it is still running
+export interface RunSegment {
+  startedAt: number;
+  endedAt: number | null;
+}
+
+export interface Child {
+  id: string;
+  name: string;
+  avatarEmoji: string;
+  defaultInterval: number;
+}
+
+export type TimerTransitionEvent =
+  | 'create'
+  | 'start'
+  // A paused timer starting again, carrying on with the same interval
+  | 'resume'
+  | 'pause'
+  | 'reset'
+  | 'duration'
+  | 'expire'
+  | 'dismiss'
+  | 'restart'
+  | 'snooze'
+  | 'adjust'
+  | 'update';
+
+// Snapshot of a timer immediately after a lifecycle change
+export interface TimerTransition {
+  id: number;
+  timerId: string;
+  event: TimerTransitionEvent;
+  occurredAt: number;
+  duration: number;
+  startTime: number;
+  isActive: boolean;
+  remainingTime: number;
+  isNotificationMode: boolean;
+}
+
+export type PottyOutcome = 'success' | 'accident' | 'tried-nothing' | 'skipped';
+
+export interface PottyEvent {
+  id: string;
+  timerId: string | null;
+  outcome: PottyOutcome;
+  timestamp: number;
+  note: string | null;
 }
 
 interface TimerContextType {
+  // The main potty timer; the actions below without a timer id act on it
   timer: TimerState | null;
+  // The current timer of every name, the main one included
+  timers: TimerState[];
+  addTimer: (name: string, duration: number) => Promise<void>;
+  removeTimer: (timerId: string) => Promise<void>;
+  runTimerAction: (
+    timerId: string,
+    action: TimerLifecycleAction,
+  ) => Promise<void>;
   loading: boolean;
   error: string | null;
   createTimer: (duration: number) => Promise<void>;
@@ -26,27 +141,116 @@ interface TimerContextType {
   pauseTimer: () => Promise<void>;
   resetTimer: () => Promise<void>;
   updateDuration: (duration: number) => Promise<void>;
+  // Adds seconds to the time left, or takes them off when negative
+  adjustTimer: (seconds: number) => Promise<void>;
   syncTimer: () => Promise<void>;
   setNotificationMode: (isNotificationMode: boolean) => void;
+  snoozeTimer: (minutes: number) => Promise<void>;
+  setRecurrence: (
+    isRecurring: boolean,
+    maxRunsPerDay: number | null,
+  ) => Promise<void>;
+  setPreAlerts: (offsets: number[]) => Promise<void>;
+  // Offset (seconds before zero) of the last pre-alert raised this interval
+  preAlert: number | null;
+  setCountUpThreshold: (seconds: number | null) => Promise<void>;
+  // When the active child (or anyone, for the household timer) last went
+  lastSuccessAt: number | null;
+  // Raised once the time since the last success passes the count-up
+  // threshold. Separate from the countdown, which keeps running.
+  countUpAlert: boolean;
+  dismissCountUpAlert: () => void;
+  // Alerts that went off while the app was not running, found at startup
+  missedAlerts: MissedAlert[];
+  dismissMissedAlerts: () => void;
+  logEvent: (outcome: PottyOutcome, note?: string) => Promise<void>;
+  children: Child[];
+  activeChildId: string | null;
+  selectChild: (childId: string | null) => Promise<void>;
+  exportBackup: () => Promise<BackupDocument>;
+  // Adds what a backup holds that this device does not have yet, or gives
+  // the first problem found with the document
+  importBackup: (
+    document: unknown,
+  ) => Promise<{ result: ImportResult } | { error: string }>;
+  // The active schedule template and the interval it sets right now
+  schedule: ScheduleTemplate | null;
+  scheduledInterval: number | null;
 }
 
 // Actions
 type TimerAction =
   | { type: 'SET_TIMER'; payload: TimerState }
+  | { type: 'SET_TIMERS'; payload: TimerState[] }
+  | { type: 'UPDATE_TIMER'; payload: TimerState }
+  | { type: 'REMOVE_TIMER'; payload: string }
   | { type: 'UPDATE_REMAINING_TIME'; payload: number }
   | { type: 'SET_NOTIFICATION_MODE'; payload: boolean }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'CLEAR_TIMER' };
+  | { type: 'CLEAR_TIMER' }
+  | { type: 'SET_CHILDREN'; payload: Child[] }
+  | { type: 'SET_ACTIVE_CHILD'; payload: string | null }
+  | { type: 'SET_SCHEDULE'; payload: ScheduleTemplate | null }
+  | { type: 'SET_PRE_ALERT'; payload: number | null }
+  | { type: 'SET_LAST_SUCCESS'; payload: number | null }
+  | { type: 'SET_COUNT_UP_ALERT'; payload: boolean }
+  | { type: 'SET_MISSED_ALERTS'; payload: MissedAlert[] };
+
+interface TimerReducerState {
+  timer: TimerState | null;
+  timers: TimerState[];
+  loading: boolean;
+  error: string | null;
+  children: Child[];
+  activeChildId: string | null;
+  schedule: ScheduleTemplate | null;
+  preAlert: number | null;
+  lastSuccessAt: number | null;
+  countUpAlert: boolean;
+  missedAlerts: MissedAlert[];
+}
+
+// Puts a timer into the collection in place of the one with the same id, or
+// the same name, since each name has one current timer
+const upsertTimer = (timers: TimerState[], timer: TimerState): TimerState[] => {
+  const name = timer.name ?? DEFAULT_TIMER_NAME;
+  const index = timers.findIndex(
+    (other) =>
+      other.id === timer.id || (other.name ?? DEFAULT_TIMER_NAME) === name,
+  );
+  return index === -1
+    ? [...timers, timer]
+    : timers.map((other, i) => (i === index ? timer : other));
+};
 
 // Reducer
 const timerReducer = (
-  state: { timer: TimerState | null; loading: boolean; error: string | null },
+  state: TimerReducerState,
   action: TimerAction,
-) => {
+): TimerReducerState => {
   switch (action.type) {
     case 'SET_TIMER':
-      return { ...state, timer: action.payload, error: null };
+      return {
+        ...state,
+        timer: action.payload,
+        timers: upsertTimer(state.timers, action.payload),
+        error: null,
+      };
+    case 'SET_TIMERS':
+      return { ...state, timers: action.payload };
+    case 'UPDATE_TIMER':
+      return {
+        ...state,
+        timer:
+          state.timer?.id === action.payload.id ? action.payload : state.timer,
+        timers: upsertTimer(state.timers, action.payload),
+      };
+    case 'REMOVE_TIMER':
+      return {
+        ...state,
+        timers: state.timers.filter((timer) => timer.id !== action.payload),
+      };
     case 'UPDATE_REMAINING_TIME':
       return state.timer
         ? { ...state, timer: { ...state.timer, remainingTime: action.payload } }
@@ -64,28 +268,105 @@ const timerReducer = (
       return { ...state, error: action.payload };
     case 'CLEAR_TIMER':
       return { ...state, timer: null };
+    case 'SET_CHILDREN':
+      return { ...state, children: action.payload };
+    case 'SET_ACTIVE_CHILD':
+      return { ...state, activeChildId: action.payload };
+    case 'SET_SCHEDULE':
+      return { ...state, schedule: action.payload };
+    case 'SET_PRE_ALERT':
+      return { ...state, preAlert: action.payload };
+    case 'SET_LAST_SUCCESS':
+      // A new success starts the count again
+      return { ...state, lastSuccessAt: action.payload, countUpAlert: false };
+    case 'SET_COUNT_UP_ALERT':
+      return { ...state, countUpAlert: action.payload };
+    case 'SET_MISSED_ALERTS':
+      return { ...state, missedAlerts: action.payload };
     default:
       return state;
   }
 };
 
+// Opens a live feed of a child's current timer of a name and returns a
+// function closing it, e.g. useTimerAPI's subscribeToCurrentTimer
+export type TimerSubscriber = (
+  onChange: (change: TimerStreamEvent) => void,
+  options: { childId?: string; name?: string },
+) => () => void;
+
 // Context
 const TimerContext = createContext<TimerContextType | undefined>(undefined);
 
 // Provider
-export function TimerProvider({ children }: { children: ReactNode }) {
+// Storage and time default to the app-wide repository and clock; pass them
+// to swap either, e.g. an InMemoryTimerRepository and FakeClock in tests.
+// With `subscribe`, changes made on other devices arrive as they happen.
+export function TimerProvider({
+  children,
+  repository = getTimerRepository(),
+  clock = getClock(),
+  subscribe,
+}: {
+  children: ReactNode;
+  repository?: TimerRepository;
+  clock?: Clock;
+  subscribe?: TimerSubscriber;
+}) {
   const [state, dispatch] = useReducer(timerReducer, {
     timer: null,
+    timers: [],
     loading: false,
     error: null,
+    children: [],
+    activeChildId: null,
+    schedule: null,
+    preAlert: null,
+    lastSuccessAt: null,
+    countUpAlert: false,
+    missedAlerts: [],
   });
+  // The success whose count up has already raised the alert
+  const countUpAlertedFor = useRef<number | null>(null);
+
+  // Loads the active schedule. It is read again for each new interval, as
+  // it may have been changed through the API or on another device.
+  const loadSchedule = async (): Promise<ScheduleTemplate | null> => {
+    const schedule = await repository.getActiveSchedule();
+    dispatch({ type: 'SET_SCHEDULE', payload: schedule });
+    return schedule;
+  };
+
+  // Coming back to the app picks up schedule changes made meanwhile
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'active') loadSchedule().catch(console.error);
+    });
+    return () => subscription.remove();
+  }, []);
 
   // Initialize database and sync timer on startup
   useEffect(() => {
     const initializeAndSync = async () => {
       try {
-        await database.initialize();
-        await syncTimer();
+        await repository.initialize();
+        const children = await repository.getChildren();
+        dispatch({ type: 'SET_CHILDREN', payload: children });
+        const schedule = await loadSchedule();
+        // Timers that ran out while the app was closed expire before the
+        // sync, so their alerts are recorded as missed
+        const missedAlerts = await reconcileMissedAlerts(
+          repository,
+          clock.now(),
+          isQuietTime(schedule, clock.now()),
+        ).catch((error) => {
+          console.error('Failed to reconcile missed alerts:', error);
+          return [];
+        });
+        dispatch({ type: 'SET_MISSED_ALERTS', payload: missedAlerts });
+        // This render's state is still empty, so the loaded children and
+        // schedule are passed in
+        await syncTimer(state.activeChildId, schedule, children);
       } catch (error) {
         console.error('Failed to initialize database:', error);
       }
@@ -95,55 +376,192 @@ export function TimerProvider({ children }: { children: ReactNode }) {
   }, []);
 
   // Calculate remaining time based on current time and start time
-  const calculateRemainingTime = (timer: TimerState): number => {
-    if (!timer.isActive) return timer.remainingTime;
+  const calculateRemainingTime = (timer: TimerState): number =>
+    remainingTimeAt(timer, clock.now());
 
-    const now = Date.now();
-    const elapsed = Math.floor((now - timer.startTime) / 1000);
-    const remaining = Math.max(0, timer.duration - elapsed);
+  // Shows a timer fetched again after another device changed it
+  const showLatestTimer = (timer: TimerState) =>
+    dispatch({
+      type: timer.id === state.timer?.id ? 'SET_TIMER' : 'UPDATE_TIMER',
+      payload: { ...timer, remainingTime: calculateRemainingTime(timer) },
+    });
 
-    return remaining;
+  // Saves a lifecycle change worked out by the timer state machine. Returns
+  // null, with the error set, when the timer's state does not allow it.
+  // The save only lands on the version shown; when another device changed
+  // the timer first, the action is worked out again from its latest state.
+  const applyAction = async (
+    timer: TimerState,
+    action: TimerLifecycleAction,
+    retryIfStale = true,
+  ): Promise<TimerState | null> => {
+    const result = transition(timer, action, clock.now());
+    if ('error' in result) {
+      dispatch({ type: 'SET_ERROR', payload: result.error });
+      return null;
+    }
+    try {
+      return await repository.updateTimer(
+        timer.id,
+        result.updates,
+        result.event,
+        timer.version,
+      );
+    } catch (error) {
+      if (!retryIfStale || !(error instanceof StaleTimerError)) throw error;
+      const latest = await repository.getTimer(timer.id);
+      if (!latest) throw error;
+      showLatestTimer(latest);
+      return applyAction(latest, action, false);
+    }
   };
 
+  // Live updates: take each change to the current timer as it is streamed
+  useEffect(() => {
+    if (!subscribe) return;
+    return subscribe(
+      ({ timer }) => {
+        dispatch({
+          type: 'SET_TIMER',
+          payload: { ...timer, remainingTime: calculateRemainingTime(timer) },
+        });
+      },
+      {
+        childId: state.activeChildId ?? undefined,
+        // Only the Potty timer, so named timers never take its place
+        name: DEFAULT_TIMER_NAME,
+      },
+    );
+  }, [subscribe, state.activeChildId]);
+
   // Timer tick effect
   useEffect(() => {
+    // A new interval, or none running, starts without a pre-alert showing
+    dispatch({ type: 'SET_PRE_ALERT', payload: null });
     if (!state.timer?.isActive) return;
 
+    let previous = calculateRemainingTime(state.timer);
     const interval = setInterval(() => {
       const remaining = calculateRemainingTime(state.timer!);
       dispatch({ type: 'UPDATE_REMAINING_TIME', payload: remaining });
 
-      // Trigger notification mode when timer reaches 0
-      if (remaining <= 0 && !state.timer!.isNotificationMode) {
-        dispatch({ type: 'SET_NOTIFICATION_MODE', payload: true });
-        // Update database
-        database
-          .updateTimer(state.timer!.id, {
-            isActive: false,
-            remainingTime: 0,
-            isNotificationMode: true,
+      // Raise the pre-alerts passed since the last tick, quietly skipping
+      // them during quiet hours
+      const crossed = crossedPreAlerts(
+        state.timer!.preAlertOffsets ?? [],
+        previous,
+        remaining,
+      );
+      previous = remaining;
+      if (crossed.length > 0 && !isQuietTime(state.schedule, clock.now())) {
+        dispatch({
+          type: 'SET_PRE_ALERT',
+          payload: crossed[crossed.length - 1],
+        });
+      }
+
+      // Trigger notification mode when timer reaches 0. During quiet hours
+      // the timer just stops at 0 without alerting.
+      if (remaining <= 0) {
+        clearInterval(interval);
+        const silent = isQuietTime(state.schedule, clock.now());
+        if (!silent) dispatch({ type: 'SET_NOTIFICATION_MODE', payload: true });
+        applyAction(state.timer!, { type: 'expire', silent })
+          .then((timer) => {
+            if (timer) dispatch({ type: 'SET_TIMER', payload: timer });
           })
           .catch(console.error);
       }
     }, 100);
 
     return () => clearInterval(interval);
-  }, [state.timer?.isActive, state.timer?.startTime, state.timer?.duration]);
+  }, [
+    state.timer?.isActive,
+    state.timer?.startTime,
+    state.timer?.duration,
+    state.timer?.preAlertOffsets,
+    state.schedule,
+  ]);
 
-  // Sync timer from database on mount
+  // Named timers besides the main one tick on their own, each raising its
+  // own alert when it runs out
+  const otherActiveTimers = state.timers.filter(
+    (timer) => timer.isActive && timer.id !== state.timer?.id,
+  );
   useEffect(() => {
-    syncTimer();
-  }, []);
+    if (otherActiveTimers.length === 0) return;
+
+    const expiring = new Set<string>();
+    const interval = setInterval(() => {
+      for (const timer of otherActiveTimers) {
+        if (expiring.has(timer.id)) continue;
+        const remaining = calculateRemainingTime(timer);
+        dispatch({
+          type: 'UPDATE_TIMER',
+          payload: { ...timer, remainingTime: remaining },
+        });
+        if (remaining > 0) continue;
+
+        expiring.add(timer.id);
+        const silent = isQuietTime(state.schedule, clock.now());
+        applyAction(timer, { type: 'expire', silent })
+          .then((expired) => {
+            if (expired) dispatch({ type: 'UPDATE_TIMER', payload: expired });
+          })
+          .catch(console.error);
+      }
+    }, 100);
 
-  const createTimer = async (duration: number) => {
+    return () => clearInterval(interval);
+  }, [
+    otherActiveTimers
+      .map((timer) => `${timer.id}:${timer.startTime}:${timer.duration}`)
+      .join(','),
+    state.schedule,
+  ]);
+
+  // Count-up effect: raise the count-up alert once the time since the last
+  // success passes the timer's threshold. Only once per success, so
+  // dismissing it without logging another does not alert again. The
+  // countdown is left alone.
+  useEffect(() => {
+    if (state.lastSuccessAt === null || state.timer?.countUpThreshold == null)
+      return;
+
+    const check = () => {
+      const now = clock.now();
+      if (
+        countUpAlertedFor.current === state.lastSuccessAt ||
+        !isCountUpOverdue(
+          state.lastSuccessAt,
+          state.timer?.countUpThreshold,
+          now,
+        ) ||
+        isQuietTime(state.schedule, now)
+      )
+        return;
+      countUpAlertedFor.current = state.lastSuccessAt;
+      dispatch({ type: 'SET_COUNT_UP_ALERT', payload: true });
+    };
+
+    check();
+    const interval = setInterval(check, 1000);
+    return () => clearInterval(interval);
+  }, [state.lastSuccessAt, state.timer?.countUpThreshold, state.schedule]);
+
+  const createTimer = async (
+    duration: number,
+    childId: string | null = state.activeChildId,
+  ) => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const timer = await database.createTimer({
+      const timer = await repository.createTimer({
         duration,
-        startTime: Date.now(),
+        startTime: clock.now(),
         isActive: false,
         remainingTime: duration,
         isNotificationMode: false,
+        childId,
       });
       dispatch({ type: 'SET_TIMER', payload: timer });
     } catch (error) {
@@ -162,12 +580,14 @@ export function TimerProvider({ children }: { children: ReactNode }) {
 
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const updatedTimer = await database.updateTimer(state.timer.id, {
-        isActive: true,
-        startTime: Date.now(),
-        isNotificationMode: false,
+      // A new interval lasts as long as the schedule sets for the time of
+      // day; resuming carries on the paused one
+      const duration = intervalAt(await loadSchedule(), clock.now());
+      const updatedTimer = await applyAction(state.timer, {
+        type: 'start',
+        duration: duration ?? undefined,
       });
-      dispatch({ type: 'SET_TIMER', payload: updatedTimer });
+      if (updatedTimer) dispatch({ type: 'SET_TIMER', payload: updatedTimer });
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -184,12 +604,8 @@ export function TimerProvider({ children }: { children: ReactNode }) {
 
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const remaining = calculateRemainingTime(state.timer);
-      const updatedTimer = await database.updateTimer(state.timer.id, {
-        isActive: false,
-        remainingTime: remaining,
-      });
-      dispatch({ type: 'SET_TIMER', payload: updatedTimer });
+      const updatedTimer = await applyAction(state.timer, { type: 'pause' });
+      if (updatedTimer) dispatch({ type: 'SET_TIMER', payload: updatedTimer });
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -206,14 +622,12 @@ export function TimerProvider({ children }: { children: ReactNode }) {
 
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const updatedTimer = await database.updateTimer(state.timer.id, {
-        isActive: false,
-        startTime: Date.now(),
-        remainingTime: state.timer.duration,
-        isNotificationMode: false,
+      const duration = intervalAt(await loadSchedule(), clock.now());
+      const updatedTimer = await applyAction(state.timer, {
+        type: 'reset',
+        duration: duration ?? undefined,
       });
-      dispatch({ type: 'SET_TIMER', payload: updatedTimer });
-      dispatch({ type: 'SET_NOTIFICATION_MODE', payload: false });
+      if (updatedTimer) dispatch({ type: 'SET_TIMER', payload: updatedTimer });
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -230,12 +644,11 @@ export function TimerProvider({ children }: { children: ReactNode }) {
 
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const updatedTimer = await database.updateTimer(state.timer.id, {
+      const updatedTimer = await applyAction(state.timer, {
+        type: 'duration',
         duration,
-        remainingTime: state.timer.isActive ? duration : duration,
-        startTime: state.timer.isActive ? Date.now() : state.timer.startTime,
       });
-      dispatch({ type: 'SET_TIMER', payload: updatedTimer });
+      if (updatedTimer) dispatch({ type: 'SET_TIMER', payload: updatedTimer });
     } catch (error) {
       dispatch({
         type: 'SET_ERROR',
@@ -247,10 +660,44 @@ export function TimerProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const syncTimer = async () => {
+  // Shifts the end of the current interval without losing the time run
+  const adjustTimer = async (seconds: number) => {
+    if (!state.timer) return;
+
+    try {
+      const updatedTimer = await applyAction(state.timer, {
+        type: 'adjust',
+        seconds,
+      });
+      if (updatedTimer) dispatch({ type: 'SET_TIMER', payload: updatedTimer });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload:
+          error instanceof Error ? error.message : 'Failed to adjust timer',
+      });
+    }
+  };
+
+  const syncTimer = async (
+    childId: string | null = state.activeChildId,
+    schedule: ScheduleTemplate | null = state.schedule,
+    children: Child[] = state.children,
+  ) => {
+    // New timers follow the schedule, then the child's interval, then 1 hour
+    const defaultDuration =
+      intervalAt(schedule, clock.now()) ??
+      children.find((child) => child.id === childId)?.defaultInterval ??
+      3600;
+
+    refreshLastSuccess(childId);
+
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const timer = await database.getCurrentTimer();
+      const timer = await repository.getCurrentTimer(
+        childId ?? undefined,
+        DEFAULT_TIMER_NAME,
+      );
       if (timer) {
         // Update remaining time based on current time
         const remaining = calculateRemainingTime(timer);
@@ -258,14 +705,14 @@ export function TimerProvider({ children }: { children: ReactNode }) {
         dispatch({ type: 'SET_TIMER', payload: updatedTimer });
       } else {
         // No existing timer found, create a default one
-        console.log('No existing timer found, creating default 1-hour timer');
-        await createTimer(3600); // Create a 1-hour timer by default
+        console.log('No existing timer found, creating default timer');
+        await createTimer(defaultDuration, childId);
       }
     } catch (error) {
       console.error('Failed to sync timer, creating default:', error);
       // If sync fails, create a default timer to ensure the app is usable
       try {
-        await createTimer(3600);
+        await createTimer(defaultDuration, childId);
       } catch (createError) {
         dispatch({
           type: 'SET_ERROR',
@@ -278,20 +725,270 @@ export function TimerProvider({ children }: { children: ReactNode }) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
+
+    loadTimers(childId);
+  };
+
+  // Loads the current timer of every name for the child
+  const loadTimers = (childId: string | null) => {
+    getCurrentTimers(repository, childId ?? undefined)
+      .then((timers) =>
+        dispatch({
+          type: 'SET_TIMERS',
+          payload: timers.map((timer) => ({
+            ...timer,
+            remainingTime: calculateRemainingTime(timer),
+          })),
+        }),
+      )
+      .catch(console.error);
+  };
+
+  const refreshLastSuccess = (childId: string | null) => {
+    lastSuccessAt(repository, childId)
+      .then((timestamp) =>
+        dispatch({ type: 'SET_LAST_SUCCESS', payload: timestamp }),
+      )
+      .catch(console.error);
+  };
+
+  const dismissCountUpAlert = () => {
+    dispatch({ type: 'SET_COUNT_UP_ALERT', payload: false });
+  };
+
+  // Clears the startup summary; the alerts stay on record
+  const dismissMissedAlerts = () => {
+    dispatch({ type: 'SET_MISSED_ALERTS', payload: [] });
   };
 
   const setNotificationMode = (isNotificationMode: boolean) => {
+    if (isNotificationMode && isQuietTime(state.schedule, clock.now())) return;
+
+    // Alerting an alerting timer, or dismissing one that is not, does nothing
+    const type = isNotificationMode ? 'expire' : 'dismiss';
+    if (!state.timer || !canTransition(state.timer, type)) return;
+
     dispatch({ type: 'SET_NOTIFICATION_MODE', payload: isNotificationMode });
     // Update database
-    if (state.timer) {
-      database
-        .updateTimer(state.timer.id, { isNotificationMode })
-        .catch(console.error);
+    applyAction(state.timer, { type })
+      .then(async (timer) => {
+        if (!timer) return;
+        dispatch({ type: 'SET_TIMER', payload: timer });
+        // Dismissing an alert starts a recurring timer's next interval,
+        // as long as the schedule sets for the time of day
+        if (isNotificationMode) return;
+        const now = clock.now();
+        const restarted = await restartIfRecurring(
+          repository,
+          timer,
+          now,
+          intervalAt(await loadSchedule(), now) ?? timer.duration,
+        );
+        if (restarted) dispatch({ type: 'SET_TIMER', payload: restarted });
+      })
+      .catch(console.error);
+  };
+
+  // Silences the alert and counts down a few more minutes
+  const snoozeTimer = async (minutes: number) => {
+    if (!state.timer) return;
+
+    try {
+      const result = await snoozeRepositoryTimer(
+        repository,
+        state.timer,
+        minutes,
+        clock.now(),
+      );
+      if ('error' in result) {
+        dispatch({ type: 'SET_ERROR', payload: result.error });
+        return;
+      }
+      dispatch({ type: 'SET_TIMER', payload: result.timer });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload:
+          error instanceof Error ? error.message : 'Failed to snooze timer',
+      });
     }
   };
 
+  // Saves settings that leave the countdown alone, so the timer keeps its
+  // live remaining time rather than the stored one
+  const updateTimerSettings = async (
+    updates: Partial<TimerState>,
+    failureMessage: string,
+  ) => {
+    if (!state.timer) return;
+
+    const save = (timer: TimerState) =>
+      repository.updateTimer(timer.id, updates, 'update', timer.version);
+
+    try {
+      let updatedTimer: TimerState;
+      try {
+        updatedTimer = await save(state.timer);
+      } catch (error) {
+        // Another device changed the timer first: the settings still apply
+        // to its latest version
+        if (!(error instanceof StaleTimerError)) throw error;
+        const latest = await repository.getTimer(state.timer.id);
+        if (!latest) throw error;
+        updatedTimer = await save(latest);
+      }
+      dispatch({
+        type: 'SET_TIMER',
+        payload: {
+          ...updatedTimer,
+          remainingTime: calculateRemainingTime(updatedTimer),
+        },
+      });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : failureMessage,
+      });
+    }
+  };
+
+  const setRecurrence = (isRecurring: boolean, maxRunsPerDay: number | null) =>
+    updateTimerSettings(
+      { isRecurring, maxRunsPerDay },
+      'Failed to update recurrence',
+    );
+
+  const setPreAlerts = (offsets: number[]) =>
+    updateTimerSettings(
+      { preAlertOffsets: offsets },
+      'Failed to update pre-alerts',
+    );
+
+  const setCountUpThreshold = (seconds: number | null) =>
+    updateTimerSettings(
+      { countUpThreshold: seconds },
+      'Failed to update count-up threshold',
+    );
+
+  // Starts tracking another named timer, e.g. "Drink water", next to the
+  // main one; a new timer replaces the current one of the same name
+  const addTimer = async (name: string, duration: number) => {
+    if (name === DEFAULT_TIMER_NAME) return createTimer(duration);
+
+    try {
+      const timer = await repository.createTimer({
+        name,
+        duration,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: duration,
+        isNotificationMode: false,
+        childId: state.activeChildId,
+      });
+      dispatch({ type: 'UPDATE_TIMER', payload: timer });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload:
+          error instanceof Error ? error.message : 'Failed to create timer',
+      });
+    }
+  };
+
+  const removeTimer = async (timerId: string) => {
+    if (timerId === state.timer?.id) return;
+
+    try {
+      await repository.deleteTimer(timerId);
+      dispatch({ type: 'REMOVE_TIMER', payload: timerId });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload:
+          error instanceof Error ? error.message : 'Failed to delete timer',
+      });
+    }
+  };
+
+  // Applies a lifecycle action to any named timer, e.g. starting "Medicine"
+  // or dismissing its alert
+  const runTimerAction = async (
+    timerId: string,
+    action: TimerLifecycleAction,
+  ) => {
+    const timer = state.timers.find((timer) => timer.id === timerId);
+    if (!timer) return;
+
+    try {
+      const updatedTimer = await applyAction(timer, action);
+      if (!updatedTimer) return;
+      dispatch({ type: 'UPDATE_TIMER', payload: updatedTimer });
+
+      // Dismissing an alert starts a recurring timer's next interval
+      if (action.type !== 'dismiss') return;
+      const restarted = await restartIfRecurring(
+        repository,
+        updatedTimer,
+        clock.now(),
+        updatedTimer.duration,
+      );
+      if (restarted) dispatch({ type: 'UPDATE_TIMER', payload: restarted });
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload:
+          error instanceof Error ? error.message : 'Failed to update timer',
+      });
+    }
+  };
+
+  // Switches the app to another child's timer (null for the household timer)
+  const selectChild = async (childId: string | null) => {
+    dispatch({ type: 'SET_ACTIVE_CHILD', payload: childId });
+    await syncTimer(childId);
+  };
+
+  const logEvent = async (outcome: PottyOutcome, note?: string) => {
+    try {
+      const event = await repository.createEvent({
+        timerId: state.timer?.id ?? null,
+        outcome,
+        timestamp: clock.now(),
+        note: note ?? null,
+      });
+      // A success starts the count up again
+      if (outcome === 'success') {
+        dispatch({ type: 'SET_LAST_SUCCESS', payload: event.timestamp });
+      }
+    } catch (error) {
+      dispatch({
+        type: 'SET_ERROR',
+        payload: error instanceof Error ? error.message : 'Failed to log event',
+      });
+    }
+  };
+
+  // Snapshot of everything stored, in the format POST /api/backup accepts
+  const exportBackup = () => createBackup(repository);
+
+  const importBackup = async (document: unknown) => {
+    const validation = validateBackup(document);
+    if ('error' in validation) return validation;
+
+    const result = await restoreBackup(repository, validation.backup);
+    // Show the imported children, schedule and timers straight away
+    const children = await repository.getChildren();
+    dispatch({ type: 'SET_CHILDREN', payload: children });
+    await syncTimer(state.activeChildId, await loadSchedule(), children);
+    return { result };
+  };
+
   const value: TimerContextType = {
     timer: state.timer,
+    timers: state.timers,
+    addTimer,
+    removeTimer,
+    runTimerAction,
     loading: state.loading,
     error: state.error,
     createTimer,
@@ -299,8 +996,27 @@ export function TimerProvider({ children }: { children: ReactNode }) {
     pauseTimer,
     resetTimer,
     updateDuration,
+    adjustTimer,
     syncTimer,
     setNotificationMode,
+    snoozeTimer,
+    setRecurrence,
+    setPreAlerts,
+    preAlert: state.preAlert,
+    setCountUpThreshold,
+    lastSuccessAt: state.lastSuccessAt,
+    countUpAlert: state.countUpAlert,
+    dismissCountUpAlert,
+    missedAlerts: state.missedAlerts,
+    dismissMissedAlerts,
+    logEvent,
+    children: state.children,
+    activeChildId: state.activeChildId,
+    selectChild,
+    exportBackup,
+    importBackup,
+    schedule: state.schedule,
+    scheduledInterval: intervalAt(state.schedule, clock.now()),
   };
 
   return (
@@ -1,5 +1,19 @@
-import { TimerState } from '../contexts/TimerContext';
+import {
+  TimerState,
+  Child,
+  TimerTransition,
+  PottyEvent,
+  PottyOutcome,
+  RunSegment,
+} from '../contexts/TimerContext';
 import { Platform } from 'react-native';
+import { BackupDocument, ImportResult } from '../services/backup';
+import { MissedAlert } from '../services/missedAlerts';
+import { ApiToken, TokenRole } from '../services/apiTokens';
+import { TimerSettings } from '../services/timerSettings';
+import { parseEventStream, TimerStreamEvent } from '../services/timerEvents';
+import { getApiToken } from '../services/secureSettings';
+import { StaleTimerError } from '../services/timerRepository';
 
 // Get the correct API base URL for the current environment
 const getAPIBaseURL = () => {
@@ -20,35 +34,82 @@ const getAPIBaseURL = () => {
 
 const API_BASE_URL = getAPIBaseURL();
 
+const apiURL = (endpoint: string) =>
+  Platform.OS === 'web'
+    ? `/api/${endpoint}`
+    : `${API_BASE_URL}/api/${endpoint}`;
+
+// The Authorization header for the API token saved on this device, if any
+const authorizationHeader = async (): Promise<Record<string, string>> => {
+  const token = await getApiToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// The version of each timer this app last saw, sent back as If-Match
+const timerVersions = new Map<string, number>();
+
+const rememberVersions = (timers: (TimerState | undefined)[]) => {
+  for (const timer of timers) {
+    if (timer?.version !== undefined) {
+      timerVersions.set(timer.id, timer.version);
+    }
+  }
+};
+
+// Thrown for any response that is not 2xx, with its status code
+export class APIError extends Error {
+  constructor(
+    readonly status: number,
+    statusText: string,
+  ) {
+    super(`API Error: ${status} ${statusText}`);
+    this.name = 'APIError';
+  }
+}
+
+// Wait before reopening a timer event stream that closed, doubled after
+// each attempt that gets no events, up to the cap
+const RECONNECT_DELAY_MS = 3000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+// Query parameters of GET /api/timers; timestamps are in milliseconds
+export interface TimerQuery {
+  limit?: number;
+  cursor?: string;
+  isActive?: boolean;
+  createdAfter?: number;
+  createdBefore?: number;
+  sort?: 'asc' | 'desc';
+}
+
 export function useTimerAPI() {
   const makeRequest = async (
     endpoint: string,
     options: RequestInit = {},
   ): Promise<any> => {
     try {
-      const url =
-        Platform.OS === 'web'
-          ? `/api/${endpoint}`
-          : `${API_BASE_URL}/api/${endpoint}`;
+      const url = apiURL(endpoint);
 
       console.log(`🌐 Making API request to: ${url}`);
 
       const response = await fetch(url, {
+        ...options,
         headers: {
           'Content-Type': 'application/json',
+          ...(await authorizationHeader()),
           ...options.headers,
         },
-        ...options,
       });
 
       if (!response.ok) {
         const errorText = await response.text();
         console.error(`❌ API Error ${response.status}:`, errorText);
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+        throw new APIError(response.status, response.statusText);
       }
 
       const data = await response.json();
       console.log(`✅ API Response:`, data);
+      rememberVersions(data.timers ?? [data.timer]);
       return data;
     } catch (error) {
       console.error(`❌ API Request failed for ${endpoint}:`, error);
@@ -56,17 +117,58 @@ export function useTimerAPI() {
     }
   };
 
-  const createTimer = async (duration: number): Promise<TimerState> => {
+  // Sends a change to a timer with If-Match set to the version last seen, so
+  // a change made meanwhile on another phone is not overwritten. That case
+  // throws StaleTimerError; fetch the timer again with getTimer and retry.
+  const changeTimer = async (
+    id: string,
+    endpoint: string,
+    options: RequestInit,
+  ): Promise<any> => {
+    const version = timerVersions.get(id);
+    try {
+      return await makeRequest(endpoint, {
+        ...options,
+        ...(version !== undefined
+          ? { headers: { 'If-Match': `"${version}"` } }
+          : {}),
+      });
+    } catch (error) {
+      if (error instanceof APIError && error.status === 412) {
+        timerVersions.delete(id);
+        throw new StaleTimerError(id);
+      }
+      throw error;
+    }
+  };
+
+  const getTimer = async (id: string): Promise<TimerState> => {
+    const response = await makeRequest(`timers/${id}`);
+    return response.timer;
+  };
+
+  const createTimer = async (
+    duration: number,
+    name?: string,
+  ): Promise<TimerState> => {
     const response = await makeRequest('timers', {
       method: 'POST',
-      body: JSON.stringify({ duration }),
+      body: JSON.stringify({ duration, ...(name ? { name } : {}) }),
     });
     return response.timer;
   };
 
-  const getCurrentTimer = async (): Promise<TimerState | null> => {
+  const getCurrentTimer = async (
+    childId?: string,
+    name?: string,
+  ): Promise<TimerState | null> => {
+    const path = childId
+      ? `children/${childId}/timers/current`
+      : 'timers/current';
     try {
-      const response = await makeRequest('timers/current');
+      const response = await makeRequest(
+        name ? `${path}?name=${encodeURIComponent(name)}` : path,
+      );
       return response.timer || null;
     } catch (error) {
       // If no timer exists, return null instead of throwing
@@ -77,23 +179,39 @@ export function useTimerAPI() {
     }
   };
 
-  const startTimer = async (id: string): Promise<TimerState> => {
-    const response = await makeRequest(`timers/${id}/start`, {
+  // Recurrence settings, when given, are saved as part of the start
+  const startTimer = async (
+    id: string,
+    recurrence?: Pick<TimerState, 'isRecurring' | 'maxRunsPerDay'>,
+  ): Promise<TimerState> => {
+    const response = await changeTimer(id, `timers/${id}/start`, {
       method: 'PUT',
+      ...(recurrence ? { body: JSON.stringify(recurrence) } : {}),
     });
     return response.timer;
   };
 
   const pauseTimer = async (id: string): Promise<TimerState> => {
-    const response = await makeRequest(`timers/${id}/pause`, {
+    const response = await changeTimer(id, `timers/${id}/pause`, {
       method: 'PUT',
     });
     return response.timer;
   };
 
   const resetTimer = async (id: string): Promise<TimerState> => {
-    const response = await makeRequest(`timers/${id}/reset`, {
+    const response = await changeTimer(id, `timers/${id}/reset`, {
+      method: 'PUT',
+    });
+    return response.timer;
+  };
+
+  const snoozeTimer = async (
+    id: string,
+    minutes?: number,
+  ): Promise<TimerState> => {
+    const response = await changeTimer(id, `timers/${id}/snooze`, {
       method: 'PUT',
+      ...(minutes !== undefined ? { body: JSON.stringify({ minutes }) } : {}),
     });
     return response.timer;
   };
@@ -102,32 +220,314 @@ export function useTimerAPI() {
     id: string,
     duration: number,
   ): Promise<TimerState> => {
-    const response = await makeRequest(`timers/${id}/duration`, {
+    const response = await changeTimer(id, `timers/${id}/duration`, {
       method: 'PUT',
       body: JSON.stringify({ duration }),
     });
     return response.timer;
   };
 
+  // Adds seconds to the time left, or takes them off when negative
+  const adjustTimer = async (
+    id: string,
+    seconds: number,
+  ): Promise<TimerState> => {
+    const response = await changeTimer(id, `timers/${id}/adjust`, {
+      method: 'PUT',
+      body: JSON.stringify({ seconds }),
+    });
+    return response.timer;
+  };
+
+  // Changes settings only; run state goes through the actions above
+  const updateTimer = async (
+    id: string,
+    settings: TimerSettings,
+  ): Promise<TimerState> => {
+    const response = await changeTimer(id, `timers/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    });
+    return response.timer;
+  };
+
   const deleteTimer = async (id: string): Promise<void> => {
-    await makeRequest(`timers/${id}`, {
+    await changeTimer(id, `timers/${id}`, {
       method: 'DELETE',
     });
   };
 
-  const getAllTimers = async (): Promise<TimerState[]> => {
-    const response = await makeRequest('timers');
-    return response.timers;
+  const getTimers = async (
+    query: TimerQuery = {},
+  ): Promise<{ timers: TimerState[]; nextCursor: string | null }> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.append(key, String(value));
+    }
+    const queryString = params.toString();
+
+    const response = await makeRequest(
+      queryString ? `timers?${queryString}` : 'timers',
+    );
+    return { timers: response.timers, nextCursor: response.nextCursor };
+  };
+
+  // Follows nextCursor until every matching timer has been fetched
+  const getAllTimers = async (
+    query: Omit<TimerQuery, 'cursor'> = {},
+  ): Promise<TimerState[]> => {
+    const timers: TimerState[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getTimers({ ...query, cursor });
+      timers.push(...page.timers);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return timers;
+  };
+
+  const getChildren = async (): Promise<Child[]> => {
+    const response = await makeRequest('children');
+    return response.children;
+  };
+
+  const createChild = async (
+    child: Pick<Child, 'name'> & Partial<Omit<Child, 'id' | 'name'>>,
+  ): Promise<Child> => {
+    const response = await makeRequest('children', {
+      method: 'POST',
+      body: JSON.stringify(child),
+    });
+    return response.child;
+  };
+
+  const deleteChild = async (id: string): Promise<void> => {
+    await makeRequest(`children/${id}`, {
+      method: 'DELETE',
+    });
+  };
+
+  const getTimerHistory = async (id: string): Promise<TimerTransition[]> => {
+    const response = await makeRequest(`timers/${id}/history`);
+    return response.transitions;
+  };
+
+  const getTimerSegments = async (
+    id: string,
+  ): Promise<{ segments: RunSegment[]; totalSeconds: number }> => {
+    const response = await makeRequest(`timers/${id}/segments`);
+    return { segments: response.segments, totalSeconds: response.totalSeconds };
+  };
+
+  const logEvent = async (
+    outcome: PottyOutcome,
+    options: { timerId?: string; note?: string; timestamp?: number } = {},
+  ): Promise<PottyEvent> => {
+    const response = await makeRequest('events', {
+      method: 'POST',
+      body: JSON.stringify({ outcome, ...options }),
+    });
+    return response.event;
+  };
+
+  const getEvents = async (
+    options: {
+      timerId?: string;
+      childId?: string;
+      outcome?: PottyOutcome;
+      limit?: number;
+    } = {},
+  ): Promise<PottyEvent[]> => {
+    const params = new URLSearchParams();
+    if (options.timerId) params.append('timerId', options.timerId);
+    if (options.childId) params.append('childId', options.childId);
+    if (options.outcome) params.append('outcome', options.outcome);
+    if (options.limit !== undefined)
+      params.append('limit', String(options.limit));
+    const query = params.toString();
+
+    const response = await makeRequest(query ? `events?${query}` : 'events');
+    return response.events;
+  };
+
+  // Each alert comes with how many seconds late it was found
+  const getMissedAlerts = async (
+    options: { timerId?: string; limit?: number } = {},
+  ): Promise<(MissedAlert & { lateSeconds: number })[]> => {
+    const params = new URLSearchParams();
+    if (options.timerId) params.append('timerId', options.timerId);
+    if (options.limit !== undefined)
+      params.append('limit', String(options.limit));
+    const query = params.toString();
+
+    const response = await makeRequest(
+      query ? `missed-alerts?${query}` : 'missed-alerts',
+    );
+    return response.missedAlerts;
+  };
+
+  // Reads a timer event stream, reopening it with Last-Event-ID whenever it
+  // closes so no change is missed. A stream refused with 401 or 403 stays
+  // closed, as retrying cannot fix the token. XMLHttpRequest is used because
+  // React Native has neither EventSource nor streaming fetch. Returns a
+  // function that closes the stream.
+  const subscribe = (
+    endpoint: string,
+    onChange: (change: TimerStreamEvent) => void,
+  ): (() => void) => {
+    let lastEventId: string | null = null;
+    let xhr: XMLHttpRequest | null = null;
+    let reconnect: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+    let failedAttempts = 0;
+
+    const connect = async () => {
+      const authorization = await authorizationHeader();
+      if (closed) return;
+      let read = 0;
+      let buffer = '';
+      const request = new XMLHttpRequest();
+      xhr = request;
+      request.open('GET', apiURL(endpoint));
+      request.setRequestHeader('Accept', 'text/event-stream');
+      if (lastEventId) request.setRequestHeader('Last-Event-ID', lastEventId);
+      for (const [header, value] of Object.entries(authorization)) {
+        request.setRequestHeader(header, value);
+      }
+
+      request.onreadystatechange = () => {
+        if (request.readyState >= XMLHttpRequest.LOADING) {
+          buffer += request.responseText.slice(read);
+          read = request.responseText.length;
+          const { events, rest } = parseEventStream(buffer);
+          buffer = rest;
+          if (events.length > 0) failedAttempts = 0;
+          for (const event of events) {
+            if (event.id) lastEventId = event.id;
+            if (event.event === 'timer') {
+              const change: TimerStreamEvent = JSON.parse(event.data);
+              rememberVersions([change.timer]);
+              onChange(change);
+            }
+          }
+        }
+        if (request.readyState === XMLHttpRequest.DONE && !closed) {
+          if (request.status === 401 || request.status === 403) {
+            console.error(
+              `❌ Timer event stream ${endpoint} refused with ${request.status}`,
+            );
+            return;
+          }
+          const delay = Math.min(
+            RECONNECT_DELAY_MS * 2 ** failedAttempts,
+            MAX_RECONNECT_DELAY_MS,
+          );
+          failedAttempts += 1;
+          console.log(
+            `🔌 Timer event stream ${endpoint} closed, reconnecting in ${delay} ms`,
+          );
+          reconnect = setTimeout(connect, delay);
+        }
+      };
+      request.send();
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      if (reconnect !== undefined) clearTimeout(reconnect);
+      xhr?.abort();
+    };
+  };
+
+  // Calls onChange with each state change of the timer, starting with its
+  // latest state
+  const subscribeToTimer = (
+    id: string,
+    onChange: (change: TimerStreamEvent) => void,
+  ): (() => void) => subscribe(`timers/${id}/events`, onChange);
+
+  // Follows the current timer, switching to a new one when it is created
+  const subscribeToCurrentTimer = (
+    onChange: (change: TimerStreamEvent) => void,
+    options: { childId?: string; name?: string } = {},
+  ): (() => void) => {
+    const path = options.childId
+      ? `children/${options.childId}/timers/current/events`
+      : 'timers/current/events';
+    return subscribe(
+      options.name ? `${path}?name=${encodeURIComponent(options.name)}` : path,
+      onChange,
+    );
+  };
+
+  // The backup document is returned as-is, ready to pass to importBackup
+  const exportBackup = async (): Promise<BackupDocument> => {
+    return makeRequest('backup');
+  };
+
+  const importBackup = async (
+    backup: BackupDocument,
+  ): Promise<ImportResult> => {
+    const response = await makeRequest('backup', {
+      method: 'POST',
+      body: JSON.stringify(backup),
+    });
+    return response.result;
+  };
+
+  const getTokens = async (): Promise<ApiToken[]> => {
+    const response = await makeRequest('tokens');
+    return response.tokens;
+  };
+
+  // The secret is only returned here; hand it to the device that will use it
+  const mintToken = async (
+    name: string,
+    role?: TokenRole,
+  ): Promise<{ token: ApiToken; secret: string }> => {
+    const response = await makeRequest('tokens', {
+      method: 'POST',
+      body: JSON.stringify({ name, ...(role ? { role } : {}) }),
+    });
+    return { token: response.token, secret: response.secret };
+  };
+
+  const revokeToken = async (id: string): Promise<ApiToken> => {
+    const response = await makeRequest(`tokens/${id}/revoke`, {
+      method: 'POST',
+    });
+    return response.token;
   };
 
   return {
+    getTimer,
     createTimer,
     getCurrentTimer,
     startTimer,
     pauseTimer,
     resetTimer,
+    snoozeTimer,
     updateDuration,
+    adjustTimer,
+    updateTimer,
     deleteTimer,
+    getTimers,
     getAllTimers,
+    getChildren,
+    createChild,
+    deleteChild,
+    getTimerHistory,
+    getTimerSegments,
+    logEvent,
+    getEvents,
+    getMissedAlerts,
+    subscribeToTimer,
+    subscribeToCurrentTimer,
+    exportBackup,
+    importBackup,
+    getTokens,
+    mintToken,
+    revokeToken,
   };
 }
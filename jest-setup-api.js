@@ -0,0 +1,9 @@
+// Setup for the API route tests, run after jest-setup.js
+
+// Routes let every request through. Tokens are checked in
+// services/apiTokens.test.ts and app/api/tokens+api.test.ts, which unmocks
+// this.
+jest.mock('./services/apiTokens', () => ({
+  ...jest.requireActual('./services/apiTokens'),
+  authorize: jest.fn(() => Promise.resolve(null)),
+}));
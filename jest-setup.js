@@ -108,6 +108,10 @@ jest.mock('react-native', () => {
     Alert: {
       alert: jest.fn(),
     },
+    Share: {
+      share: jest.fn(() => Promise.resolve({ action: 'sharedAction' })),
+      sharedAction: 'sharedAction',
+    },
   };
 });
 
@@ -39,7 +39,8 @@ module.exports = {
       displayName: 'React Components',
       testMatch: [
         '<rootDir>/**/*.test.{ts,tsx}',
-        '!<rootDir>/app/api/**/*.test.{ts,tsx}',
+        // <rootDir> is only expanded at the start of a pattern
+        '!**/app/api/**/*.test.{ts,tsx}',
       ],
       testEnvironment: 'jsdom',
       setupFilesAfterEnv: ['<rootDir>/jest-setup.js'],
@@ -51,7 +52,10 @@ module.exports = {
       displayName: 'API Routes',
       testMatch: ['<rootDir>/app/api/**/*.test.{ts,tsx}'],
       testEnvironment: 'node',
-      setupFilesAfterEnv: ['<rootDir>/jest-setup.js'],
+      setupFilesAfterEnv: [
+        '<rootDir>/jest-setup.js',
+        '<rootDir>/jest-setup-api.js',
+      ],
       transformIgnorePatterns: [
         'node_modules/(?!(react-native|@react-native|react-native-reanimated|expo|@expo|expo-haptics|expo-device|expo-notifications|expo-modules-core|react-native-safe-area-context|react-native-gesture-handler|expo-sqlite|expo-audio|expo-router|expo/virtual|expo-asset|expo-av)/)',
       ],
@@ -0,0 +1,26 @@
+/**
+ * @jest-environment node
+ */
+import { parseAdjustment } from './adjust';
+
+describe('parseAdjustment', () => {
+  it('should accept time added or taken off', () => {
+    expect(parseAdjustment({ seconds: 300 })).toEqual({ seconds: 300 });
+    expect(parseAdjustment({ seconds: -300 })).toEqual({ seconds: -300 });
+  });
+
+  it.each([[{}], [{ seconds: 0 }], [{ seconds: 1.5 }], [{ seconds: 14401 }]])(
+    'should reject %j',
+    (body) => {
+      expect(parseAdjustment(body)).toEqual({
+        errors: [
+          {
+            field: 'seconds',
+            message:
+              'Invalid seconds. Must be a non-zero whole number from -14400 to 14400.',
+          },
+        ],
+      });
+    },
+  );
+});
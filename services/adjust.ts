@@ -0,0 +1,22 @@
+import { FieldError, check, validate } from './validation';
+
+// Step of the quick +/- buttons next to the countdown, in minutes
+export const ADJUST_STEP_MINUTES = 5;
+// Largest single change, in seconds (either way)
+export const MAX_ADJUST_SECONDS = 4 * 60 * 60;
+
+// Reads the { seconds } body of an adjust request; negative takes time off
+export function parseAdjustment(
+  body: Record<string, unknown>,
+): { seconds: number } | { errors: FieldError[] } {
+  const result = validate(body, {
+    seconds: check<number>(
+      (value) =>
+        Number.isInteger(value) &&
+        value !== 0 &&
+        Math.abs(value as number) <= MAX_ADJUST_SECONDS,
+      `a non-zero whole number from -${MAX_ADJUST_SECONDS} to ${MAX_ADJUST_SECONDS}`,
+    ),
+  });
+  return 'errors' in result ? result : { seconds: result.value.seconds };
+}
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import {
+  authorize,
+  bootstrapApiToken,
+  hashToken,
+  mintApiToken,
+} from './apiTokens';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { setTimerRepository } from './timerRepository';
+
+describe('apiTokens', () => {
+  const now = 1700000000000;
+  let repository: InMemoryTimerRepository;
+
+  const request = (authorization?: string) =>
+    new Request('http://localhost:3000/api/timers', {
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+  });
+
+  afterEach(() => {
+    setTimerRepository(null);
+    delete process.env.API_ADMIN_TOKEN;
+  });
+
+  it('should hash tokens as SHA-256 hex', async () => {
+    expect(await hashToken('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+  });
+
+  it('should store only the hash of a minted token', async () => {
+    const { token, secret } = await mintApiToken(
+      repository,
+      { name: 'Kitchen tablet', role: 'admin' },
+      now,
+    );
+
+    expect(secret).toMatch(/^ptk_[0-9a-f]{64}$/);
+    expect(token).toEqual({
+      id: expect.stringMatching(/^token_/),
+      name: 'Kitchen tablet',
+      role: 'admin',
+      createdAt: now,
+      revokedAt: null,
+    });
+    expect(await repository.getApiTokenByHash(await hashToken(secret))).toEqual(
+      token,
+    );
+    expect(await repository.getApiTokenByHash(secret)).toBeNull();
+  });
+
+  it('should refuse every request before a token is minted', async () => {
+    expect((await authorize(request()))?.status).toBe(401);
+    expect(
+      (await authorize(request('Bearer ptk_guess'), 'admin'))?.status,
+    ).toBe(401);
+  });
+
+  it('should bootstrap the first admin token only once', async () => {
+    const first = await bootstrapApiToken(repository, now);
+
+    expect(first?.token).toMatchObject({ name: 'This device', role: 'admin' });
+    expect(
+      await authorize(request(`Bearer ${first?.secret}`), 'admin'),
+    ).toBeNull();
+    expect(await bootstrapApiToken(repository, now + 1000)).toBeNull();
+    expect(await repository.getApiTokens()).toHaveLength(1);
+  });
+
+  it('should answer 401 without a valid token', async () => {
+    await mintApiToken(repository, { name: 'Parent', role: 'admin' }, now);
+
+    const missing = await authorize(request());
+    expect(missing?.status).toBe(401);
+    expect(missing?.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(await missing?.json()).toEqual({
+      success: false,
+      error: 'Missing API token. Send Authorization: Bearer <token>.',
+    });
+
+    const invalid = await authorize(request('Bearer ptk_wrong'));
+    expect(invalid?.status).toBe(401);
+    expect(await invalid?.json()).toEqual({
+      success: false,
+      error: 'Invalid API token.',
+    });
+  });
+
+  it('should answer 403 when a caregiver token calls an admin route', async () => {
+    await mintApiToken(repository, { name: 'Parent', role: 'admin' }, now);
+    const sitter = await mintApiToken(
+      repository,
+      { name: "Sitter's phone", role: 'caregiver' },
+      now + 1000,
+    );
+    const header = `Bearer ${sitter.secret}`;
+
+    expect(await authorize(request(header))).toBeNull();
+    const forbidden = await authorize(request(header), 'admin');
+    expect(forbidden?.status).toBe(403);
+    expect(await forbidden?.json()).toEqual({
+      success: false,
+      error: 'Forbidden. This route needs an admin token.',
+    });
+  });
+
+  it('should reject a revoked token', async () => {
+    await mintApiToken(repository, { name: 'Parent', role: 'admin' }, now);
+    const sitter = await mintApiToken(
+      repository,
+      { name: "Sitter's phone", role: 'caregiver' },
+      now + 1000,
+    );
+    await repository.revokeApiToken(sitter.token.id, now + 2000);
+
+    const response = await authorize(request(`Bearer ${sitter.secret}`));
+    expect(response?.status).toBe(401);
+  });
+
+  it('should accept the admin token set in the environment', async () => {
+    process.env.API_ADMIN_TOKEN = 'operator-secret';
+
+    expect(
+      await authorize(request('Bearer operator-secret'), 'admin'),
+    ).toBeNull();
+    expect((await authorize(request('Bearer operator'), 'admin'))?.status).toBe(
+      401,
+    );
+
+    const { secret } = await mintApiToken(
+      repository,
+      { name: 'Parent', role: 'admin' },
+      now,
+    );
+    expect(await authorize(request(`Bearer ${secret}`), 'admin')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { TimerRepository, getTimerRepository } from './timerRepository';
+import { crypto, TextEncoder } from './webGlobals';
+
+// Household API tokens. Only a SHA-256 hash of each token is stored; the
+// token itself is shown once, when it is minted. The API refuses every
+// request without one, so the first token is minted in the app, never over
+// HTTP. A server run without the app gets its first admin token from the
+// API_ADMIN_TOKEN environment variable instead.
+
+export const TOKEN_ROLES = ['admin', 'caregiver'] as const;
+// Admins can also mint and revoke tokens, back up and prune; caregivers,
+// such as a sitter, only use timers, events, children and schedules
+export type TokenRole = (typeof TOKEN_ROLES)[number];
+
+export interface ApiToken {
+  id: string;
+  // Who holds it, e.g. "Sitter's phone"
+  name: string;
+  role: TokenRole;
+  createdAt: number;
+  revokedAt: number | null;
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token),
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+// Stores a new token and returns it with its secret, which is not kept
+export async function mintApiToken(
+  repository: TimerRepository,
+  { name, role }: Pick<ApiToken, 'name' | 'role'>,
+  now: number,
+): Promise<{ token: ApiToken; secret: string }> {
+  const secret = `ptk_${toHex(crypto.getRandomValues(new Uint8Array(32)))}`;
+  const token = await repository.createApiToken(
+    { name, role, createdAt: now, revokedAt: null },
+    await hashToken(secret),
+  );
+  return { token, secret };
+}
+
+// Mints the household's first token, an admin one for the device running
+// the app. Null once an active token exists.
+export async function bootstrapApiToken(
+  repository: TimerRepository,
+  now: number,
+): Promise<{ token: ApiToken; secret: string } | null> {
+  const tokens = await repository.getApiTokens();
+  if (tokens.some((token) => token.revokedAt === null)) return null;
+  return mintApiToken(repository, { name: 'This device', role: 'admin' }, now);
+}
+
+const unauthorized = (error: string) =>
+  Response.json(
+    { success: false, error },
+    { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } },
+  );
+
+// Checks the request's `Authorization: Bearer <token>` header. Returns the
+// 401 or 403 to answer with, or null when the request may go ahead.
+export async function authorize(
+  request: Request,
+  role: TokenRole = 'caregiver',
+): Promise<Response | null> {
+  const repository = getTimerRepository();
+  const bearer = /^Bearer\s+(\S+)$/i.exec(
+    request.headers.get('Authorization') ?? '',
+  );
+  if (!bearer) {
+    return unauthorized(
+      'Missing API token. Send Authorization: Bearer <token>.',
+    );
+  }
+
+  const tokenHash = await hashToken(bearer[1]);
+  // The operator's token from the environment, compared by hash like the
+  // stored ones. It is an admin token and cannot be revoked over HTTP.
+  const adminToken = process.env.API_ADMIN_TOKEN;
+  if (adminToken && tokenHash === (await hashToken(adminToken))) return null;
+
+  const token = await repository.getApiTokenByHash(tokenHash);
+  if (!token || token.revokedAt !== null) {
+    return unauthorized('Invalid API token.');
+  }
+  if (role === 'admin' && token.role !== 'admin') {
+    return Response.json(
+      { success: false, error: 'Forbidden. This route needs an admin token.' },
+      { status: 403 },
+    );
+  }
+  return null;
+}
@@ -0,0 +1,298 @@
+/**
+ * @jest-environment node
+ */
+import {
+  BACKUP_FORMAT_VERSION,
+  backupToCsv,
+  createBackup,
+  restoreBackup,
+  validateBackup,
+} from './backup';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+
+describe('backup', () => {
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+    // Ids come from Date.now() while Math.random is fixed in jest-setup
+    let now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const seed = async () => {
+    const child = await repository.createChild({
+      name: 'Sam',
+      avatarEmoji: '🐻',
+      defaultInterval: 1800,
+    });
+    const timer = await repository.createTimer({
+      duration: 1800,
+      startTime: 1700000000000,
+      isActive: false,
+      remainingTime: 1800,
+      isNotificationMode: false,
+      childId: child.id,
+    });
+    await repository.createEvent({
+      timerId: timer.id,
+      outcome: 'success',
+      timestamp: 1700000000000,
+      note: 'Dry all morning, "finally"',
+    });
+    const schedule = await repository.createSchedule({
+      name: 'Weekdays',
+      windows: [{ start: '07:00', end: '19:00', interval: 2700 }],
+      quietHours: { start: '19:30', end: '07:00' },
+      isActive: true,
+    });
+    const missedAlert = await repository.createMissedAlert({
+      timerId: timer.id,
+      expiredAt: 1700000600000,
+      detectedAt: 1700002400000,
+    });
+    return { child, timer, schedule, missedAlert };
+  };
+
+  describe('createBackup', () => {
+    it('should wrap every table in a versioned document', async () => {
+      const { child, timer, schedule, missedAlert } = await seed();
+      const { version, ...exportedTimer } = timer;
+
+      const backup = await createBackup(repository);
+
+      expect(backup).toMatchObject({
+        format: 'potty-timer-backup',
+        version: BACKUP_FORMAT_VERSION,
+        exportedAt: expect.any(Number),
+        timers: [
+          {
+            ...exportedTimer,
+            createdAt: 1700000000001,
+            archived: false,
+          },
+        ],
+        children: [child],
+        events: [expect.objectContaining({ outcome: 'success' })],
+        transitions: [expect.objectContaining({ event: 'create' })],
+        dailyAggregates: [],
+        schedules: [schedule],
+        missedAlerts: [missedAlert],
+      });
+    });
+  });
+
+  describe('validateBackup', () => {
+    it('should accept an exported document', async () => {
+      await seed();
+      const backup = await createBackup(repository);
+
+      expect(validateBackup(JSON.parse(JSON.stringify(backup)))).toEqual({
+        backup,
+      });
+    });
+
+    it('should convert version 1 creation times from seconds', async () => {
+      await seed();
+      const backup = await createBackup(repository);
+      const [timer] = backup.timers;
+
+      const result = validateBackup({
+        ...backup,
+        version: 1,
+        timers: [{ ...timer, createdAt: Math.floor(timer.createdAt / 1000) }],
+      });
+
+      expect(result).toEqual({
+        backup: expect.objectContaining({
+          timers: [{ ...timer, createdAt: 1700000000000 }],
+        }),
+      });
+    });
+
+    it('should treat missing tables as empty', () => {
+      const result = validateBackup({
+        format: 'potty-timer-backup',
+        version: 1,
+        timers: [],
+      });
+
+      expect(result).toEqual({
+        backup: expect.objectContaining({
+          children: [],
+          events: [],
+          schedules: [],
+          missedAlerts: [],
+        }),
+      });
+    });
+
+    it.each([
+      [null, 'Invalid backup. Must be a JSON object.'],
+      [{ version: 1 }, "Invalid backup. Expected format 'potty-timer-backup'."],
+      [
+        { format: 'potty-timer-backup', version: 4 },
+        'Unsupported backup version 4. This app reads versions up to 3.',
+      ],
+      [
+        { format: 'potty-timer-backup', version: 1, timers: {} },
+        'Invalid backup. timers must be an array.',
+      ],
+      [
+        {
+          format: 'potty-timer-backup',
+          version: 3,
+          schedules: [
+            {
+              id: 'schedule_1',
+              name: 'Weekdays',
+              windows: [{ start: '07:00', end: '19:00' }],
+              quietHours: null,
+              isActive: false,
+            },
+          ],
+        },
+        'Invalid backup. schedules[0].windows is missing or invalid.',
+      ],
+      [
+        {
+          format: 'potty-timer-backup',
+          version: 1,
+          events: [
+            {
+              id: 'event_1',
+              timerId: null,
+              outcome: 'maybe',
+              timestamp: 1,
+              note: null,
+            },
+          ],
+        },
+        'Invalid backup. events[0].outcome is missing or invalid.',
+      ],
+    ])('should reject %j', (value, error) => {
+      expect(validateBackup(value)).toEqual({ error });
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should restore into an empty repository', async () => {
+      await seed();
+      const backup = await createBackup(repository);
+      const target = new InMemoryTimerRepository();
+
+      const result = await restoreBackup(target, backup);
+
+      expect(result).toEqual({
+        imported: {
+          timers: 1,
+          children: 1,
+          events: 1,
+          transitions: 1,
+          dailyAggregates: 0,
+          schedules: 1,
+          missedAlerts: 1,
+        },
+        skipped: {
+          timers: 0,
+          children: 0,
+          events: 0,
+          transitions: 0,
+          dailyAggregates: 0,
+          schedules: 0,
+          missedAlerts: 0,
+        },
+        conflicts: [],
+      });
+      expect(await target.exportData()).toEqual(await repository.exportData());
+    });
+
+    it('should skip identical records and report changed ones', async () => {
+      const { child } = await seed();
+      const backup = await createBackup(repository);
+      await repository.updateChild(child.id, { name: 'Samantha' });
+
+      const result = await restoreBackup(repository, backup);
+
+      expect(result.imported).toEqual({
+        timers: 0,
+        children: 0,
+        events: 0,
+        transitions: 0,
+        dailyAggregates: 0,
+        schedules: 0,
+        missedAlerts: 0,
+      });
+      expect(result.skipped).toMatchObject({
+        timers: 1,
+        events: 1,
+        schedules: 1,
+        missedAlerts: 1,
+      });
+      // Transitions of timers that were not imported are left alone
+      expect(result.skipped.transitions).toBe(1);
+      expect(result.conflicts).toEqual([{ table: 'children', id: child.id }]);
+      expect((await repository.getChild(child.id))!.name).toBe('Samantha');
+    });
+
+    it('should not activate a second schedule', async () => {
+      const { schedule } = await seed();
+      const backup = await createBackup(repository);
+      const target = new InMemoryTimerRepository();
+      const { id, ...template } = schedule;
+      const local = await target.createSchedule({
+        ...template,
+        name: 'Weekends',
+      });
+
+      await restoreBackup(target, backup);
+
+      expect((await target.getActiveSchedule())?.id).toBe(local.id);
+      expect((await target.getSchedule(schedule.id))?.isActive).toBe(false);
+    });
+
+    it('should keep only the first of duplicate ids within a backup', async () => {
+      await seed();
+      const backup = await createBackup(repository);
+      const target = new InMemoryTimerRepository();
+
+      const result = await restoreBackup(target, {
+        ...backup,
+        timers: [backup.timers[0], { ...backup.timers[0], duration: 60 }],
+      });
+
+      expect(result.imported.timers).toBe(1);
+      expect(result.conflicts).toEqual([
+        { table: 'timers', id: backup.timers[0].id },
+      ]);
+      expect((await target.getTimer(backup.timers[0].id))!.duration).toBe(1800);
+    });
+  });
+
+  describe('backupToCsv', () => {
+    it('should write a header row and escape values', async () => {
+      const { timer } = await seed();
+      const backup = await createBackup(repository);
+
+      const csv = backupToCsv(backup, 'events');
+
+      expect(csv.split('\r\n')).toEqual([
+        'id,timerId,outcome,timestamp,note',
+        `${backup.events[0].id},${timer.id},success,1700000000000,"Dry all morning, ""finally"""`,
+        '',
+      ]);
+    });
+
+    it('should write only the header for an empty table', async () => {
+      const backup = await createBackup(repository);
+
+      expect(backupToCsv(backup, 'dailyAggregates')).toBe(
+        'day,timerCount,totalDuration,successCount,accidentCount,triedNothingCount,skippedCount\r\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  TimerState,
+  Child,
+  PottyEvent,
+  TimerTransition,
+} from '../contexts/TimerContext';
+import { DailyAggregate } from './retention';
+import { ScheduleTemplate } from './schedules';
+import { MissedAlert } from './missedAlerts';
+import { TimerRepository } from './timerRepository';
+import { getClock } from './clock';
+import { DEFAULT_TIMER_NAME } from './namedTimers';
+
+// Bump when the document layout changes; imports refuse newer versions.
+// Version 1 stored timer createdAt in seconds; version 2 uses milliseconds.
+// Version 3 adds schedules and missed alerts.
+export const BACKUP_FORMAT_VERSION = 3;
+
+export type BackupTable =
+  | 'timers'
+  | 'children'
+  | 'events'
+  | 'transitions'
+  | 'dailyAggregates'
+  | 'schedules'
+  | 'missedAlerts';
+
+export const BACKUP_TABLES: BackupTable[] = [
+  'timers',
+  'children',
+  'events',
+  'transitions',
+  'dailyAggregates',
+  'schedules',
+  'missedAlerts',
+];
+
+// Timers carry the storage-only fields so a restore is exact
+export interface BackupTimer extends TimerState {
+  childId: string | null;
+  createdAt: number; // milliseconds, like the created_at column
+  archived: boolean;
+}
+
+export interface BackupData {
+  timers: BackupTimer[];
+  children: Child[];
+  events: PottyEvent[];
+  transitions: TimerTransition[];
+  dailyAggregates: DailyAggregate[];
+  schedules: ScheduleTemplate[];
+  missedAlerts: MissedAlert[];
+}
+
+export interface BackupDocument extends BackupData {
+  format: 'potty-timer-backup';
+  version: number;
+  exportedAt: number; // milliseconds
+}
+
+export interface ImportConflict {
+  table: BackupTable;
+  id: string;
+}
+
+export interface ImportResult {
+  imported: Record<BackupTable, number>;
+  // Records already present with identical content
+  skipped: Record<BackupTable, number>;
+  // Records whose id exists locally with different content; the local copy wins
+  conflicts: ImportConflict[];
+}
+
+export async function createBackup(
+  repository: TimerRepository,
+): Promise<BackupDocument> {
+  return {
+    format: 'potty-timer-backup',
+    version: BACKUP_FORMAT_VERSION,
+    exportedAt: getClock().now(),
+    ...(await repository.exportData()),
+  };
+}
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isNumber: FieldCheck = (value) =>
+  typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isNumberArray: FieldCheck = (value) =>
+  Array.isArray(value) && value.every(isNumber);
+const isRunSegmentArray: FieldCheck = (value) =>
+  Array.isArray(value) &&
+  value.every(
+    (segment) =>
+      typeof segment === 'object' &&
+      segment !== null &&
+      isNumber(segment.startedAt) &&
+      (segment.endedAt === null || isNumber(segment.endedAt)),
+  );
+const isTimeRange: FieldCheck = (value) =>
+  typeof value === 'object' &&
+  value !== null &&
+  isString((value as Record<string, unknown>).start) &&
+  isString((value as Record<string, unknown>).end);
+const isScheduleWindowArray: FieldCheck = (value) =>
+  Array.isArray(value) &&
+  value.every((window) => isTimeRange(window) && isNumber(window.interval));
+const orNull =
+  (check: FieldCheck): FieldCheck =>
+  (value) =>
+    value === null || value === undefined || check(value);
+
+const RECORD_FIELDS: Record<BackupTable, Record<string, FieldCheck>> = {
+  timers: {
+    id: isString,
+    duration: isNumber,
+    startTime: isNumber,
+    isActive: isBoolean,
+    remainingTime: isNumber,
+    isNotificationMode: isBoolean,
+    childId: orNull(isString),
+    createdAt: isNumber,
+    archived: isBoolean,
+    isRecurring: orNull(isBoolean),
+    maxRunsPerDay: orNull(isNumber),
+    preAlertOffsets: orNull(isNumberArray),
+    isSnoozed: orNull(isBoolean),
+    runSegments: orNull(isRunSegmentArray),
+    countUpThreshold: orNull(isNumber),
+    name: orNull(isString),
+    adjustment: orNull(isNumber),
+  },
+  children: {
+    id: isString,
+    name: isString,
+    avatarEmoji: isString,
+    defaultInterval: isNumber,
+  },
+  events: {
+    id: isString,
+    timerId: orNull(isString),
+    outcome: (value) =>
+      ['success', 'accident', 'tried-nothing', 'skipped'].includes(
+        value as string,
+      ),
+    timestamp: isNumber,
+    note: orNull(isString),
+  },
+  transitions: {
+    id: isNumber,
+    timerId: isString,
+    event: (value) =>
+      [
+        'create',
+        'start',
+        'resume',
+        'pause',
+        'reset',
+        'duration',
+        'expire',
+        'dismiss',
+        'restart',
+        'snooze',
+        'adjust',
+        'update',
+      ].includes(value as string),
+    occurredAt: isNumber,
+    duration: isNumber,
+    startTime: isNumber,
+    isActive: isBoolean,
+    remainingTime: isNumber,
+    isNotificationMode: isBoolean,
+  },
+  dailyAggregates: {
+    day: isString,
+    timerCount: isNumber,
+    totalDuration: isNumber,
+    successCount: isNumber,
+    accidentCount: isNumber,
+    triedNothingCount: isNumber,
+    skippedCount: isNumber,
+  },
+  schedules: {
+    id: isString,
+    name: isString,
+    windows: isScheduleWindowArray,
+    quietHours: orNull(isTimeRange),
+    isActive: isBoolean,
+  },
+  missedAlerts: {
+    id: isString,
+    timerId: isString,
+    expiredAt: isNumber,
+    detectedAt: isNumber,
+  },
+};
+
+// Checks an uploaded document and returns it with optional fields filled in,
+// or the first problem found
+export function validateBackup(
+  value: unknown,
+): { backup: BackupDocument } | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Invalid backup. Must be a JSON object.' };
+  }
+  const document = value as Record<string, unknown>;
+
+  if (document.format !== 'potty-timer-backup') {
+    return { error: "Invalid backup. Expected format 'potty-timer-backup'." };
+  }
+  const version = document.version;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > BACKUP_FORMAT_VERSION
+  ) {
+    return {
+      error: `Unsupported backup version ${version}. This app reads versions up to ${BACKUP_FORMAT_VERSION}.`,
+    };
+  }
+
+  for (const table of BACKUP_TABLES) {
+    const records: unknown = document[table] ?? [];
+    if (!Array.isArray(records)) {
+      return { error: `Invalid backup. ${table} must be an array.` };
+    }
+    for (const [index, record] of records.entries()) {
+      for (const [field, check] of Object.entries(RECORD_FIELDS[table])) {
+        if (typeof record !== 'object' || record === null) {
+          return {
+            error: `Invalid backup. ${table}[${index}] is not an object.`,
+          };
+        }
+        if (!check((record as Record<string, unknown>)[field])) {
+          return {
+            error: `Invalid backup. ${table}[${index}].${field} is missing or invalid.`,
+          };
+        }
+      }
+    }
+  }
+
+  // Every record has passed its field checks, so the tables hold what
+  // their types say, short of the optional fields filled in below
+  const tables = document as Partial<BackupData>;
+  const exportedAt = document.exportedAt;
+
+  return {
+    backup: {
+      format: 'potty-timer-backup',
+      version,
+      exportedAt:
+        typeof exportedAt === 'number' && Number.isFinite(exportedAt)
+          ? exportedAt
+          : 0,
+      timers: (tables.timers ?? []).map((timer) => ({
+        ...timer,
+        childId: timer.childId ?? null,
+        isRecurring: timer.isRecurring ?? false,
+        maxRunsPerDay: timer.maxRunsPerDay ?? null,
+        preAlertOffsets: timer.preAlertOffsets ?? [],
+        isSnoozed: timer.isSnoozed ?? false,
+        runSegments: timer.runSegments ?? [],
+        countUpThreshold: timer.countUpThreshold ?? null,
+        name: timer.name ?? DEFAULT_TIMER_NAME,
+        adjustment: timer.adjustment ?? 0,
+        createdAt: version < 2 ? timer.createdAt * 1000 : timer.createdAt,
+      })),
+      children: tables.children ?? [],
+      events: (tables.events ?? []).map((event) => ({
+        ...event,
+        timerId: event.timerId ?? null,
+        note: event.note ?? null,
+      })),
+      transitions: tables.transitions ?? [],
+      dailyAggregates: tables.dailyAggregates ?? [],
+      schedules: (tables.schedules ?? []).map((schedule) => ({
+        ...schedule,
+        quietHours: schedule.quietHours ?? null,
+      })),
+      missedAlerts: tables.missedAlerts ?? [],
+    },
+  };
+}
+
+// Compares flat records field by field, ignoring key order
+const canonical = (record: object): string =>
+  JSON.stringify(
+    Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+const sameRecord = (a: object, b: object): boolean =>
+  canonical(a) === canonical(b);
+
+// Adds every record whose id is new, de-duplicating on id both within the
+// backup and against what is already stored. Transitions follow their timer.
+export async function restoreBackup(
+  repository: TimerRepository,
+  backup: BackupDocument,
+): Promise<ImportResult> {
+  const existing = await repository.exportData();
+  const result: ImportResult = {
+    imported: {
+      timers: 0,
+      children: 0,
+      events: 0,
+      transitions: 0,
+      dailyAggregates: 0,
+      schedules: 0,
+      missedAlerts: 0,
+    },
+    skipped: {
+      timers: 0,
+      children: 0,
+      events: 0,
+      transitions: 0,
+      dailyAggregates: 0,
+      schedules: 0,
+      missedAlerts: 0,
+    },
+    conflicts: [],
+  };
+
+  const pickNew = <T extends object>(
+    table: BackupTable,
+    incoming: T[],
+    current: T[],
+    keyOf: (record: T) => string,
+  ): T[] => {
+    const known = new Map(current.map((record) => [keyOf(record), record]));
+    const fresh: T[] = [];
+    for (const record of incoming) {
+      const match = known.get(keyOf(record));
+      if (!match) {
+        known.set(keyOf(record), record);
+        fresh.push(record);
+      } else if (sameRecord(match, record)) {
+        result.skipped[table] += 1;
+      } else {
+        result.conflicts.push({ table, id: keyOf(record) });
+      }
+    }
+    result.imported[table] = fresh.length;
+    return fresh;
+  };
+
+  const timers = pickNew(
+    'timers',
+    backup.timers,
+    existing.timers,
+    (timer) => timer.id,
+  );
+  const importedTimerIds = new Set(timers.map((timer) => timer.id));
+  const transitions = backup.transitions.filter((transition) =>
+    importedTimerIds.has(transition.timerId),
+  );
+  result.imported.transitions = transitions.length;
+  result.skipped.transitions = backup.transitions.length - transitions.length;
+
+  // At most one schedule is active, and one already active here stays so
+  let hasActiveSchedule = existing.schedules.some(
+    (schedule) => schedule.isActive,
+  );
+  const schedules = pickNew(
+    'schedules',
+    backup.schedules,
+    existing.schedules,
+    (schedule) => schedule.id,
+  ).map((schedule) => {
+    const isActive = schedule.isActive && !hasActiveSchedule;
+    hasActiveSchedule ||= isActive;
+    return { ...schedule, isActive };
+  });
+
+  await repository.importData({
+    timers,
+    children: pickNew(
+      'children',
+      backup.children,
+      existing.children,
+      (child) => child.id,
+    ),
+    events: pickNew(
+      'events',
+      backup.events,
+      existing.events,
+      (event) => event.id,
+    ),
+    transitions,
+    dailyAggregates: pickNew(
+      'dailyAggregates',
+      backup.dailyAggregates,
+      existing.dailyAggregates,
+      (aggregate) => aggregate.day,
+    ),
+    schedules,
+    missedAlerts: pickNew(
+      'missedAlerts',
+      backup.missedAlerts,
+      existing.missedAlerts,
+      (alert) => alert.id,
+    ),
+  });
+
+  return result;
+}
+
+// Column order of each table's CSV export
+const CSV_COLUMNS: Record<BackupTable, string[]> = Object.fromEntries(
+  BACKUP_TABLES.map((table) => [table, Object.keys(RECORD_FIELDS[table])]),
+) as Record<BackupTable, string[]>;
+
+const csvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One table of a backup as RFC 4180 CSV with a header row
+export function backupToCsv(backup: BackupData, table: BackupTable): string {
+  const columns = CSV_COLUMNS[table];
+  const rows = (backup[table] as object[]).map((record) =>
+    columns
+      .map((column) => csvValue((record as Record<string, unknown>)[column]))
+      .join(','),
+  );
+  return [columns.join(','), ...rows].join('\r\n') + '\r\n';
+}
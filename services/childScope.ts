@@ -0,0 +1,15 @@
+import { getTimerRepository } from './timerRepository';
+import { TimerState } from '../contexts/TimerContext';
+
+// Timer routes are served both at /api/timers/... and, scoped to a single
+// child, at /api/children/[childId]/timers/.... A timer that belongs to another
+// child is reported as missing so scoped routes never touch it.
+export async function getScopedTimer(
+  id: string,
+  childId?: string,
+): Promise<TimerState | null> {
+  const timer = await getTimerRepository().getTimer(id);
+  if (!timer) return null;
+  if (childId !== undefined && timer.childId !== childId) return null;
+  return timer;
+}
@@ -0,0 +1,52 @@
+// Source of the current time for the app, the API routes and storage.
+//
+// Units: every timestamp, in memory or persisted (startTime, created_at,
+// updated_at, potty event and transition times, cursors, backups), is
+// milliseconds since the Unix epoch, exactly what Clock.now() returns.
+// Durations (duration, remainingTime, elapsed time) are whole seconds.
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// A clock that only moves when told to, for deterministic tests of expiry,
+// pause and resume
+export class FakeClock implements Clock {
+  constructor(private current = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  set(timestamp: number): void {
+    this.current = timestamp;
+  }
+
+  advance(milliseconds: number): void {
+    this.current += milliseconds;
+  }
+
+  advanceSeconds(seconds: number): void {
+    this.advance(seconds * 1000);
+  }
+}
+
+let activeClock: Clock | null = null;
+
+export function getClock(): Clock {
+  return activeClock ?? systemClock;
+}
+
+// Swaps the clock every route and service reads. Pass null to go back to the
+// system clock.
+export function setClock(clock: Clock | null): void {
+  activeClock = clock;
+}
+
+// Whole seconds from `since` to `now`, both in milliseconds
+export function elapsedSeconds(since: number, now: number): number {
+  return Math.floor((now - since) / 1000);
+}
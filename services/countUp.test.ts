@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import {
+  isCountUpOverdue,
+  lastSuccessAt,
+  parseCountUpThreshold,
+} from './countUp';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+
+describe('countUp', () => {
+  const now = 1700000000000;
+
+  it('should find the newest success, for one child or for anyone', async () => {
+    const repository = new InMemoryTimerRepository(new FakeClock(now));
+    const child = await repository.createChild({
+      name: 'Sam',
+      avatarEmoji: '🦖',
+      defaultInterval: 1800,
+    });
+    const timer = await repository.createTimer({
+      duration: 1800,
+      startTime: now,
+      isActive: false,
+      remainingTime: 1800,
+      isNotificationMode: false,
+      childId: child.id,
+    });
+    const log = (
+      timerId: string | null,
+      outcome: 'success' | 'accident',
+      minutesAgo: number,
+    ) =>
+      repository.createEvent({
+        timerId,
+        outcome,
+        timestamp: now - minutesAgo * 60 * 1000,
+        note: null,
+      });
+
+    expect(await lastSuccessAt(repository, null)).toBeNull();
+
+    await log(timer.id, 'success', 90);
+    await log(timer.id, 'accident', 30);
+    await log(null, 'success', 10);
+
+    expect(await lastSuccessAt(repository, child.id)).toBe(
+      now - 90 * 60 * 1000,
+    );
+    expect(await lastSuccessAt(repository, null)).toBe(now - 10 * 60 * 1000);
+  });
+
+  it('should be overdue once the threshold has passed', () => {
+    const since = now - 3600 * 1000;
+    expect(isCountUpOverdue(since, 3600, now)).toBe(true);
+    expect(isCountUpOverdue(since, 3601, now)).toBe(false);
+    expect(isCountUpOverdue(since, null, now)).toBe(false);
+    expect(isCountUpOverdue(null, 60, now)).toBe(false);
+  });
+
+  it('should read a threshold or null', () => {
+    expect(parseCountUpThreshold(10800)).toEqual({ threshold: 10800 });
+    expect(parseCountUpThreshold(null)).toEqual({ threshold: null });
+    expect(parseCountUpThreshold(-60)).toEqual({
+      error:
+        'Invalid countUpThreshold. Must be a positive whole number of seconds or null.',
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { TimerRepository } from './timerRepository';
+import { elapsedSeconds } from './clock';
+
+// "Time since last potty": counts up from the last logged success, next to
+// the countdown. A timer's countUpThreshold (seconds) raises its alert once
+// the count passes it.
+
+// Timestamp of the newest success logged for the child, or for anyone when
+// childId is null; null when none has been logged
+export async function lastSuccessAt(
+  repository: TimerRepository,
+  childId: string | null,
+): Promise<number | null> {
+  const [event] = await repository.getEvents({
+    outcome: 'success',
+    limit: 1,
+    ...(childId ? { childId } : {}),
+  });
+  return event?.timestamp ?? null;
+}
+
+export function isCountUpOverdue(
+  since: number | null,
+  threshold: number | null | undefined,
+  now: number,
+): boolean {
+  return (
+    since !== null &&
+    threshold != null &&
+    elapsedSeconds(since, now) >= threshold
+  );
+}
+
+// Reads a countUpThreshold value from a request body
+export function parseCountUpThreshold(
+  value: unknown,
+): { threshold: number | null } | { error: string } {
+  if (value !== null && (!Number.isInteger(value) || (value as number) <= 0)) {
+    return {
+      error:
+        'Invalid countUpThreshold. Must be a positive whole number of seconds or null.',
+    };
+  }
+  return { threshold: value as number | null };
+}
@@ -1,9 +1,247 @@
 import * as SQLite from 'expo-sqlite';
-import { TimerState } from '../contexts/TimerContext';
+import {
+  TimerState,
+  Child,
+  PottyEvent,
+  PottyOutcome,
+  RunSegment,
+  TimerTransition,
+  TimerTransitionEvent,
+} from '../contexts/TimerContext';
+import { migrations, SCHEMA_VERSION } from './migrations';
+import {
+  TimerRepository,
+  TimerListOptions,
+  TimerPage,
+  DEFAULT_TIMER_PAGE_SIZE,
+  encodeTimerCursor,
+  StaleTimerError,
+} from './timerRepository';
+import {
+  RetentionPolicy,
+  RetentionResult,
+  DailyAggregate,
+  DEFAULT_RETENTION_POLICY,
+  retentionCutoff,
+} from './retention';
+import { getClock } from './clock';
+import { DEFAULT_TIMER_NAME } from './namedTimers';
+import { BackupData, BackupTimer } from './backup';
+import { ScheduleTemplate, ScheduleWindow } from './schedules';
+import { MissedAlert } from './missedAlerts';
+import { ApiToken } from './apiTokens';
 
-class DatabaseService {
+// Raw rows as stored in SQLite
+interface TimerRow {
+  id: string;
+  duration: number;
+  start_time: number;
+  is_active: number;
+  remaining_time: number;
+  is_notification_mode: number;
+  child_id: string | null;
+  created_at: number;
+  archived: number;
+  is_recurring: number;
+  max_runs_per_day: number | null;
+  pre_alert_offsets: string;
+  is_snoozed: number;
+  run_segments: string;
+  count_up_threshold: number | null;
+  name: string;
+  adjustment: number;
+  version: number;
+}
+
+interface DailyAggregateRow {
+  day: string;
+  timer_count: number;
+  total_duration: number;
+  success_count: number;
+  accident_count: number;
+  tried_nothing_count: number;
+  skipped_count: number;
+}
+
+interface ChildRow {
+  id: string;
+  name: string;
+  avatar_emoji: string;
+  default_interval: number;
+}
+
+interface ScheduleRow {
+  id: string;
+  name: string;
+  windows: string;
+  quiet_start: string | null;
+  quiet_end: string | null;
+  is_active: number;
+}
+
+interface TimerTransitionRow {
+  id: number;
+  timer_id: string;
+  event: TimerTransitionEvent;
+  occurred_at: number;
+  duration: number;
+  start_time: number;
+  is_active: number;
+  remaining_time: number;
+  is_notification_mode: number;
+}
+
+interface PottyEventRow {
+  id: string;
+  timer_id: string | null;
+  outcome: PottyEvent['outcome'];
+  timestamp: number;
+  note: string | null;
+}
+
+interface MissedAlertRow {
+  id: string;
+  timer_id: string;
+  expired_at: number;
+  detected_at: number;
+}
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  role: ApiToken['role'];
+  token_hash: string;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+const mapTimerRow = (row: TimerRow): TimerState => ({
+  id: row.id,
+  duration: row.duration,
+  startTime: row.start_time,
+  isActive: row.is_active === 1,
+  remainingTime: row.remaining_time,
+  isNotificationMode: row.is_notification_mode === 1,
+  childId: row.child_id,
+  isRecurring: row.is_recurring === 1,
+  maxRunsPerDay: row.max_runs_per_day ?? null,
+  preAlertOffsets: JSON.parse(row.pre_alert_offsets ?? '[]') as number[],
+  isSnoozed: row.is_snoozed === 1,
+  runSegments: JSON.parse(row.run_segments ?? '[]') as RunSegment[],
+  countUpThreshold: row.count_up_threshold ?? null,
+  name: row.name ?? DEFAULT_TIMER_NAME,
+  adjustment: row.adjustment ?? 0,
+  version: row.version ?? 1,
+});
+
+// The version only guards live edits, so backups leave it out
+const mapBackupTimerRow = (row: TimerRow): BackupTimer => {
+  const { version, ...timer } = mapTimerRow(row);
+  return {
+    ...timer,
+    childId: row.child_id,
+    createdAt: row.created_at,
+    archived: row.archived === 1,
+  };
+};
+
+const mapDailyAggregateRow = (row: DailyAggregateRow): DailyAggregate => ({
+  day: row.day,
+  timerCount: row.timer_count,
+  totalDuration: row.total_duration,
+  successCount: row.success_count,
+  accidentCount: row.accident_count,
+  triedNothingCount: row.tried_nothing_count,
+  skippedCount: row.skipped_count,
+});
+
+const mapChildRow = (row: ChildRow): Child => ({
+  id: row.id,
+  name: row.name,
+  avatarEmoji: row.avatar_emoji,
+  defaultInterval: row.default_interval,
+});
+
+const mapScheduleRow = (row: ScheduleRow): ScheduleTemplate => ({
+  id: row.id,
+  name: row.name,
+  windows: JSON.parse(row.windows) as ScheduleWindow[],
+  quietHours:
+    row.quiet_start !== null && row.quiet_end !== null
+      ? { start: row.quiet_start, end: row.quiet_end }
+      : null,
+  isActive: row.is_active === 1,
+});
+
+const mapTimerTransitionRow = (row: TimerTransitionRow): TimerTransition => ({
+  id: row.id,
+  timerId: row.timer_id,
+  event: row.event,
+  occurredAt: row.occurred_at,
+  duration: row.duration,
+  startTime: row.start_time,
+  isActive: row.is_active === 1,
+  remainingTime: row.remaining_time,
+  isNotificationMode: row.is_notification_mode === 1,
+});
+
+const mapPottyEventRow = (row: PottyEventRow): PottyEvent => ({
+  id: row.id,
+  timerId: row.timer_id,
+  outcome: row.outcome,
+  timestamp: row.timestamp,
+  note: row.note,
+});
+
+const mapMissedAlertRow = (row: MissedAlertRow): MissedAlert => ({
+  id: row.id,
+  timerId: row.timer_id,
+  expiredAt: row.expired_at,
+  detectedAt: row.detected_at,
+});
+
+const mapApiTokenRow = (row: ApiTokenRow): ApiToken => ({
+  id: row.id,
+  name: row.name,
+  role: row.role,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at,
+});
+
+// Copies the timer row as it stands after a change into the append-only
+// timer_transitions log. Run inside the same transaction as the change.
+const RECORD_TRANSITION_SQL = `INSERT INTO timer_transitions (timer_id, event, occurred_at, duration, start_time, is_active, remaining_time, is_notification_mode)
+  SELECT id, ?, ?, duration, start_time, is_active, remaining_time, is_notification_mode FROM timers WHERE id = ?;`;
+
+// Timers the retention pass archives: untouched since the cutoff (bound as
+// the one parameter), neither running nor alerting, and not the newest of
+// their name for their child, which is still a current timer
+const STALE_TIMERS = `archived = 0 AND updated_at < ? AND is_active = 0 AND is_notification_mode = 0
+  AND EXISTS (SELECT 1 FROM timers newer WHERE newer.archived = 0 AND newer.name = timers.name
+    AND newer.child_id IS timers.child_id AND newer.created_at > timers.created_at)`;
+
+// Query helpers bound to the open connection
+interface Queries {
+  run(
+    sql: string,
+    params?: SQLite.SQLiteBindValue[],
+  ): Promise<SQLite.SQLiteRunResult>;
+  getFirst<T>(
+    sql: string,
+    params?: SQLite.SQLiteBindValue[],
+  ): Promise<T | null>;
+  getAll<T>(sql: string, params?: SQLite.SQLiteBindValue[]): Promise<T[]>;
+}
+
+// SQLite implementation of TimerRepository
+class DatabaseService implements TimerRepository {
   private db: SQLite.SQLiteDatabase | null = null;
   private initializationPromise: Promise<void> | null = null;
+  // Prepared statements for the open connection keyed by their SQL, reused
+  // until it is replaced
+  private statements = new Map<string, Promise<SQLite.SQLiteStatement>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private retentionPolicy: RetentionPolicy = DEFAULT_RETENTION_POLICY;
 
   async initialize(): Promise<void> {
     if (this.db) return; // Already initialized
@@ -20,122 +258,188 @@ class DatabaseService {
   resetForTesting(): void {
     this.db = null;
     this.initializationPromise = null;
+    this.statements.clear();
+    this.queue = Promise.resolve();
   }
 
-  private initializeInternal(): Promise<void> {
-    return new Promise((resolve, reject) => {
+  private async initializeInternal(): Promise<void> {
+    try {
+      const db = await SQLite.openDatabaseAsync('potty-timer.db');
+      await this.runMigrations(db);
+      this.db = db;
+      console.log('✅ Database initialized successfully');
+
+      // A failed retention pass must not keep the app from starting
       try {
-        this.db = SQLite.openDatabase('potty-timer.db');
-        this.createTables()
-          .then(() => {
-            console.log('✅ Database initialized successfully');
-            resolve();
-          })
-          .catch((error) => {
-            console.error('❌ Database initialization failed:', error);
-            this.db = null;
-            this.initializationPromise = null;
-            reject(error);
-          });
+        await this.pruneOldData();
       } catch (error) {
-        console.error('❌ Database initialization failed:', error);
-        this.db = null;
-        this.initializationPromise = null;
-        reject(error);
+        console.error('❌ Retention pass failed:', error);
       }
-    });
+    } catch (error) {
+      console.error('❌ Database initialization failed:', error);
+      this.db = null;
+      this.initializationPromise = null;
+      throw error;
+    }
   }
 
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  private async runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
+    await db.execAsync(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      );`,
+    );
+
+    const row = await db.getFirstAsync<{ version: number | null }>(
+      `SELECT MAX(version) AS version FROM schema_migrations;`,
+    );
+    const currentVersion = row?.version ?? 0;
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS timers (
-            id TEXT PRIMARY KEY,
-            duration INTEGER NOT NULL,
-            start_time INTEGER NOT NULL,
-            is_active INTEGER NOT NULL DEFAULT 0,
-            remaining_time INTEGER NOT NULL,
-            is_notification_mode INTEGER NOT NULL DEFAULT 0,
-            created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
-            updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
-          );`,
-          [],
-          () => {
-            tx.executeSql(
-              `CREATE INDEX IF NOT EXISTS idx_timers_active ON timers(is_active);`,
-              [],
-              () => {
-                console.log('✅ Database tables created successfully');
-                resolve();
-              },
-              (_, error) => {
-                console.error('❌ Failed to create index:', error);
-                reject(error);
-                return false;
-              },
-            );
-          },
-          (_, error) => {
-            console.error('❌ Failed to create tables:', error);
-            reject(error);
-            return false;
-          },
+    if (currentVersion > SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${currentVersion} is newer than supported version ${SCHEMA_VERSION}`,
+      );
+    }
+
+    const pending = migrations.filter(
+      (migration) => migration.version > currentVersion,
+    );
+    // All pending migrations share one transaction, so a failure never
+    // leaves a half-applied schema behind
+    await db.withTransactionAsync(async () => {
+      const now = getClock().now();
+      for (const migration of pending) {
+        for (const statement of migration.statements) {
+          await db.execAsync(statement);
+        }
+        await db.runAsync(
+          `INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?);`,
+          [migration.version, migration.name, now],
         );
-      });
+      }
     });
+    console.log(`✅ Database schema at version ${SCHEMA_VERSION}`);
   }
 
-  async createTimer(timer: Omit<TimerState, 'id'>): Promise<TimerState> {
+  private getDatabase(): SQLite.SQLiteDatabase {
     if (!this.db) throw new Error('Database not initialized');
+    return this.db;
+  }
 
-    const id = `timer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const now = Math.floor(Date.now() / 1000);
+  private prepare(sql: string): Promise<SQLite.SQLiteStatement> {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.getDatabase().prepareAsync(sql);
+      // Drop failed preparations so the next call can retry
+      statement.catch(() => this.statements.delete(sql));
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `INSERT INTO timers (id, duration, start_time, is_active, remaining_time, is_notification_mode, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
-          [
-            id,
-            timer.duration,
-            timer.startTime,
-            timer.isActive ? 1 : 0,
-            timer.remainingTime,
-            timer.isNotificationMode ? 1 : 0,
-            now,
-            now,
-          ],
-          () => {
-            const newTimer: TimerState = {
-              id,
-              ...timer,
-            };
-            console.log('✅ Timer created:', id);
-            resolve(newTimer);
-          },
-          (_, error) => {
-            console.error('❌ Failed to create timer:', error);
-            reject(error);
-            return false;
-          },
-        );
-      });
+  // Queries that run straight away. Only a transaction's task gets them,
+  // as it already holds the queue.
+  private readonly queries: Queries = {
+    run: async (sql, params = []) => {
+      const statement = await this.prepare(sql);
+      const { lastInsertRowId, changes } = await statement.executeAsync(params);
+      return { lastInsertRowId, changes };
+    },
+    getFirst: async <T>(sql: string, params: SQLite.SQLiteBindValue[] = []) =>
+      (await (await this.prepare(sql)).executeAsync<T>(params)).getFirstAsync(),
+    getAll: async <T>(sql: string, params: SQLite.SQLiteBindValue[] = []) =>
+      (await (await this.prepare(sql)).executeAsync<T>(params)).getAllAsync(),
+  };
+
+  // Runs tasks one at a time in the order they were queued, so a cached
+  // statement is never stepped by two queries at once and nothing runs on
+  // the connection in the middle of a transaction
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private transaction(task: (queries: Queries) => Promise<void>) {
+    return this.serialize(() =>
+      this.getDatabase().withTransactionAsync(() => task(this.queries)),
+    );
+  }
+
+  private run(
+    sql: string,
+    params: SQLite.SQLiteBindValue[] = [],
+  ): Promise<SQLite.SQLiteRunResult> {
+    return this.serialize(() => this.queries.run(sql, params));
+  }
+
+  private getFirst<T>(
+    sql: string,
+    params: SQLite.SQLiteBindValue[] = [],
+  ): Promise<T | null> {
+    return this.serialize(() => this.queries.getFirst<T>(sql, params));
+  }
+
+  private getAll<T>(
+    sql: string,
+    params: SQLite.SQLiteBindValue[] = [],
+  ): Promise<T[]> {
+    return this.serialize(() => this.queries.getAll<T>(sql, params));
+  }
+
+  async createTimer(timer: Omit<TimerState, 'id'>): Promise<TimerState> {
+    const now = getClock().now();
+    const id = `timer_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+    let row: TimerRow | null = null;
+    await this.transaction(async (queries) => {
+      await queries.run(
+        `INSERT INTO timers (id, duration, start_time, is_active, remaining_time, is_notification_mode, created_at, updated_at, child_id, is_recurring, max_runs_per_day, pre_alert_offsets, is_snoozed, run_segments, count_up_threshold, name, adjustment)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+        [
+          id,
+          timer.duration,
+          timer.startTime,
+          timer.isActive ? 1 : 0,
+          timer.remainingTime,
+          timer.isNotificationMode ? 1 : 0,
+          now,
+          now,
+          timer.childId ?? null,
+          timer.isRecurring ? 1 : 0,
+          timer.maxRunsPerDay ?? null,
+          JSON.stringify(timer.preAlertOffsets ?? []),
+          timer.isSnoozed ? 1 : 0,
+          JSON.stringify(timer.runSegments ?? []),
+          timer.countUpThreshold ?? null,
+          timer.name ?? DEFAULT_TIMER_NAME,
+          timer.adjustment ?? 0,
+        ],
+      );
+      await queries.run(RECORD_TRANSITION_SQL, ['create', now, id]);
+      // Read back so the caller gets the stored defaults and version
+      row = await queries.getFirst<TimerRow>(
+        `SELECT * FROM timers WHERE id = ?;`,
+        [id],
+      );
     });
+
+    if (!row) throw new Error('Timer not found after create');
+    console.log('✅ Timer created:', id);
+    return mapTimerRow(row);
   }
 
   async updateTimer(
     id: string,
     updates: Partial<TimerState>,
+    event: TimerTransitionEvent = 'update',
+    expectedVersion?: number,
   ): Promise<TimerState> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const now = Math.floor(Date.now() / 1000);
-    const updateFields = [];
-    const updateValues = [];
+    const now = getClock().now();
+    const updateFields: string[] = [];
+    const updateValues: SQLite.SQLiteBindValue[] = [];
 
     if (updates.duration !== undefined) {
       updateFields.push('duration = ?');
@@ -157,196 +461,724 @@ class DatabaseService {
       updateFields.push('is_notification_mode = ?');
       updateValues.push(updates.isNotificationMode ? 1 : 0);
     }
+    if (updates.isRecurring !== undefined) {
+      updateFields.push('is_recurring = ?');
+      updateValues.push(updates.isRecurring ? 1 : 0);
+    }
+    if (updates.maxRunsPerDay !== undefined) {
+      updateFields.push('max_runs_per_day = ?');
+      updateValues.push(updates.maxRunsPerDay);
+    }
+    if (updates.preAlertOffsets !== undefined) {
+      updateFields.push('pre_alert_offsets = ?');
+      updateValues.push(JSON.stringify(updates.preAlertOffsets));
+    }
+    if (updates.isSnoozed !== undefined) {
+      updateFields.push('is_snoozed = ?');
+      updateValues.push(updates.isSnoozed ? 1 : 0);
+    }
+    if (updates.runSegments !== undefined) {
+      updateFields.push('run_segments = ?');
+      updateValues.push(JSON.stringify(updates.runSegments));
+    }
+    if (updates.countUpThreshold !== undefined) {
+      updateFields.push('count_up_threshold = ?');
+      updateValues.push(updates.countUpThreshold);
+    }
+    if (updates.adjustment !== undefined) {
+      updateFields.push('adjustment = ?');
+      updateValues.push(updates.adjustment);
+    }
+    if (updates.name !== undefined) {
+      updateFields.push('name = ?');
+      updateValues.push(updates.name);
+    }
 
-    updateFields.push('updated_at = ?');
+    updateFields.push('updated_at = ?', 'version = version + 1');
     updateValues.push(now);
     updateValues.push(id);
+    let where = 'id = ?';
+    if (expectedVersion !== undefined) {
+      where += ' AND version = ?';
+      updateValues.push(expectedVersion);
+    }
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `UPDATE timers SET ${updateFields.join(', ')} WHERE id = ?;`,
-          updateValues,
-          () => {
-            // Fetch the updated timer
-            tx.executeSql(
-              `SELECT * FROM timers WHERE id = ?;`,
-              [id],
-              (_, result) => {
-                if (result.rows.length > 0) {
-                  const row = result.rows.item(0);
-                  const timer: TimerState = {
-                    id: row.id,
-                    duration: row.duration,
-                    startTime: row.start_time,
-                    isActive: row.is_active === 1,
-                    remainingTime: row.remaining_time,
-                    isNotificationMode: row.is_notification_mode === 1,
-                  };
-                  console.log('✅ Timer updated:', id);
-                  resolve(timer);
-                } else {
-                  reject(new Error('Timer not found after update'));
-                }
-              },
-              (_, error) => {
-                console.error('❌ Failed to fetch updated timer:', error);
-                reject(error);
-                return false;
-              },
-            );
-          },
-          (_, error) => {
-            console.error('❌ Failed to update timer:', error);
-            reject(error);
-            return false;
-          },
-        );
-      });
+    let row: TimerRow | null = null;
+    await this.transaction(async (queries) => {
+      const { changes } = await queries.run(
+        `UPDATE timers SET ${updateFields.join(', ')} WHERE ${where};`,
+        updateValues,
+      );
+      // Throwing rolls the transaction back before a transition is recorded
+      if (changes === 0 && expectedVersion !== undefined) {
+        throw new StaleTimerError(id);
+      }
+      await queries.run(RECORD_TRANSITION_SQL, [event, now, id]);
+      row = await queries.getFirst<TimerRow>(
+        `SELECT * FROM timers WHERE id = ?;`,
+        [id],
+      );
     });
+
+    if (!row) throw new Error('Timer not found after update');
+    console.log('✅ Timer updated:', id);
+    return mapTimerRow(row);
   }
 
   async getTimer(id: string): Promise<TimerState | null> {
-    if (!this.db) throw new Error('Database not initialized');
+    const row = await this.getFirst<TimerRow>(
+      `SELECT * FROM timers WHERE id = ?;`,
+      [id],
+    );
+    return row ? mapTimerRow(row) : null;
+  }
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `SELECT * FROM timers WHERE id = ?;`,
-          [id],
-          (_, result) => {
-            if (result.rows.length > 0) {
-              const row = result.rows.item(0);
-              resolve({
-                id: row.id,
-                duration: row.duration,
-                startTime: row.start_time,
-                isActive: row.is_active === 1,
-                remainingTime: row.remaining_time,
-                isNotificationMode: row.is_notification_mode === 1,
-              });
-            } else {
-              resolve(null);
-            }
-          },
-          (_, error) => {
-            console.error('❌ Failed to get timer:', error);
-            reject(error);
-            return false;
-          },
+  async getCurrentTimer(
+    childId?: string,
+    name?: string,
+  ): Promise<TimerState | null> {
+    const conditions: string[] = [];
+    const params: SQLite.SQLiteBindValue[] = [];
+    if (childId) {
+      conditions.push('child_id = ?');
+      params.push(childId);
+    }
+    if (name) {
+      conditions.push('name = ?');
+      params.push(name);
+    }
+    conditions.push('archived = 0');
+    const row = await this.getFirst<TimerRow>(
+      `SELECT * FROM timers WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT 1;`,
+      params,
+    );
+    return row ? mapTimerRow(row) : null;
+  }
+
+  async getAllTimers(childId?: string): Promise<TimerState[]> {
+    const rows = childId
+      ? await this.getAll<TimerRow>(
+          `SELECT * FROM timers WHERE child_id = ? AND archived = 0 ORDER BY created_at DESC;`,
+          [childId],
+        )
+      : await this.getAll<TimerRow>(
+          `SELECT * FROM timers WHERE archived = 0 ORDER BY created_at DESC;`,
         );
-      });
+    return rows.map(mapTimerRow);
+  }
+
+  // One page of timers in creation order, served from the created_at indexes
+  async listTimers(options: TimerListOptions = {}): Promise<TimerPage> {
+    const conditions = ['archived = ?'];
+    const params: SQLite.SQLiteBindValue[] = [options.archived ? 1 : 0];
+    const descending = options.sort !== 'asc';
+    const limit = options.limit ?? DEFAULT_TIMER_PAGE_SIZE;
+
+    if (options.childId) {
+      conditions.push('child_id = ?');
+      params.push(options.childId);
+    }
+    if (options.isActive !== undefined) {
+      conditions.push('is_active = ?');
+      params.push(options.isActive ? 1 : 0);
+    }
+    if (options.createdAfter !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(options.createdAfter);
+    }
+    if (options.createdBefore !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(options.createdBefore);
+    }
+    if (options.cursor) {
+      conditions.push(`(created_at, id) ${descending ? '<' : '>'} (?, ?)`);
+      params.push(options.cursor.createdAt, options.cursor.id);
+    }
+
+    const direction = descending ? 'DESC' : 'ASC';
+
+    // Fetch one extra row to learn whether another page follows
+    const rows = await this.getAll<TimerRow>(
+      `SELECT * FROM timers WHERE ${conditions.join(' AND ')} ORDER BY created_at ${direction}, id ${direction} LIMIT ?;`,
+      [...params, limit + 1],
+    );
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      timers: page.map(mapTimerRow),
+      nextCursor:
+        rows.length > limit
+          ? encodeTimerCursor({ createdAt: last.created_at, id: last.id })
+          : null,
+    };
+  }
+
+  async deleteTimer(id: string, expectedVersion?: number): Promise<void> {
+    if (expectedVersion === undefined) {
+      await this.run(`DELETE FROM timers WHERE id = ?;`, [id]);
+    } else {
+      const { changes } = await this.run(
+        `DELETE FROM timers WHERE id = ? AND version = ?;`,
+        [id, expectedVersion],
+      );
+      if (changes === 0) throw new StaleTimerError(id);
+    }
+    console.log('✅ Timer deleted:', id);
+  }
+
+  async clearAllTimers(): Promise<void> {
+    await this.run(`DELETE FROM timers;`);
+    console.log('✅ All timers cleared');
+  }
+
+  async createChild(child: Omit<Child, 'id'>): Promise<Child> {
+    const now = getClock().now();
+    const id = `child_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+    await this.run(
+      `INSERT INTO children (id, name, avatar_emoji, default_interval, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?);`,
+      [id, child.name, child.avatarEmoji, child.defaultInterval, now, now],
+    );
+
+    console.log('✅ Child created:', id);
+    return { id, ...child };
+  }
+
+  async updateChild(
+    id: string,
+    updates: Partial<Omit<Child, 'id'>>,
+  ): Promise<Child> {
+    const now = getClock().now();
+    const updateFields: string[] = [];
+    const updateValues: SQLite.SQLiteBindValue[] = [];
+
+    if (updates.name !== undefined) {
+      updateFields.push('name = ?');
+      updateValues.push(updates.name);
+    }
+    if (updates.avatarEmoji !== undefined) {
+      updateFields.push('avatar_emoji = ?');
+      updateValues.push(updates.avatarEmoji);
+    }
+    if (updates.defaultInterval !== undefined) {
+      updateFields.push('default_interval = ?');
+      updateValues.push(updates.defaultInterval);
+    }
+
+    updateFields.push('updated_at = ?');
+    updateValues.push(now);
+    updateValues.push(id);
+
+    await this.run(
+      `UPDATE children SET ${updateFields.join(', ')} WHERE id = ?;`,
+      updateValues,
+    );
+
+    const child = await this.getChild(id);
+    if (!child) throw new Error('Child not found after update');
+    console.log('✅ Child updated:', id);
+    return child;
+  }
+
+  async getChild(id: string): Promise<Child | null> {
+    const row = await this.getFirst<ChildRow>(
+      `SELECT * FROM children WHERE id = ?;`,
+      [id],
+    );
+    return row ? mapChildRow(row) : null;
+  }
+
+  async getChildren(): Promise<Child[]> {
+    const rows = await this.getAll<ChildRow>(
+      `SELECT * FROM children ORDER BY created_at ASC;`,
+    );
+    return rows.map(mapChildRow);
+  }
+
+  // Removes a child together with their timers
+  async deleteChild(id: string): Promise<void> {
+    await this.transaction(async (queries) => {
+      await queries.run(`DELETE FROM timers WHERE child_id = ?;`, [id]);
+      await queries.run(`DELETE FROM children WHERE id = ?;`, [id]);
     });
+    console.log('✅ Child deleted:', id);
   }
 
-  async getCurrentTimer(): Promise<TimerState | null> {
-    if (!this.db) throw new Error('Database not initialized');
+  async createSchedule(
+    schedule: Omit<ScheduleTemplate, 'id'>,
+  ): Promise<ScheduleTemplate> {
+    const now = getClock().now();
+    const id = `schedule_${now}_${Math.random().toString(36).substr(2, 9)}`;
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `SELECT * FROM timers ORDER BY created_at DESC LIMIT 1;`,
-          [],
-          (_, result) => {
-            if (result.rows.length > 0) {
-              const row = result.rows.item(0);
-              resolve({
-                id: row.id,
-                duration: row.duration,
-                startTime: row.start_time,
-                isActive: row.is_active === 1,
-                remainingTime: row.remaining_time,
-                isNotificationMode: row.is_notification_mode === 1,
-              });
-            } else {
-              resolve(null);
-            }
-          },
-          (_, error) => {
-            console.error('❌ Failed to get current timer:', error);
-            reject(error);
-            return false;
-          },
+    await this.transaction(async (queries) => {
+      if (schedule.isActive) {
+        await queries.run(
+          `UPDATE schedules SET is_active = 0, updated_at = ?;`,
+          [now],
         );
-      });
+      }
+      await queries.run(
+        `INSERT INTO schedules (id, name, windows, quiet_start, quiet_end, is_active, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+        [
+          id,
+          schedule.name,
+          JSON.stringify(schedule.windows),
+          schedule.quietHours?.start ?? null,
+          schedule.quietHours?.end ?? null,
+          schedule.isActive ? 1 : 0,
+          now,
+          now,
+        ],
+      );
     });
+
+    console.log('✅ Schedule created:', id);
+    return { id, ...schedule };
   }
 
-  async getAllTimers(): Promise<TimerState[]> {
-    if (!this.db) throw new Error('Database not initialized');
+  async updateSchedule(
+    id: string,
+    updates: Partial<Omit<ScheduleTemplate, 'id'>>,
+  ): Promise<ScheduleTemplate> {
+    const now = getClock().now();
+    const updateFields: string[] = [];
+    const updateValues: SQLite.SQLiteBindValue[] = [];
+
+    if (updates.name !== undefined) {
+      updateFields.push('name = ?');
+      updateValues.push(updates.name);
+    }
+    if (updates.windows !== undefined) {
+      updateFields.push('windows = ?');
+      updateValues.push(JSON.stringify(updates.windows));
+    }
+    if (updates.quietHours !== undefined) {
+      updateFields.push('quiet_start = ?', 'quiet_end = ?');
+      updateValues.push(
+        updates.quietHours?.start ?? null,
+        updates.quietHours?.end ?? null,
+      );
+    }
+    if (updates.isActive !== undefined) {
+      updateFields.push('is_active = ?');
+      updateValues.push(updates.isActive ? 1 : 0);
+    }
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `SELECT * FROM timers ORDER BY created_at DESC;`,
-          [],
-          (_, result) => {
-            const timers: TimerState[] = [];
-            for (let i = 0; i < result.rows.length; i++) {
-              const row = result.rows.item(i);
-              timers.push({
-                id: row.id,
-                duration: row.duration,
-                startTime: row.start_time,
-                isActive: row.is_active === 1,
-                remainingTime: row.remaining_time,
-                isNotificationMode: row.is_notification_mode === 1,
-              });
-            }
-            resolve(timers);
-          },
-          (_, error) => {
-            console.error('❌ Failed to get all timers:', error);
-            reject(error);
-            return false;
-          },
+    updateFields.push('updated_at = ?');
+    updateValues.push(now);
+    updateValues.push(id);
+
+    await this.transaction(async (queries) => {
+      if (updates.isActive) {
+        await queries.run(
+          `UPDATE schedules SET is_active = 0, updated_at = ? WHERE id != ?;`,
+          [now, id],
         );
-      });
+      }
+      await queries.run(
+        `UPDATE schedules SET ${updateFields.join(', ')} WHERE id = ?;`,
+        updateValues,
+      );
     });
+
+    const schedule = await this.getSchedule(id);
+    if (!schedule) throw new Error('Schedule not found after update');
+    console.log('✅ Schedule updated:', id);
+    return schedule;
   }
 
-  async deleteTimer(id: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  async getSchedule(id: string): Promise<ScheduleTemplate | null> {
+    const row = await this.getFirst<ScheduleRow>(
+      `SELECT * FROM schedules WHERE id = ?;`,
+      [id],
+    );
+    return row ? mapScheduleRow(row) : null;
+  }
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `DELETE FROM timers WHERE id = ?;`,
-          [id],
-          () => {
-            console.log('✅ Timer deleted:', id);
-            resolve();
-          },
-          (_, error) => {
-            console.error('❌ Failed to delete timer:', error);
-            reject(error);
-            return false;
-          },
-        );
-      });
+  async getSchedules(): Promise<ScheduleTemplate[]> {
+    const rows = await this.getAll<ScheduleRow>(
+      `SELECT * FROM schedules ORDER BY created_at ASC, id ASC;`,
+    );
+    return rows.map(mapScheduleRow);
+  }
+
+  async getActiveSchedule(): Promise<ScheduleTemplate | null> {
+    const row = await this.getFirst<ScheduleRow>(
+      `SELECT * FROM schedules WHERE is_active = 1 LIMIT 1;`,
+    );
+    return row ? mapScheduleRow(row) : null;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await this.run(`DELETE FROM schedules WHERE id = ?;`, [id]);
+    console.log('✅ Schedule deleted:', id);
+  }
+
+  async getTimerTransitions(timerId: string): Promise<TimerTransition[]> {
+    const rows = await this.getAll<TimerTransitionRow>(
+      `SELECT * FROM timer_transitions WHERE timer_id = ? ORDER BY id ASC;`,
+      [timerId],
+    );
+    return rows.map(mapTimerTransitionRow);
+  }
+
+  async createEvent(event: Omit<PottyEvent, 'id'>): Promise<PottyEvent> {
+    const now = getClock().now();
+    const id = `event_${now}_${Math.random().toString(36).substr(2, 9)}`;
+
+    await this.run(
+      `INSERT INTO potty_events (id, timer_id, outcome, timestamp, note, created_at)
+       VALUES (?, ?, ?, ?, ?, ?);`,
+      [id, event.timerId, event.outcome, event.timestamp, event.note, now],
+    );
+
+    console.log('✅ Potty event logged:', id);
+    return { id, ...event };
+  }
+
+  async getEvents(
+    options: {
+      timerId?: string;
+      childId?: string;
+      outcome?: PottyOutcome;
+      limit?: number;
+    } = {},
+  ): Promise<PottyEvent[]> {
+    const conditions: string[] = [];
+    const params: SQLite.SQLiteBindValue[] = [];
+    if (options.timerId) {
+      conditions.push('timer_id = ?');
+      params.push(options.timerId);
+    }
+    if (options.childId) {
+      conditions.push('timer_id IN (SELECT id FROM timers WHERE child_id = ?)');
+      params.push(options.childId);
+    }
+    if (options.outcome) {
+      conditions.push('outcome = ?');
+      params.push(options.outcome);
+    }
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // SQLite treats a negative LIMIT as "no limit"
+    params.push(options.limit ?? -1);
+
+    const rows = await this.getAll<PottyEventRow>(
+      `SELECT * FROM potty_events ${where} ORDER BY timestamp DESC LIMIT ?;`,
+      params,
+    );
+    return rows.map(mapPottyEventRow);
+  }
+
+  async createMissedAlert(
+    alert: Omit<MissedAlert, 'id'>,
+  ): Promise<MissedAlert> {
+    const id = `missed_${alert.detectedAt}_${Math.random().toString(36).substr(2, 9)}`;
+
+    await this.run(
+      `INSERT INTO missed_alerts (id, timer_id, expired_at, detected_at)
+       VALUES (?, ?, ?, ?);`,
+      [id, alert.timerId, alert.expiredAt, alert.detectedAt],
+    );
+
+    console.log('⏰ Missed alert recorded:', id);
+    return { id, ...alert };
+  }
+
+  async getMissedAlerts(
+    options: { timerId?: string; limit?: number } = {},
+  ): Promise<MissedAlert[]> {
+    const where = options.timerId ? 'WHERE timer_id = ?' : '';
+    const params: SQLite.SQLiteBindValue[] = options.timerId
+      ? [options.timerId]
+      : [];
+    // SQLite treats a negative LIMIT as "no limit"
+    params.push(options.limit ?? -1);
+
+    const rows = await this.getAll<MissedAlertRow>(
+      `SELECT * FROM missed_alerts ${where} ORDER BY expired_at DESC LIMIT ?;`,
+      params,
+    );
+    return rows.map(mapMissedAlertRow);
+  }
+
+  async createApiToken(
+    token: Omit<ApiToken, 'id'>,
+    tokenHash: string,
+  ): Promise<ApiToken> {
+    const id = `token_${token.createdAt}_${Math.random().toString(36).substr(2, 9)}`;
+
+    await this.run(
+      `INSERT INTO api_tokens (id, name, role, token_hash, created_at, revoked_at)
+       VALUES (?, ?, ?, ?, ?, ?);`,
+      [id, token.name, token.role, tokenHash, token.createdAt, token.revokedAt],
+    );
+
+    console.log('🔑 API token minted:', id);
+    return { id, ...token };
+  }
+
+  async getApiTokens(): Promise<ApiToken[]> {
+    const rows = await this.getAll<ApiTokenRow>(
+      `SELECT * FROM api_tokens ORDER BY created_at DESC;`,
+    );
+    return rows.map(mapApiTokenRow);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const [row] = await this.getAll<ApiTokenRow>(
+      `SELECT * FROM api_tokens WHERE token_hash = ?;`,
+      [tokenHash],
+    );
+    return row ? mapApiTokenRow(row) : null;
+  }
+
+  async revokeApiToken(id: string, revokedAt: number): Promise<void> {
+    await this.run(
+      `UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL;`,
+      [revokedAt, id],
+    );
+    console.log('🔑 API token revoked:', id);
+  }
+
+  getRetentionPolicy(): RetentionPolicy {
+    return this.retentionPolicy;
+  }
+
+  setRetentionPolicy(policy: RetentionPolicy): void {
+    this.retentionPolicy = policy;
+  }
+
+  async pruneOldData(
+    policy: RetentionPolicy = this.retentionPolicy,
+  ): Promise<RetentionResult> {
+    const cutoff = retentionCutoff(policy, getClock().now());
+    const result: RetentionResult = {
+      cutoff,
+      archivedTimers: 0,
+      prunedTransitions: 0,
+      prunedEvents: 0,
+    };
+
+    await this.transaction(async (queries) => {
+      // Roll up timers before flagging them so each is counted exactly once
+      await queries.run(
+        `INSERT INTO daily_aggregates (day, timer_count, total_duration)
+         SELECT date(created_at / 1000, 'unixepoch'), COUNT(*), SUM(duration) FROM timers
+         WHERE ${STALE_TIMERS} GROUP BY 1
+         ON CONFLICT(day) DO UPDATE SET
+           timer_count = timer_count + excluded.timer_count,
+           total_duration = total_duration + excluded.total_duration;`,
+        [cutoff],
+      );
+      result.prunedTransitions = (
+        await queries.run(
+          `DELETE FROM timer_transitions WHERE timer_id IN (SELECT id FROM timers WHERE ${STALE_TIMERS});`,
+          [cutoff],
+        )
+      ).changes;
+      result.archivedTimers = (
+        await queries.run(
+          `UPDATE timers SET archived = 1 WHERE ${STALE_TIMERS};`,
+          [cutoff],
+        )
+      ).changes;
+
+      await queries.run(
+        `INSERT INTO daily_aggregates (day, success_count, accident_count, tried_nothing_count, skipped_count)
+         SELECT date(timestamp / 1000, 'unixepoch'),
+           SUM(outcome = 'success'), SUM(outcome = 'accident'),
+           SUM(outcome = 'tried-nothing'), SUM(outcome = 'skipped')
+         FROM potty_events WHERE timestamp < ? GROUP BY 1
+         ON CONFLICT(day) DO UPDATE SET
+           success_count = success_count + excluded.success_count,
+           accident_count = accident_count + excluded.accident_count,
+           tried_nothing_count = tried_nothing_count + excluded.tried_nothing_count,
+           skipped_count = skipped_count + excluded.skipped_count;`,
+        [cutoff],
+      );
+      result.prunedEvents = (
+        await queries.run(`DELETE FROM potty_events WHERE timestamp < ?;`, [
+          cutoff,
+        ])
+      ).changes;
     });
+
+    console.log('✅ Retention pass completed:', result);
+    return result;
   }
 
-  async clearAllTimers(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  async getDailyAggregates(): Promise<DailyAggregate[]> {
+    const rows = await this.getAll<DailyAggregateRow>(
+      `SELECT * FROM daily_aggregates ORDER BY day DESC;`,
+    );
+    return rows.map(mapDailyAggregateRow);
+  }
+
+  async exportData(): Promise<BackupData> {
+    const [
+      timers,
+      children,
+      events,
+      transitions,
+      dailyAggregates,
+      schedules,
+      missedAlerts,
+    ] = await Promise.all([
+      this.getAll<TimerRow>(
+        `SELECT * FROM timers ORDER BY created_at ASC, id ASC;`,
+      ),
+      this.getAll<ChildRow>(`SELECT * FROM children ORDER BY created_at ASC;`),
+      this.getAll<PottyEventRow>(
+        `SELECT * FROM potty_events ORDER BY timestamp ASC;`,
+      ),
+      this.getAll<TimerTransitionRow>(
+        `SELECT * FROM timer_transitions ORDER BY id ASC;`,
+      ),
+      this.getAll<DailyAggregateRow>(
+        `SELECT * FROM daily_aggregates ORDER BY day ASC;`,
+      ),
+      this.getAll<ScheduleRow>(
+        `SELECT * FROM schedules ORDER BY created_at ASC;`,
+      ),
+      this.getAll<MissedAlertRow>(
+        `SELECT * FROM missed_alerts ORDER BY detected_at ASC;`,
+      ),
+    ]);
+
+    return {
+      timers: timers.map(mapBackupTimerRow),
+      children: children.map(mapChildRow),
+      events: events.map(mapPottyEventRow),
+      transitions: transitions.map(mapTimerTransitionRow),
+      dailyAggregates: dailyAggregates.map(mapDailyAggregateRow),
+      schedules: schedules.map(mapScheduleRow),
+      missedAlerts: missedAlerts.map(mapMissedAlertRow),
+    };
+  }
+
+  async importData(data: BackupData): Promise<void> {
+    const now = getClock().now();
 
-    return new Promise((resolve, reject) => {
-      this.db!.transaction((tx) => {
-        tx.executeSql(
-          `DELETE FROM timers;`,
-          [],
-          () => {
-            console.log('✅ All timers cleared');
-            resolve();
-          },
-          (_, error) => {
-            console.error('❌ Failed to clear all timers:', error);
-            reject(error);
-            return false;
-          },
+    await this.transaction(async (queries) => {
+      // Children first so imported timers can reference them
+      for (const child of data.children) {
+        await queries.run(
+          `INSERT INTO children (id, name, avatar_emoji, default_interval, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?);`,
+          [
+            child.id,
+            child.name,
+            child.avatarEmoji,
+            child.defaultInterval,
+            now,
+            now,
+          ],
         );
-      });
+      }
+      for (const timer of data.timers) {
+        await queries.run(
+          `INSERT INTO timers (id, duration, start_time, is_active, remaining_time, is_notification_mode, created_at, updated_at, child_id, archived, is_recurring, max_runs_per_day, pre_alert_offsets, is_snoozed, run_segments, count_up_threshold, name, adjustment)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+          [
+            timer.id,
+            timer.duration,
+            timer.startTime,
+            timer.isActive ? 1 : 0,
+            timer.remainingTime,
+            timer.isNotificationMode ? 1 : 0,
+            timer.createdAt,
+            now,
+            timer.childId,
+            timer.archived ? 1 : 0,
+            timer.isRecurring ? 1 : 0,
+            timer.maxRunsPerDay ?? null,
+            JSON.stringify(timer.preAlertOffsets ?? []),
+            timer.isSnoozed ? 1 : 0,
+            JSON.stringify(timer.runSegments ?? []),
+            timer.countUpThreshold ?? null,
+            timer.name ?? DEFAULT_TIMER_NAME,
+            timer.adjustment ?? 0,
+          ],
+        );
+      }
+      // Transition ids are local, so the log gets fresh ones
+      for (const transition of data.transitions) {
+        await queries.run(
+          `INSERT INTO timer_transitions (timer_id, event, occurred_at, duration, start_time, is_active, remaining_time, is_notification_mode)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+          [
+            transition.timerId,
+            transition.event,
+            transition.occurredAt,
+            transition.duration,
+            transition.startTime,
+            transition.isActive ? 1 : 0,
+            transition.remainingTime,
+            transition.isNotificationMode ? 1 : 0,
+          ],
+        );
+      }
+      // Backups leave out when an event was stored, so this import counts
+      const importedAt = getClock().now();
+      for (const event of data.events) {
+        await queries.run(
+          `INSERT INTO potty_events (id, timer_id, outcome, timestamp, note, created_at)
+           VALUES (?, ?, ?, ?, ?, ?);`,
+          [
+            event.id,
+            event.timerId,
+            event.outcome,
+            event.timestamp,
+            event.note,
+            importedAt,
+          ],
+        );
+      }
+      for (const aggregate of data.dailyAggregates) {
+        await queries.run(
+          `INSERT INTO daily_aggregates (day, timer_count, total_duration, success_count, accident_count, tried_nothing_count, skipped_count)
+           VALUES (?, ?, ?, ?, ?, ?, ?);`,
+          [
+            aggregate.day,
+            aggregate.timerCount,
+            aggregate.totalDuration,
+            aggregate.successCount,
+            aggregate.accidentCount,
+            aggregate.triedNothingCount,
+            aggregate.skippedCount,
+          ],
+        );
+      }
+      for (const schedule of data.schedules) {
+        await queries.run(
+          `INSERT INTO schedules (id, name, windows, quiet_start, quiet_end, is_active, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+          [
+            schedule.id,
+            schedule.name,
+            JSON.stringify(schedule.windows),
+            schedule.quietHours?.start ?? null,
+            schedule.quietHours?.end ?? null,
+            schedule.isActive ? 1 : 0,
+            now,
+            now,
+          ],
+        );
+      }
+      for (const alert of data.missedAlerts) {
+        await queries.run(
+          `INSERT INTO missed_alerts (id, timer_id, expired_at, detected_at)
+           VALUES (?, ?, ?, ?);`,
+          [alert.id, alert.timerId, alert.expiredAt, alert.detectedAt],
+        );
+      }
     });
+
+    console.log('✅ Backup imported');
   }
 }
 
@@ -0,0 +1,39 @@
+import { TimerState } from '../contexts/TimerContext';
+
+// Optimistic concurrency for timer routes. A timer's version is its ETag, and
+// a change sent with If-Match is refused with 412 once the timer has moved on,
+// instead of silently overwriting someone else's change.
+
+// A strong ETag of the timer's version, e.g. "3"
+export const timerETag = (timer: TimerState): string =>
+  `"${timer.version ?? 1}"`;
+
+// The 412 answer. Given the timer as it now stands, it carries that ETag so
+// the client can retry without fetching first.
+export function preconditionFailed(timer?: TimerState): Response {
+  return Response.json(
+    {
+      success: false,
+      error:
+        'Timer has changed since it was fetched. Fetch it again and retry.',
+    },
+    { status: 412, ...(timer ? { headers: { ETag: timerETag(timer) } } : {}) },
+  );
+}
+
+// Checks the request's If-Match against the timer. Gives the 412 to answer
+// with, or the version the update has to find still in place (none without
+// If-Match). Weak ETags never match, as If-Match compares strongly.
+export function checkIfMatch(
+  request: Request,
+  timer: TimerState,
+): { expectedVersion?: number } | { failed: Response } {
+  const header = request.headers.get('If-Match');
+  if (header === null) return {};
+
+  const tags = header.split(',').map((tag) => tag.trim());
+  if (!tags.includes('*') && !tags.includes(timerETag(timer))) {
+    return { failed: preconditionFailed(timer) };
+  }
+  return { expectedVersion: timer.version ?? 1 };
+}
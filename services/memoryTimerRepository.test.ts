@@ -0,0 +1,429 @@
+/**
+ * @jest-environment node
+ */
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { decodeTimerCursor, StaleTimerError } from './timerRepository';
+
+describe('InMemoryTimerRepository', () => {
+  let repository: InMemoryTimerRepository;
+
+  const timerData = {
+    duration: 3600,
+    startTime: 1700000000000,
+    isActive: false,
+    remainingTime: 3600,
+    isNotificationMode: false,
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryTimerRepository();
+
+    // Math.random is fixed in jest-setup, so ids only differ by timestamp
+    let now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('timers', () => {
+    it('should create and fetch a timer', async () => {
+      const created = await repository.createTimer(timerData);
+
+      expect(created).toEqual({
+        id: expect.stringMatching(/^timer_\d+_[a-z0-9]+$/),
+        ...timerData,
+        childId: null,
+        isRecurring: false,
+        maxRunsPerDay: null,
+        preAlertOffsets: [],
+        isSnoozed: false,
+        runSegments: [],
+        countUpThreshold: null,
+        name: 'Potty',
+        adjustment: 0,
+        version: 1,
+      });
+      expect(await repository.getTimer(created.id)).toEqual(created);
+    });
+
+    it('should return the most recently created timer as current', async () => {
+      await repository.createTimer(timerData);
+      const latest = await repository.createTimer({
+        ...timerData,
+        duration: 1800,
+      });
+
+      const current = await repository.getCurrentTimer();
+      const all = await repository.getAllTimers();
+
+      expect(current?.id).toBe(latest.id);
+      expect(all.map((timer) => timer.duration)).toEqual([1800, 3600]);
+    });
+
+    it('should scope timers to a child', async () => {
+      await repository.createTimer(timerData);
+      const childTimer = await repository.createTimer({
+        ...timerData,
+        childId: 'child_1',
+      });
+
+      expect(await repository.getAllTimers('child_1')).toEqual([
+        expect.objectContaining({ id: childTimer.id }),
+      ]);
+      expect(await repository.getCurrentTimer('child_2')).toBeNull();
+    });
+
+    it('should list timers a page at a time', async () => {
+      const created = [];
+      for (let i = 0; i < 5; i++) {
+        created.push(await repository.createTimer(timerData));
+      }
+      // All five share a creation second, so ids decide the order
+      const newestFirst = created
+        .map((timer) => timer.id)
+        .sort()
+        .reverse();
+
+      const first = await repository.listTimers({ limit: 2 });
+      const second = await repository.listTimers({
+        limit: 2,
+        cursor: decodeTimerCursor(first.nextCursor!)!,
+      });
+      const last = await repository.listTimers({
+        limit: 2,
+        cursor: decodeTimerCursor(second.nextCursor!)!,
+      });
+
+      expect(
+        [...first.timers, ...second.timers, ...last.timers].map(
+          (timer) => timer.id,
+        ),
+      ).toEqual(newestFirst);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('should filter listed timers', async () => {
+      const running = await repository.createTimer({
+        ...timerData,
+        isActive: true,
+      });
+      await repository.createTimer(timerData);
+      const createdAt = Date.now();
+
+      expect((await repository.listTimers({ isActive: true })).timers).toEqual([
+        expect.objectContaining({ id: running.id }),
+      ]);
+      expect(
+        (await repository.listTimers({ createdAfter: createdAt + 1 })).timers,
+      ).toEqual([]);
+      expect(
+        (await repository.listTimers({ createdBefore: createdAt + 1 })).timers,
+      ).toHaveLength(2);
+    });
+
+    it('should update a timer and keep its id', async () => {
+      const created = await repository.createTimer(timerData);
+
+      const updated = await repository.updateTimer(
+        created.id,
+        { id: 'other', isActive: true, startTime: 1700000005000 },
+        'start',
+      );
+
+      expect(updated).toEqual({
+        ...created,
+        childId: null,
+        isRecurring: false,
+        maxRunsPerDay: null,
+        preAlertOffsets: [],
+        isSnoozed: false,
+        runSegments: [],
+        countUpThreshold: null,
+        name: 'Potty',
+        adjustment: 0,
+        isActive: true,
+        startTime: 1700000005000,
+        version: 2,
+      });
+    });
+
+    it('should refuse an update when the timer has moved on', async () => {
+      const created = await repository.createTimer(timerData);
+      await repository.updateTimer(created.id, { isActive: true }, 'start', 1);
+
+      await expect(
+        repository.updateTimer(created.id, { isActive: false }, 'pause', 1),
+      ).rejects.toThrow(StaleTimerError);
+      const timer = await repository.getTimer(created.id);
+      expect(timer).toMatchObject({ isActive: true, version: 2 });
+      expect(
+        (await repository.getTimerTransitions(created.id)).map(
+          (transition) => transition.event,
+        ),
+      ).toEqual(['create', 'start']);
+    });
+
+    it('should throw when updating a missing timer', async () => {
+      await expect(
+        repository.updateTimer('timer_missing', { isActive: true }),
+      ).rejects.toThrow('Timer not found after update');
+    });
+
+    it('should not leak internal state through returned objects', async () => {
+      const created = await repository.createTimer(timerData);
+      const fetched = await repository.getTimer(created.id);
+      fetched!.isActive = true;
+
+      expect((await repository.getTimer(created.id))?.isActive).toBe(false);
+    });
+
+    it('should delete and clear timers', async () => {
+      const first = await repository.createTimer(timerData);
+      await repository.createTimer(timerData);
+
+      await repository.deleteTimer(first.id);
+      expect(await repository.getAllTimers()).toHaveLength(1);
+
+      await repository.clearAllTimers();
+      expect(await repository.getAllTimers()).toEqual([]);
+    });
+
+    it('should record a transition for every change', async () => {
+      const created = await repository.createTimer(timerData);
+      await repository.updateTimer(created.id, { isActive: true }, 'start');
+      await repository.updateTimer(created.id, { isActive: false }, 'pause');
+
+      const transitions = await repository.getTimerTransitions(created.id);
+
+      expect(transitions.map((transition) => transition.event)).toEqual([
+        'create',
+        'start',
+        'pause',
+      ]);
+      expect(transitions[1]).toMatchObject({
+        id: 2,
+        timerId: created.id,
+        isActive: true,
+      });
+    });
+  });
+
+  describe('children', () => {
+    it('should create, update and list children in creation order', async () => {
+      const ava = await repository.createChild({
+        name: 'Ava',
+        avatarEmoji: '🦄',
+        defaultInterval: 2700,
+      });
+      await repository.createChild({
+        name: 'Leo',
+        avatarEmoji: '🦖',
+        defaultInterval: 3600,
+      });
+
+      const updated = await repository.updateChild(ava.id, { name: 'Ava B.' });
+
+      expect(updated).toEqual({ ...ava, name: 'Ava B.' });
+      expect(
+        (await repository.getChildren()).map((child) => child.name),
+      ).toEqual(['Ava B.', 'Leo']);
+    });
+
+    it('should delete a child together with their timers', async () => {
+      const child = await repository.createChild({
+        name: 'Ava',
+        avatarEmoji: '🦄',
+        defaultInterval: 2700,
+      });
+      await repository.createTimer({ ...timerData, childId: child.id });
+      await repository.createTimer(timerData);
+
+      await repository.deleteChild(child.id);
+
+      expect(await repository.getChild(child.id)).toBeNull();
+      expect(await repository.getAllTimers()).toHaveLength(1);
+    });
+  });
+
+  describe('schedules', () => {
+    const scheduleData = {
+      name: 'Weekdays',
+      windows: [{ start: '07:00', end: '12:00', interval: 2700 }],
+      quietHours: null,
+      isActive: true,
+    };
+
+    it('should keep at most one template active', async () => {
+      const weekdays = await repository.createSchedule(scheduleData);
+      const weekend = await repository.createSchedule({
+        ...scheduleData,
+        name: 'Weekend',
+      });
+
+      expect((await repository.getActiveSchedule())?.id).toBe(weekend.id);
+
+      await repository.updateSchedule(weekdays.id, { isActive: true });
+
+      expect(
+        (await repository.getSchedules()).map((schedule) => schedule.isActive),
+      ).toEqual([true, false]);
+    });
+
+    it('should not leak windows through returned templates', async () => {
+      const created = await repository.createSchedule(scheduleData);
+      const fetched = await repository.getSchedule(created.id);
+      fetched!.windows[0].interval = 60;
+
+      expect((await repository.getSchedule(created.id))?.windows).toEqual(
+        scheduleData.windows,
+      );
+    });
+
+    it('should delete a template', async () => {
+      const created = await repository.createSchedule(scheduleData);
+
+      await repository.deleteSchedule(created.id);
+
+      expect(await repository.getActiveSchedule()).toBeNull();
+    });
+  });
+
+  describe('potty events', () => {
+    it('should return events newest first with filters applied', async () => {
+      await repository.createEvent({
+        timerId: 'timer_1',
+        outcome: 'success',
+        timestamp: 1000,
+        note: null,
+      });
+      await repository.createEvent({
+        timerId: 'timer_1',
+        outcome: 'accident',
+        timestamp: 3000,
+        note: 'At the park',
+      });
+      await repository.createEvent({
+        timerId: 'timer_2',
+        outcome: 'skipped',
+        timestamp: 2000,
+        note: null,
+      });
+
+      const all = await repository.getEvents();
+      const filtered = await repository.getEvents({
+        timerId: 'timer_1',
+        limit: 1,
+      });
+
+      expect(all.map((event) => event.timestamp)).toEqual([3000, 2000, 1000]);
+      expect(filtered).toEqual([
+        expect.objectContaining({ outcome: 'accident', timestamp: 3000 }),
+      ]);
+    });
+  });
+
+  describe('retention', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    it('should archive old timers and roll old events into daily aggregates', async () => {
+      // Date.now() counts up from 1700000000000 (2023-11-14) in these tests
+      const old = await repository.createTimer(timerData);
+      await repository.updateTimer(old.id, { isActive: true }, 'start');
+      await repository.updateTimer(old.id, { isActive: false }, 'pause');
+      await repository.createEvent({
+        timerId: old.id,
+        outcome: 'success',
+        timestamp: Date.now(),
+        note: null,
+      });
+
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000 + 100 * day);
+      const recent = await repository.createTimer(timerData);
+
+      const result = await repository.pruneOldData({ detailDays: 90 });
+
+      expect(result).toMatchObject({
+        archivedTimers: 1,
+        prunedTransitions: 3,
+        prunedEvents: 1,
+      });
+      expect(await repository.getDailyAggregates()).toEqual([
+        {
+          day: '2023-11-14',
+          timerCount: 1,
+          totalDuration: 3600,
+          successCount: 1,
+          accidentCount: 0,
+          triedNothingCount: 0,
+          skippedCount: 0,
+        },
+      ]);
+
+      // Archived timers are kept but left out of normal listings
+      expect(await repository.getTimer(old.id)).not.toBeNull();
+      expect(await repository.getTimerTransitions(old.id)).toEqual([]);
+      expect((await repository.getAllTimers()).map((t) => t.id)).toEqual([
+        recent.id,
+      ]);
+      expect(
+        (await repository.listTimers({ archived: true })).timers.map(
+          (t) => t.id,
+        ),
+      ).toEqual([old.id]);
+      expect(await repository.getEvents()).toEqual([]);
+    });
+
+    it('should count each timer only once across passes', async () => {
+      await repository.createTimer(timerData);
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000 + 100 * day);
+      await repository.createTimer(timerData);
+
+      await repository.pruneOldData({ detailDays: 90 });
+      const second = await repository.pruneOldData({ detailDays: 90 });
+
+      expect(second.archivedTimers).toBe(0);
+      expect((await repository.getDailyAggregates())[0].timerCount).toBe(1);
+    });
+
+    it('should keep old timers that are running or current', async () => {
+      const running = await repository.createTimer({
+        ...timerData,
+        isActive: true,
+      });
+      const medicine = await repository.createTimer({
+        ...timerData,
+        name: 'Medicine',
+      });
+      const used = await repository.createTimer(timerData);
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000 + 100 * day);
+      await repository.updateTimer(used.id, { isActive: true }, 'start');
+      await repository.updateTimer(used.id, { isActive: false }, 'pause');
+      await repository.createTimer(timerData);
+
+      const result = await repository.pruneOldData({ detailDays: 90 });
+
+      // The running one, the only Medicine timer and the one used since the
+      // cutoff all stay, though every one was created 100 days ago
+      expect(result.archivedTimers).toBe(0);
+      const kept = (await repository.getAllTimers()).map((timer) => timer.id);
+      expect(kept).toEqual(
+        expect.arrayContaining([running.id, medicine.id, used.id]),
+      );
+    });
+
+    it('should use the configured policy when initializing', async () => {
+      await repository.createTimer(timerData);
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000 + 10 * day);
+      const current = await repository.createTimer(timerData);
+      repository.setRetentionPolicy({ detailDays: 7 });
+
+      await repository.initialize();
+
+      expect((await repository.getAllTimers()).map((t) => t.id)).toEqual([
+        current.id,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,599 @@
+import {
+  TimerState,
+  Child,
+  PottyEvent,
+  PottyOutcome,
+  TimerTransition,
+  TimerTransitionEvent,
+} from '../contexts/TimerContext';
+import {
+  TimerRepository,
+  TimerListOptions,
+  TimerPage,
+  DEFAULT_TIMER_PAGE_SIZE,
+  TimerCursor,
+  encodeTimerCursor,
+  StaleTimerError,
+} from './timerRepository';
+import {
+  RetentionPolicy,
+  RetentionResult,
+  DailyAggregate,
+  DEFAULT_RETENTION_POLICY,
+  retentionCutoff,
+  dayOf,
+} from './retention';
+import { Clock, getClock } from './clock';
+import { DEFAULT_TIMER_NAME } from './namedTimers';
+import { BackupData } from './backup';
+import { ScheduleTemplate } from './schedules';
+import { MissedAlert } from './missedAlerts';
+import { ApiToken } from './apiTokens';
+
+// Orders by creation time, then id, like SQLite's ORDER BY created_at, id
+const compareTimerPositions = (a: TimerCursor, b: TimerCursor): number =>
+  a.createdAt - b.createdAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Pre-alert offsets and run segments are arrays, so timers are copied all
+// the way down
+const copyTimer = (timer: TimerState): TimerState => ({
+  ...timer,
+  ...(timer.preAlertOffsets && { preAlertOffsets: [...timer.preAlertOffsets] }),
+  ...(timer.runSegments && {
+    runSegments: timer.runSegments.map((segment) => ({ ...segment })),
+  }),
+});
+
+// Templates nest arrays and objects, so copies go all the way down
+const copySchedule = (schedule: ScheduleTemplate): ScheduleTemplate => ({
+  ...schedule,
+  windows: schedule.windows.map((window) => ({ ...window })),
+  quietHours: schedule.quietHours && { ...schedule.quietHours },
+});
+
+// Keeps everything in memory with the same behaviour as the SQLite service.
+// Nothing survives a restart, which makes it a good fit for tests and for
+// serving the API under plain Node.
+export class InMemoryTimerRepository implements TimerRepository {
+  // Maps keep insertion order, which stands in for created_at
+  private timers = new Map<string, TimerState>();
+  // Creation time, as SQLite's created_at column stores it
+  private createdAt = new Map<string, number>();
+  private archived = new Set<string>();
+  private children = new Map<string, Child>();
+  private schedules = new Map<string, ScheduleTemplate>();
+  private events: PottyEvent[] = [];
+  private missedAlerts: MissedAlert[] = [];
+  private apiTokens = new Map<string, ApiToken>();
+  // Token ids by the hash of their secret
+  private apiTokenIds = new Map<string, string>();
+  private transitions: TimerTransition[] = [];
+  private nextTransitionId = 1;
+  private aggregates = new Map<string, DailyAggregate>();
+  private retentionPolicy: RetentionPolicy = DEFAULT_RETENTION_POLICY;
+
+  // Without a clock of its own the repository follows getClock()
+  constructor(private readonly clock?: Clock) {}
+
+  async initialize(): Promise<void> {
+    await this.pruneOldData();
+  }
+
+  async createTimer(timer: Omit<TimerState, 'id'>): Promise<TimerState> {
+    const now = this.now();
+    const id = `timer_${now}_${Math.random().toString(36).substr(2, 9)}`;
+    const created = {
+      id,
+      ...timer,
+      childId: timer.childId ?? null,
+      isRecurring: timer.isRecurring ?? false,
+      maxRunsPerDay: timer.maxRunsPerDay ?? null,
+      preAlertOffsets: [...(timer.preAlertOffsets ?? [])],
+      isSnoozed: timer.isSnoozed ?? false,
+      runSegments: (timer.runSegments ?? []).map((segment) => ({
+        ...segment,
+      })),
+      countUpThreshold: timer.countUpThreshold ?? null,
+      name: timer.name ?? DEFAULT_TIMER_NAME,
+      adjustment: timer.adjustment ?? 0,
+      version: 1,
+    };
+
+    this.timers.set(id, created);
+    this.createdAt.set(id, now);
+    this.recordTransition(created, 'create');
+    return copyTimer(created);
+  }
+
+  async updateTimer(
+    id: string,
+    updates: Partial<TimerState>,
+    event: TimerTransitionEvent = 'update',
+    expectedVersion?: number,
+  ): Promise<TimerState> {
+    const timer = this.timers.get(id);
+    if (!timer) throw new Error('Timer not found after update');
+    const version = timer.version ?? 1;
+    if (expectedVersion !== undefined && expectedVersion !== version) {
+      throw new StaleTimerError(id);
+    }
+
+    // Only the timer's state can change; id and child stay fixed
+    const updated: TimerState = {
+      ...timer,
+      ...(updates.duration !== undefined && { duration: updates.duration }),
+      ...(updates.startTime !== undefined && { startTime: updates.startTime }),
+      ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+      ...(updates.remainingTime !== undefined && {
+        remainingTime: updates.remainingTime,
+      }),
+      ...(updates.isNotificationMode !== undefined && {
+        isNotificationMode: updates.isNotificationMode,
+      }),
+      ...(updates.isRecurring !== undefined && {
+        isRecurring: updates.isRecurring,
+      }),
+      ...(updates.maxRunsPerDay !== undefined && {
+        maxRunsPerDay: updates.maxRunsPerDay,
+      }),
+      ...(updates.preAlertOffsets !== undefined && {
+        preAlertOffsets: [...updates.preAlertOffsets],
+      }),
+      ...(updates.isSnoozed !== undefined && { isSnoozed: updates.isSnoozed }),
+      ...(updates.runSegments !== undefined && {
+        runSegments: updates.runSegments.map((segment) => ({ ...segment })),
+      }),
+      ...(updates.countUpThreshold !== undefined && {
+        countUpThreshold: updates.countUpThreshold,
+      }),
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.adjustment !== undefined && {
+        adjustment: updates.adjustment,
+      }),
+      version: version + 1,
+    };
+
+    this.timers.set(id, updated);
+    this.recordTransition(updated, event);
+    return copyTimer(updated);
+  }
+
+  async getTimer(id: string): Promise<TimerState | null> {
+    const timer = this.timers.get(id);
+    return timer ? copyTimer(timer) : null;
+  }
+
+  async getCurrentTimer(
+    childId?: string,
+    name?: string,
+  ): Promise<TimerState | null> {
+    const [timer] = (await this.getAllTimers(childId)).filter(
+      (timer) => !name || timer.name === name,
+    );
+    return timer ?? null;
+  }
+
+  async getAllTimers(childId?: string): Promise<TimerState[]> {
+    return [...this.timers.values()]
+      .filter(
+        (timer) =>
+          (!childId || timer.childId === childId) &&
+          !this.archived.has(timer.id),
+      )
+      .reverse()
+      .map(copyTimer);
+  }
+
+  async listTimers(options: TimerListOptions = {}): Promise<TimerPage> {
+    const descending = options.sort !== 'asc';
+    const limit = options.limit ?? DEFAULT_TIMER_PAGE_SIZE;
+    const { cursor } = options;
+
+    const positionOf = (timer: TimerState): TimerCursor => ({
+      createdAt: this.createdAt.get(timer.id)!,
+      id: timer.id,
+    });
+    // Positive when a comes after b in the requested order
+    const compare = (a: TimerCursor, b: TimerCursor) =>
+      compareTimerPositions(a, b) * (descending ? -1 : 1);
+
+    const matching = [...this.timers.values()]
+      .filter((timer) => {
+        const position = positionOf(timer);
+        return (
+          this.archived.has(timer.id) === (options.archived ?? false) &&
+          (!options.childId || timer.childId === options.childId) &&
+          (options.isActive === undefined ||
+            timer.isActive === options.isActive) &&
+          (options.createdAfter === undefined ||
+            position.createdAt >= options.createdAfter) &&
+          (options.createdBefore === undefined ||
+            position.createdAt < options.createdBefore) &&
+          (!cursor || compare(position, cursor) > 0)
+        );
+      })
+      .sort((a, b) => compare(positionOf(a), positionOf(b)));
+
+    const page = matching.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      timers: page.map(copyTimer),
+      nextCursor:
+        matching.length > limit ? encodeTimerCursor(positionOf(last)) : null,
+    };
+  }
+
+  async deleteTimer(id: string, expectedVersion?: number): Promise<void> {
+    const timer = this.timers.get(id);
+    if (
+      expectedVersion !== undefined &&
+      (!timer || (timer.version ?? 1) !== expectedVersion)
+    ) {
+      throw new StaleTimerError(id);
+    }
+    this.timers.delete(id);
+    this.createdAt.delete(id);
+    this.archived.delete(id);
+  }
+
+  async clearAllTimers(): Promise<void> {
+    this.timers.clear();
+    this.createdAt.clear();
+    this.archived.clear();
+  }
+
+  async getTimerTransitions(timerId: string): Promise<TimerTransition[]> {
+    return this.transitions
+      .filter((transition) => transition.timerId === timerId)
+      .map((transition) => ({ ...transition }));
+  }
+
+  async createChild(child: Omit<Child, 'id'>): Promise<Child> {
+    const id = `child_${this.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.children.set(id, { id, ...child });
+    return { id, ...child };
+  }
+
+  async updateChild(
+    id: string,
+    updates: Partial<Omit<Child, 'id'>>,
+  ): Promise<Child> {
+    const child = this.children.get(id);
+    if (!child) throw new Error('Child not found after update');
+
+    const updated: Child = {
+      ...child,
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.avatarEmoji !== undefined && {
+        avatarEmoji: updates.avatarEmoji,
+      }),
+      ...(updates.defaultInterval !== undefined && {
+        defaultInterval: updates.defaultInterval,
+      }),
+    };
+
+    this.children.set(id, updated);
+    return { ...updated };
+  }
+
+  async getChild(id: string): Promise<Child | null> {
+    const child = this.children.get(id);
+    return child ? { ...child } : null;
+  }
+
+  async getChildren(): Promise<Child[]> {
+    return [...this.children.values()].map((child) => ({ ...child }));
+  }
+
+  async deleteChild(id: string): Promise<void> {
+    for (const timer of [...this.timers.values()]) {
+      if (timer.childId === id) await this.deleteTimer(timer.id);
+    }
+    this.children.delete(id);
+  }
+
+  async createSchedule(
+    schedule: Omit<ScheduleTemplate, 'id'>,
+  ): Promise<ScheduleTemplate> {
+    const id = `schedule_${this.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (schedule.isActive) this.deactivateSchedules();
+    this.schedules.set(id, copySchedule({ id, ...schedule }));
+    return copySchedule({ id, ...schedule });
+  }
+
+  async updateSchedule(
+    id: string,
+    updates: Partial<Omit<ScheduleTemplate, 'id'>>,
+  ): Promise<ScheduleTemplate> {
+    const schedule = this.schedules.get(id);
+    if (!schedule) throw new Error('Schedule not found after update');
+
+    if (updates.isActive) this.deactivateSchedules();
+    const updated = copySchedule({
+      ...schedule,
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.windows !== undefined && { windows: updates.windows }),
+      ...(updates.quietHours !== undefined && {
+        quietHours: updates.quietHours,
+      }),
+      ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+    });
+
+    this.schedules.set(id, updated);
+    return copySchedule(updated);
+  }
+
+  async getSchedule(id: string): Promise<ScheduleTemplate | null> {
+    const schedule = this.schedules.get(id);
+    return schedule ? copySchedule(schedule) : null;
+  }
+
+  async getSchedules(): Promise<ScheduleTemplate[]> {
+    return [...this.schedules.values()].map(copySchedule);
+  }
+
+  async getActiveSchedule(): Promise<ScheduleTemplate | null> {
+    const active = [...this.schedules.values()].find(
+      (schedule) => schedule.isActive,
+    );
+    return active ? copySchedule(active) : null;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    this.schedules.delete(id);
+  }
+
+  async createEvent(event: Omit<PottyEvent, 'id'>): Promise<PottyEvent> {
+    const id = `event_${this.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.events.push({ id, ...event });
+    return { id, ...event };
+  }
+
+  async getEvents(
+    options: {
+      timerId?: string;
+      childId?: string;
+      outcome?: PottyOutcome;
+      limit?: number;
+    } = {},
+  ): Promise<PottyEvent[]> {
+    return this.events
+      .filter((event) => !options.timerId || event.timerId === options.timerId)
+      .filter(
+        (event) =>
+          !options.childId ||
+          (event.timerId !== null &&
+            this.timers.get(event.timerId)?.childId === options.childId),
+      )
+      .filter((event) => !options.outcome || event.outcome === options.outcome)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, options.limit)
+      .map((event) => ({ ...event }));
+  }
+
+  async createMissedAlert(
+    alert: Omit<MissedAlert, 'id'>,
+  ): Promise<MissedAlert> {
+    const id = `missed_${alert.detectedAt}_${Math.random().toString(36).substr(2, 9)}`;
+    this.missedAlerts.push({ id, ...alert });
+    return { id, ...alert };
+  }
+
+  async getMissedAlerts(
+    options: { timerId?: string; limit?: number } = {},
+  ): Promise<MissedAlert[]> {
+    return this.missedAlerts
+      .filter((alert) => !options.timerId || alert.timerId === options.timerId)
+      .sort((a, b) => b.expiredAt - a.expiredAt)
+      .slice(0, options.limit)
+      .map((alert) => ({ ...alert }));
+  }
+
+  async createApiToken(
+    token: Omit<ApiToken, 'id'>,
+    tokenHash: string,
+  ): Promise<ApiToken> {
+    const id = `token_${token.createdAt}_${Math.random().toString(36).substr(2, 9)}`;
+    this.apiTokens.set(id, { id, ...token });
+    this.apiTokenIds.set(tokenHash, id);
+    return { id, ...token };
+  }
+
+  async getApiTokens(): Promise<ApiToken[]> {
+    return [...this.apiTokens.values()]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((token) => ({ ...token }));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const token = this.apiTokens.get(this.apiTokenIds.get(tokenHash) ?? '');
+    return token ? { ...token } : null;
+  }
+
+  async revokeApiToken(id: string, revokedAt: number): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token && token.revokedAt === null) token.revokedAt = revokedAt;
+  }
+
+  getRetentionPolicy(): RetentionPolicy {
+    return this.retentionPolicy;
+  }
+
+  setRetentionPolicy(policy: RetentionPolicy): void {
+    this.retentionPolicy = policy;
+  }
+
+  async pruneOldData(
+    policy: RetentionPolicy = this.retentionPolicy,
+  ): Promise<RetentionResult> {
+    const cutoff = retentionCutoff(policy, this.now());
+    const result: RetentionResult = {
+      cutoff,
+      archivedTimers: 0,
+      prunedTransitions: 0,
+      prunedEvents: 0,
+    };
+
+    // Each child's newest timer of each name is a current one
+    const current = new Map<string, string>();
+    for (const timer of this.timers.values()) {
+      if (this.archived.has(timer.id)) continue;
+      current.set(`${timer.childId ?? ''}:${timer.name}`, timer.id);
+    }
+    const currentIds = new Set(current.values());
+
+    // Timers still in use, or used since the cutoff, are kept whatever
+    // their age
+    for (const timer of this.timers.values()) {
+      if (
+        this.archived.has(timer.id) ||
+        currentIds.has(timer.id) ||
+        timer.isActive ||
+        timer.isNotificationMode ||
+        this.lastActivityAt(timer.id) >= cutoff
+      )
+        continue;
+      const createdAt = this.createdAt.get(timer.id)!;
+
+      const aggregate = this.aggregateFor(dayOf(createdAt));
+      aggregate.timerCount += 1;
+      aggregate.totalDuration += timer.duration;
+
+      const transitionCount = this.transitions.length;
+      this.transitions = this.transitions.filter(
+        (transition) => transition.timerId !== timer.id,
+      );
+      result.prunedTransitions += transitionCount - this.transitions.length;
+
+      this.archived.add(timer.id);
+      result.archivedTimers += 1;
+    }
+
+    const expired = this.events.filter((event) => event.timestamp < cutoff);
+    for (const event of expired) {
+      const aggregate = this.aggregateFor(dayOf(event.timestamp));
+      if (event.outcome === 'success') aggregate.successCount += 1;
+      if (event.outcome === 'accident') aggregate.accidentCount += 1;
+      if (event.outcome === 'tried-nothing') aggregate.triedNothingCount += 1;
+      if (event.outcome === 'skipped') aggregate.skippedCount += 1;
+    }
+    this.events = this.events.filter((event) => event.timestamp >= cutoff);
+    result.prunedEvents = expired.length;
+
+    return result;
+  }
+
+  async getDailyAggregates(): Promise<DailyAggregate[]> {
+    return [...this.aggregates.values()]
+      .sort((a, b) => (a.day < b.day ? 1 : a.day > b.day ? -1 : 0))
+      .map((aggregate) => ({ ...aggregate }));
+  }
+
+  async exportData(): Promise<BackupData> {
+    return {
+      // The version only guards live edits, so backups leave it out
+      timers: [...this.timers.values()].map(({ version, ...timer }) => ({
+        ...copyTimer(timer),
+        childId: timer.childId ?? null,
+        createdAt: this.createdAt.get(timer.id)!,
+        archived: this.archived.has(timer.id),
+      })),
+      children: await this.getChildren(),
+      events: [...this.events]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map((event) => ({ ...event })),
+      transitions: this.transitions.map((transition) => ({ ...transition })),
+      dailyAggregates: (await this.getDailyAggregates()).reverse(),
+      schedules: [...this.schedules.values()].map(copySchedule),
+      missedAlerts: [...this.missedAlerts]
+        .sort((a, b) => a.detectedAt - b.detectedAt)
+        .map((alert) => ({ ...alert })),
+    };
+  }
+
+  async importData(data: BackupData): Promise<void> {
+    for (const child of data.children) {
+      this.children.set(child.id, { ...child });
+    }
+    for (const { createdAt, archived, ...timer } of data.timers) {
+      this.timers.set(timer.id, { ...copyTimer(timer), version: 1 });
+      this.createdAt.set(timer.id, createdAt);
+      if (archived) this.archived.add(timer.id);
+    }
+    // Restore creation order, which getAllTimers relies on
+    this.timers = new Map(
+      [...this.timers.entries()].sort(([a], [b]) =>
+        compareTimerPositions(
+          { createdAt: this.createdAt.get(a)!, id: a },
+          { createdAt: this.createdAt.get(b)!, id: b },
+        ),
+      ),
+    );
+    for (const transition of data.transitions) {
+      this.transitions.push({ ...transition, id: this.nextTransitionId++ });
+    }
+    this.events.push(...data.events.map((event) => ({ ...event })));
+    for (const aggregate of data.dailyAggregates) {
+      this.aggregates.set(aggregate.day, { ...aggregate });
+    }
+    for (const schedule of data.schedules) {
+      this.schedules.set(schedule.id, copySchedule(schedule));
+    }
+    this.missedAlerts.push(...data.missedAlerts.map((alert) => ({ ...alert })));
+  }
+
+  private deactivateSchedules(): void {
+    for (const schedule of this.schedules.values()) schedule.isActive = false;
+  }
+
+  private now(): number {
+    return (this.clock ?? getClock()).now();
+  }
+
+  private aggregateFor(day: string): DailyAggregate {
+    let aggregate = this.aggregates.get(day);
+    if (!aggregate) {
+      aggregate = {
+        day,
+        timerCount: 0,
+        totalDuration: 0,
+        successCount: 0,
+        accidentCount: 0,
+        triedNothingCount: 0,
+        skippedCount: 0,
+      };
+      this.aggregates.set(day, aggregate);
+    }
+    return aggregate;
+  }
+
+  // When the timer last changed: its latest transition, or its creation when
+  // it has none
+  private lastActivityAt(timerId: string): number {
+    return this.transitions.reduce(
+      (latest, transition) =>
+        transition.timerId === timerId
+          ? Math.max(latest, transition.occurredAt)
+          : latest,
+      this.createdAt.get(timerId)!,
+    );
+  }
+
+  private recordTransition(
+    timer: TimerState,
+    event: TimerTransitionEvent,
+  ): void {
+    this.transitions.push({
+      id: this.nextTransitionId++,
+      timerId: timer.id,
+      event,
+      occurredAt: this.now(),
+      duration: timer.duration,
+      startTime: timer.startTime,
+      isActive: timer.isActive,
+      remainingTime: timer.remainingTime,
+      isNotificationMode: timer.isNotificationMode,
+    });
+  }
+}
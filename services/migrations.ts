@@ -0,0 +1,305 @@
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+// The current time in milliseconds, as a column default
+const NOW_MS = `(CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER))`;
+
+// Ordered list of schema migrations. Never edit a migration that has shipped;
+// append a new one with the next version number instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_timers',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS timers (
+        id TEXT PRIMARY KEY,
+        duration INTEGER NOT NULL,
+        start_time INTEGER NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 0,
+        remaining_time INTEGER NOT NULL,
+        is_notification_mode INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+        updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_active ON timers(is_active);`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'create_potty_events',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS potty_events (
+        id TEXT PRIMARY KEY,
+        timer_id TEXT,
+        outcome TEXT NOT NULL CHECK (outcome IN ('success', 'accident', 'tried-nothing', 'skipped')),
+        timestamp INTEGER NOT NULL,
+        note TEXT,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_potty_events_timestamp ON potty_events(timestamp);`,
+      `CREATE INDEX IF NOT EXISTS idx_potty_events_timer ON potty_events(timer_id);`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'create_timer_transitions',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS timer_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timer_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        occurred_at INTEGER NOT NULL,
+        duration INTEGER NOT NULL,
+        start_time INTEGER NOT NULL,
+        is_active INTEGER NOT NULL,
+        remaining_time INTEGER NOT NULL,
+        is_notification_mode INTEGER NOT NULL
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_timer_transitions_timer ON timer_transitions(timer_id, id);`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'create_children',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS children (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        avatar_emoji TEXT NOT NULL DEFAULT '🧒',
+        default_interval INTEGER NOT NULL DEFAULT 3600,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+        updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+      );`,
+      `ALTER TABLE timers ADD COLUMN child_id TEXT REFERENCES children(id);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_child ON timers(child_id, created_at);`,
+    ],
+  },
+  {
+    version: 5,
+    name: 'index_timers_for_pagination',
+    statements: [
+      `CREATE INDEX IF NOT EXISTS idx_timers_created ON timers(created_at, id);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_active_created ON timers(is_active, created_at, id);`,
+    ],
+  },
+  {
+    version: 6,
+    name: 'add_timer_archival',
+    statements: [
+      `ALTER TABLE timers ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_archived_created ON timers(archived, created_at, id);`,
+      `CREATE TABLE IF NOT EXISTS daily_aggregates (
+        day TEXT PRIMARY KEY,
+        timer_count INTEGER NOT NULL DEFAULT 0,
+        total_duration INTEGER NOT NULL DEFAULT 0,
+        success_count INTEGER NOT NULL DEFAULT 0,
+        accident_count INTEGER NOT NULL DEFAULT 0,
+        tried_nothing_count INTEGER NOT NULL DEFAULT 0,
+        skipped_count INTEGER NOT NULL DEFAULT 0
+      );`,
+    ],
+  },
+  {
+    version: 7,
+    name: 'timestamps_in_milliseconds',
+    // Columns that held seconds move to milliseconds like every other
+    // timestamp. Values that are already milliseconds are left alone.
+    statements: [
+      `UPDATE timers SET created_at = created_at * 1000 WHERE created_at < 100000000000;`,
+      `UPDATE timers SET updated_at = updated_at * 1000 WHERE updated_at < 100000000000;`,
+      `UPDATE children SET created_at = created_at * 1000 WHERE created_at < 100000000000;`,
+      `UPDATE children SET updated_at = updated_at * 1000 WHERE updated_at < 100000000000;`,
+      `UPDATE potty_events SET created_at = created_at * 1000 WHERE created_at < 100000000000;`,
+      `UPDATE schema_migrations SET applied_at = applied_at * 1000 WHERE applied_at < 100000000000;`,
+    ],
+  },
+  {
+    version: 8,
+    name: 'add_timer_recurrence',
+    statements: [
+      `ALTER TABLE timers ADD COLUMN is_recurring INTEGER NOT NULL DEFAULT 0;`,
+      `ALTER TABLE timers ADD COLUMN max_runs_per_day INTEGER;`,
+    ],
+  },
+  {
+    version: 9,
+    name: 'create_schedules',
+    // windows holds the template's time windows as a JSON array
+    statements: [
+      `CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        windows TEXT NOT NULL,
+        quiet_start TEXT,
+        quiet_end TEXT,
+        is_active INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );`,
+    ],
+  },
+  {
+    version: 10,
+    name: 'add_timer_pre_alerts',
+    // JSON array of seconds before zero at which to warn
+    statements: [
+      `ALTER TABLE timers ADD COLUMN pre_alert_offsets TEXT NOT NULL DEFAULT '[]';`,
+    ],
+  },
+  {
+    version: 11,
+    name: 'add_timer_snoozed',
+    statements: [
+      `ALTER TABLE timers ADD COLUMN is_snoozed INTEGER NOT NULL DEFAULT 0;`,
+    ],
+  },
+  {
+    version: 12,
+    name: 'add_timer_run_segments',
+    // JSON array of the current interval's { startedAt, endedAt } segments
+    statements: [
+      `ALTER TABLE timers ADD COLUMN run_segments TEXT NOT NULL DEFAULT '[]';`,
+    ],
+  },
+  {
+    version: 13,
+    name: 'add_timer_count_up_threshold',
+    // Seconds since the last success after which to alert; null for never
+    statements: [`ALTER TABLE timers ADD COLUMN count_up_threshold INTEGER;`],
+  },
+  {
+    version: 14,
+    name: 'add_timer_name',
+    // Existing timers are all potty timers
+    statements: [
+      `ALTER TABLE timers ADD COLUMN name TEXT NOT NULL DEFAULT 'Potty';`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_name ON timers(name);`,
+    ],
+  },
+  {
+    version: 15,
+    name: 'create_missed_alerts',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS missed_alerts (
+        id TEXT PRIMARY KEY,
+        timer_id TEXT NOT NULL,
+        expired_at INTEGER NOT NULL,
+        detected_at INTEGER NOT NULL
+      );`,
+      `CREATE INDEX IF NOT EXISTS idx_missed_alerts_timer_id ON missed_alerts(timer_id);`,
+    ],
+  },
+  {
+    version: 16,
+    name: 'create_api_tokens',
+    // Only the SHA-256 hash of a token is stored
+    statements: [
+      `CREATE TABLE IF NOT EXISTS api_tokens (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at INTEGER NOT NULL,
+        revoked_at INTEGER
+      );`,
+    ],
+  },
+  {
+    version: 17,
+    name: 'add_timer_version',
+    // Bumped by every update, so a stale write can be refused
+    statements: [
+      `ALTER TABLE timers ADD COLUMN version INTEGER NOT NULL DEFAULT 1;`,
+    ],
+  },
+  {
+    version: 18,
+    name: 'millisecond_timestamp_defaults',
+    // SQLite cannot change a column default, so the tables that still
+    // defaulted to seconds are rebuilt with millisecond defaults. Events
+    // imported before their created_at was copied get it in milliseconds.
+    statements: [
+      `UPDATE potty_events SET created_at = created_at * 1000 WHERE created_at < 100000000000;`,
+      `CREATE TABLE potty_events_new (
+        id TEXT PRIMARY KEY,
+        timer_id TEXT,
+        outcome TEXT NOT NULL CHECK (outcome IN ('success', 'accident', 'tried-nothing', 'skipped')),
+        timestamp INTEGER NOT NULL,
+        note TEXT,
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS}
+      );`,
+      `INSERT INTO potty_events_new SELECT id, timer_id, outcome, timestamp, note, created_at FROM potty_events;`,
+      `DROP TABLE potty_events;`,
+      `ALTER TABLE potty_events_new RENAME TO potty_events;`,
+      `CREATE INDEX IF NOT EXISTS idx_potty_events_timestamp ON potty_events(timestamp);`,
+      `CREATE INDEX IF NOT EXISTS idx_potty_events_timer ON potty_events(timer_id);`,
+      `CREATE TABLE children_new (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        avatar_emoji TEXT NOT NULL DEFAULT '🧒',
+        default_interval INTEGER NOT NULL DEFAULT 3600,
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        updated_at INTEGER NOT NULL DEFAULT ${NOW_MS}
+      );`,
+      `INSERT INTO children_new SELECT id, name, avatar_emoji, default_interval, created_at, updated_at FROM children;`,
+      `DROP TABLE children;`,
+      `ALTER TABLE children_new RENAME TO children;`,
+      `CREATE TABLE timers_new (
+        id TEXT PRIMARY KEY,
+        duration INTEGER NOT NULL,
+        start_time INTEGER NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 0,
+        remaining_time INTEGER NOT NULL,
+        is_notification_mode INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        updated_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        child_id TEXT REFERENCES children(id),
+        archived INTEGER NOT NULL DEFAULT 0,
+        is_recurring INTEGER NOT NULL DEFAULT 0,
+        max_runs_per_day INTEGER,
+        pre_alert_offsets TEXT NOT NULL DEFAULT '[]',
+        is_snoozed INTEGER NOT NULL DEFAULT 0,
+        run_segments TEXT NOT NULL DEFAULT '[]',
+        count_up_threshold INTEGER,
+        name TEXT NOT NULL DEFAULT 'Potty',
+        version INTEGER NOT NULL DEFAULT 1
+      );`,
+      `INSERT INTO timers_new SELECT id, duration, start_time, is_active, remaining_time, is_notification_mode, created_at, updated_at, child_id, archived, is_recurring, max_runs_per_day, pre_alert_offsets, is_snoozed, run_segments, count_up_threshold, name, version FROM timers;`,
+      `DROP TABLE timers;`,
+      `ALTER TABLE timers_new RENAME TO timers;`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_active ON timers(is_active);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_child ON timers(child_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_created ON timers(created_at, id);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_active_created ON timers(is_active, created_at, id);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_archived_created ON timers(archived, created_at, id);`,
+      `CREATE INDEX IF NOT EXISTS idx_timers_name ON timers(name);`,
+    ],
+  },
+  {
+    version: 19,
+    name: 'paused_timer_segments',
+    // A stopped timer now counts as paused exactly when it keeps run
+    // segments. Expired timers drop the segments they used to close, and
+    // timers paused before segments existed get one for the time they ran.
+    statements: [
+      `UPDATE timers SET run_segments = '[]'
+        WHERE is_active = 0 AND (is_notification_mode = 1 OR remaining_time <= 0 OR remaining_time >= duration);`,
+      `UPDATE timers SET run_segments = json_array(json_object('startedAt', start_time, 'endedAt', start_time + (duration - remaining_time) * 1000))
+        WHERE is_active = 0 AND is_notification_mode = 0 AND remaining_time > 0 AND remaining_time < duration AND run_segments = '[]';`,
+    ],
+  },
+  {
+    version: 20,
+    name: 'add_timer_adjustment',
+    // Time added or taken off the current interval, kept apart from duration
+    statements: [
+      `ALTER TABLE timers ADD COLUMN adjustment INTEGER NOT NULL DEFAULT 0;`,
+    ],
+  },
+];
+
+// The newest schema version this build of the app understands
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import {
+  expireOverdueTimer,
+  lateSeconds,
+  reconcileMissedAlerts,
+} from './missedAlerts';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+
+describe('missedAlerts', () => {
+  const start = 1700000000000;
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
+  const createRunning = (duration: number, name?: string) => {
+    clock.advanceSeconds(1);
+    return repository.createTimer({
+      ...(name ? { name } : {}),
+      duration,
+      startTime: clock.now(),
+      isActive: true,
+      remainingTime: duration,
+      isNotificationMode: false,
+      runSegments: [{ startedAt: clock.now(), endedAt: null }],
+    });
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock(start);
+    repository = new InMemoryTimerRepository(clock);
+  });
+
+  it('should expire timers that ran out while the app was closed', async () => {
+    const potty = await createRunning(600);
+    const water = await createRunning(1200, 'Drink water');
+    const medicine = await createRunning(7200, 'Medicine');
+
+    // Closed for an hour
+    clock.advanceSeconds(3600);
+    const missed = await reconcileMissedAlerts(repository, clock.now());
+
+    expect(missed.map((alert) => alert.timerId)).toEqual([potty.id, water.id]);
+    expect(missed.map(lateSeconds)).toEqual([3002, 2401]);
+    expect(await repository.getTimer(potty.id)).toMatchObject({
+      isActive: false,
+      remainingTime: 0,
+      isNotificationMode: true,
+    });
+    expect((await repository.getTimer(medicine.id))?.isActive).toBe(true);
+    expect(await repository.getMissedAlerts()).toEqual([...missed].reverse());
+  });
+
+  it('should not count an expiry found within the grace period as missed', async () => {
+    const timer = await createRunning(600);
+    clock.advanceSeconds(630);
+
+    const result = await expireOverdueTimer(repository, timer, clock.now());
+
+    expect(result?.timer.isActive).toBe(false);
+    expect(result?.missedAlert).toBeNull();
+    expect(await repository.getMissedAlerts()).toEqual([]);
+  });
+
+  it('should expire silently when asked', async () => {
+    const timer = await createRunning(600);
+    clock.advanceSeconds(3600);
+
+    const [alert] = await reconcileMissedAlerts(repository, clock.now(), true);
+
+    expect(alert.timerId).toBe(timer.id);
+    expect((await repository.getTimer(timer.id))?.isNotificationMode).toBe(
+      false,
+    );
+  });
+
+  it('should leave timers that are still running', async () => {
+    const timer = await createRunning(600);
+    clock.advanceSeconds(599);
+
+    expect(await expireOverdueTimer(repository, timer, clock.now())).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { TimerState } from '../contexts/TimerContext';
+import { TimerRepository } from './timerRepository';
+import { elapsedSeconds } from './clock';
+import { expiresAt, transition } from './timerMachine';
+
+// An alert nobody saw: the timer ran out while the app was killed or the
+// phone was off, and the expiry was only found later
+export interface MissedAlert {
+  id: string;
+  timerId: string;
+  expiredAt: number; // When the countdown reached zero, in milliseconds
+  detectedAt: number; // When the expiry was found, in milliseconds
+}
+
+// Expiries found within this many seconds count as on time
+export const MISSED_ALERT_GRACE_SECONDS = 60;
+
+// How late the alert was, in seconds
+export const lateSeconds = (alert: MissedAlert): number =>
+  elapsedSeconds(alert.expiredAt, alert.detectedAt);
+
+// Expires a running timer whose countdown has already reached zero, recording
+// a missed alert when that was more than the grace period ago. Returns null
+// when the timer is not overdue.
+export async function expireOverdueTimer(
+  repository: TimerRepository,
+  timer: TimerState,
+  now: number,
+  silent = false,
+): Promise<{ timer: TimerState; missedAlert: MissedAlert | null } | null> {
+  const expiredAt = expiresAt(timer);
+  if (expiredAt === null || expiredAt > now) return null;
+
+  const expiry = transition(timer, { type: 'expire', silent }, now);
+  if ('error' in expiry) return null;
+  const expired = await repository.updateTimer(
+    timer.id,
+    expiry.updates,
+    expiry.event,
+  );
+
+  const missedAlert =
+    elapsedSeconds(expiredAt, now) > MISSED_ALERT_GRACE_SECONDS
+      ? await repository.createMissedAlert({
+          timerId: timer.id,
+          expiredAt,
+          detectedAt: now,
+        })
+      : null;
+  return { timer: expired, missedAlert };
+}
+
+// Startup reconciliation: expires every timer that ran out while the app was
+// not running and returns the alerts that were missed, oldest first
+export async function reconcileMissedAlerts(
+  repository: TimerRepository,
+  now: number,
+  silent = false,
+): Promise<MissedAlert[]> {
+  const missed: MissedAlert[] = [];
+  for (const timer of await repository.getAllTimers()) {
+    const result = await expireOverdueTimer(repository, timer, now, silent);
+    if (result?.missedAlert) missed.push(result.missedAlert);
+  }
+  return missed.sort((a, b) => a.expiredAt - b.expiredAt);
+}
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import { getCurrentTimers, parseTimerName } from './namedTimers';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+
+describe('namedTimers', () => {
+  it("should list each name's newest timer", async () => {
+    const clock = new FakeClock(1700000000000);
+    const repository = new InMemoryTimerRepository(clock);
+    const create = (name?: string) => {
+      clock.advanceSeconds(1);
+      return repository.createTimer({
+        ...(name ? { name } : {}),
+        duration: 1800,
+        startTime: clock.now(),
+        isActive: false,
+        remainingTime: 1800,
+        isNotificationMode: false,
+      });
+    };
+
+    await create();
+    const water = await create('Drink water');
+    const potty = await create();
+    const medicine = await create('Medicine');
+
+    const timers = await getCurrentTimers(repository);
+    expect(timers.map((timer) => timer.id)).toEqual([
+      medicine.id,
+      potty.id,
+      water.id,
+    ]);
+    expect(timers[1].name).toBe('Potty');
+  });
+
+  it('should read a trimmed name', () => {
+    expect(parseTimerName('  Medicine ')).toEqual({ name: 'Medicine' });
+    expect(parseTimerName('')).toEqual({
+      error: 'Invalid name. Must be 1 to 40 characters.',
+    });
+    expect(parseTimerName(42)).toEqual({
+      error: 'Invalid name. Must be 1 to 40 characters.',
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { TimerState } from '../contexts/TimerContext';
+import { TimerRepository } from './timerRepository';
+
+// Timers are named for what they remind about ("Potty", "Drink water",
+// "Medicine"). Each name's newest timer is its current one, and they all run
+// side by side. Potty timers drive the main countdown.
+export const DEFAULT_TIMER_NAME = 'Potty';
+export const MAX_TIMER_NAME_LENGTH = 40;
+
+// The current timer of every name, newest first
+export async function getCurrentTimers(
+  repository: TimerRepository,
+  childId?: string,
+): Promise<TimerState[]> {
+  const seen = new Set<string>();
+  return (await repository.getAllTimers(childId)).filter((timer) => {
+    const name = timer.name ?? DEFAULT_TIMER_NAME;
+    if (seen.has(name)) return false;
+    seen.add(name);
+    return true;
+  });
+}
+
+// Reads a timer name from a request body, trimmed
+export function parseTimerName(
+  value: unknown,
+): { name: string } | { error: string } {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (name === '' || name.length > MAX_TIMER_NAME_LENGTH) {
+    return {
+      error: `Invalid name. Must be 1 to ${MAX_TIMER_NAME_LENGTH} characters.`,
+    };
+  }
+  return { name };
+}
@@ -0,0 +1,530 @@
+import { MAX_TIMER_PAGE_SIZE } from './timerRepository';
+import { MAX_TIMER_NAME_LENGTH } from './namedTimers';
+import { MAX_SNOOZE_MINUTES, DEFAULT_SNOOZE_MINUTES } from './snooze';
+import { MAX_ADJUST_SECONDS } from './adjust';
+import { HEARTBEAT_INTERVAL_MS } from './timerEvents';
+
+// OpenAPI 3.1 description of the timer API, served at /api/openapi.json. The
+// route tests check their responses against these schemas.
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonBody = (name: string) => ({
+  required: true,
+  content: { 'application/json': { schema: ref(name) } },
+});
+
+const response = (description: string, name: string) => ({
+  description,
+  content: { 'application/json': { schema: ref(name) } },
+});
+
+const ok = (name: string) => ({ '200': response('OK', name) });
+// A 200 whose ETag header is the timer's version
+const okWithETag = (name: string) => ({
+  '200': {
+    ...response('OK', name),
+    headers: {
+      ETag: {
+        description: 'The timer\'s version, e.g. "3"',
+        schema: { type: 'string' },
+      },
+    },
+  },
+});
+const invalid = {
+  '400': response('Invalid request; errors lists each bad field', 'Error'),
+};
+const notFound = { '404': response('Timer not found', 'Error') };
+const conflict = {
+  '409': response("The timer's state does not allow it", 'Error'),
+};
+const stale = {
+  '412': response("If-Match no longer matches the timer's ETag", 'Error'),
+};
+const unauthorized = {
+  '401': response('Missing, unknown or revoked API token', 'Error'),
+};
+const failed = { '500': response('Storage failure', 'Error') };
+
+const timerId = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+const ifMatch = {
+  name: 'If-Match',
+  in: 'header',
+  schema: { type: 'string' },
+  description:
+    'ETag the change is based on; answered with 412 once the timer has changed',
+};
+
+const queryParameter = (
+  name: string,
+  schema: Record<string, unknown>,
+  description?: string,
+) => ({ name, in: 'query', schema, ...(description ? { description } : {}) });
+
+const timestamp = { type: 'integer', minimum: 0 };
+const seconds = { type: 'integer', exclusiveMinimum: 0 };
+const nullable = (type: string) => ({ type: [type, 'null'] });
+
+// PUT /api/timers/{id}/<action>; each answers with the updated timer
+const timerAction = (
+  summary: string,
+  body?: { name: string; required: boolean },
+) => ({
+  put: {
+    summary,
+    parameters: [timerId, ifMatch],
+    ...(body
+      ? { requestBody: { ...jsonBody(body.name), required: body.required } }
+      : {}),
+    responses: {
+      ...okWithETag('TimerResponse'),
+      ...(body ? invalid : {}),
+      ...notFound,
+      ...conflict,
+      ...stale,
+      ...unauthorized,
+      ...failed,
+    },
+  },
+});
+
+const eventStream = (summary: string, parameters: object[]) => ({
+  get: {
+    summary,
+    description: `Sends each change as a \`timer\` event whose id is its transition id and whose data is a TimerStreamEvent, starting with the latest state. A client reconnecting with Last-Event-ID (or ?lastEventId=) gets every change after that id instead. A comment line is sent every ${HEARTBEAT_INTERVAL_MS / 1000} seconds.`,
+    parameters: [
+      ...parameters,
+      {
+        name: 'Last-Event-ID',
+        in: 'header',
+        schema: { type: 'string', pattern: '^[1-9][0-9]*$' },
+      },
+      queryParameter('lastEventId', { type: 'integer', minimum: 1 }),
+    ],
+    responses: {
+      '200': {
+        description: 'Server-Sent Events stream',
+        content: { 'text/event-stream': { schema: { type: 'string' } } },
+      },
+      ...invalid,
+      '404': response('Timer or child not found', 'Error'),
+      ...unauthorized,
+      ...failed,
+    },
+  },
+});
+
+const transitionEvents = [
+  'create',
+  'start',
+  'resume',
+  'pause',
+  'reset',
+  'duration',
+  'expire',
+  'dismiss',
+  'restart',
+  'snooze',
+  'adjust',
+  'update',
+];
+
+const schemas = {
+  Timer: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string', maxLength: MAX_TIMER_NAME_LENGTH },
+      duration: { type: 'number', description: 'Seconds' },
+      startTime: { ...timestamp, description: 'Milliseconds' },
+      isActive: { type: 'boolean' },
+      remainingTime: { type: 'number', description: 'Seconds' },
+      isNotificationMode: { type: 'boolean' },
+      childId: nullable('string'),
+      isRecurring: { type: 'boolean' },
+      maxRunsPerDay: nullable('integer'),
+      preAlertOffsets: { type: 'array', items: seconds },
+      isSnoozed: { type: 'boolean' },
+      runSegments: { type: 'array', items: ref('RunSegment') },
+      countUpThreshold: nullable('integer'),
+      adjustment: {
+        type: 'integer',
+        description: 'Seconds added to the current interval; 0 without adjust',
+      },
+      version: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Goes up with every change; sent as the ETag',
+      },
+    },
+    required: [
+      'id',
+      'duration',
+      'startTime',
+      'isActive',
+      'remainingTime',
+      'isNotificationMode',
+    ],
+  },
+  RunSegment: {
+    type: 'object',
+    properties: {
+      startedAt: timestamp,
+      endedAt: { type: ['integer', 'null'], minimum: 0 },
+    },
+    required: ['startedAt', 'endedAt'],
+  },
+  TimerTransition: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      timerId: { type: 'string' },
+      event: { enum: transitionEvents },
+      occurredAt: timestamp,
+      duration: { type: 'number' },
+      startTime: timestamp,
+      isActive: { type: 'boolean' },
+      remainingTime: { type: 'number' },
+      isNotificationMode: { type: 'boolean' },
+    },
+    required: [
+      'id',
+      'timerId',
+      'event',
+      'occurredAt',
+      'duration',
+      'startTime',
+      'isActive',
+      'remainingTime',
+      'isNotificationMode',
+    ],
+  },
+  MissedAlert: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      timerId: { type: 'string' },
+      expiredAt: timestamp,
+      detectedAt: timestamp,
+    },
+    required: ['id', 'timerId', 'expiredAt', 'detectedAt'],
+  },
+  TimerStreamEvent: {
+    type: 'object',
+    properties: {
+      event: { enum: transitionEvents },
+      occurredAt: timestamp,
+      timer: ref('Timer'),
+    },
+    required: ['event', 'occurredAt', 'timer'],
+  },
+  FieldError: {
+    type: 'object',
+    properties: {
+      field: { type: 'string' },
+      message: { type: 'string' },
+    },
+    required: ['field', 'message'],
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      success: { const: false },
+      error: { type: 'string' },
+      details: { type: 'string' },
+      errors: { type: 'array', items: ref('FieldError') },
+    },
+    required: ['success', 'error'],
+  },
+  TimerResponse: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      timer: ref('Timer'),
+      message: { type: 'string' },
+      missedAlert: ref('MissedAlert'),
+    },
+    required: ['success', 'timer'],
+  },
+  TimerListResponse: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      timers: { type: 'array', items: ref('Timer') },
+      count: { type: 'integer' },
+      nextCursor: nullable('string'),
+    },
+    required: ['success', 'timers', 'count', 'nextCursor'],
+  },
+  DeleteResponse: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      message: { type: 'string' },
+    },
+    required: ['success', 'message'],
+  },
+  HistoryResponse: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      transitions: { type: 'array', items: ref('TimerTransition') },
+      count: { type: 'integer' },
+    },
+    required: ['success', 'transitions', 'count'],
+  },
+  SegmentsResponse: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      segments: { type: 'array', items: ref('RunSegment') },
+      count: { type: 'integer' },
+      totalSeconds: { type: 'number' },
+    },
+    required: ['success', 'segments', 'count', 'totalSeconds'],
+  },
+  CreateTimerRequest: {
+    type: 'object',
+    properties: {
+      duration: {
+        type: 'number',
+        exclusiveMinimum: 0,
+        description: "Seconds; a child's timers default to its interval",
+      },
+      name: { type: 'string', minLength: 1, maxLength: MAX_TIMER_NAME_LENGTH },
+      preAlertOffsets: { type: 'array', items: seconds },
+      countUpThreshold: { oneOf: [seconds, { type: 'null' }] },
+    },
+  },
+  UpdateTimerRequest: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: MAX_TIMER_NAME_LENGTH },
+      preAlertOffsets: { type: 'array', items: seconds },
+      countUpThreshold: { oneOf: [seconds, { type: 'null' }] },
+      isRecurring: { type: 'boolean' },
+      maxRunsPerDay: { oneOf: [seconds, { type: 'null' }] },
+    },
+    minProperties: 1,
+    additionalProperties: false,
+  },
+  StartTimerRequest: {
+    type: 'object',
+    properties: {
+      isRecurring: { type: 'boolean' },
+      maxRunsPerDay: { oneOf: [seconds, { type: 'null' }] },
+    },
+  },
+  SnoozeRequest: {
+    type: 'object',
+    properties: {
+      minutes: {
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_SNOOZE_MINUTES,
+        default: DEFAULT_SNOOZE_MINUTES,
+      },
+    },
+  },
+  DurationRequest: {
+    type: 'object',
+    properties: { duration: { type: 'number', exclusiveMinimum: 0 } },
+    required: ['duration'],
+  },
+  AdjustRequest: {
+    type: 'object',
+    properties: {
+      seconds: {
+        type: 'integer',
+        minimum: -MAX_ADJUST_SECONDS,
+        maximum: MAX_ADJUST_SECONDS,
+        not: { const: 0 },
+        description: 'Added to the time left; negative takes time off',
+      },
+    },
+    required: ['seconds'],
+  },
+};
+
+export const openApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Potty Timer API',
+    version: '1.0.0',
+    description:
+      'Timestamps are epoch milliseconds and durations seconds. Every /api/timers path is also served under /api/children/{childId}/timers, scoped to that child.',
+  },
+  paths: {
+    '/api/timers': {
+      get: {
+        summary: 'List timers, newest first, a page at a time',
+        parameters: [
+          queryParameter('limit', {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_TIMER_PAGE_SIZE,
+          }),
+          queryParameter(
+            'cursor',
+            { type: 'string' },
+            'nextCursor of the previous page',
+          ),
+          queryParameter('isActive', { type: 'boolean' }),
+          queryParameter('archived', { type: 'boolean' }),
+          queryParameter('createdAfter', timestamp),
+          queryParameter('createdBefore', timestamp),
+          queryParameter('sort', { enum: ['asc', 'desc'] }),
+        ],
+        responses: {
+          ...ok('TimerListResponse'),
+          ...invalid,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+      post: {
+        summary: 'Create a timer',
+        requestBody: jsonBody('CreateTimerRequest'),
+        responses: {
+          ...ok('TimerResponse'),
+          ...invalid,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+    },
+    '/api/timers/current': {
+      get: {
+        summary: 'The newest timer, expired first if it has run out',
+        parameters: [queryParameter('name', { type: 'string' })],
+        responses: {
+          ...ok('TimerResponse'),
+          ...invalid,
+          '404': response('No timer found', 'Error'),
+          ...unauthorized,
+          ...failed,
+        },
+      },
+    },
+    '/api/timers/current/events': eventStream(
+      "Stream the current timer's changes, following each new timer",
+      [queryParameter('name', { type: 'string' })],
+    ),
+    '/api/timers/{id}': {
+      get: {
+        summary: 'Get a timer',
+        parameters: [timerId],
+        responses: {
+          ...okWithETag('TimerResponse'),
+          ...notFound,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+      patch: {
+        summary: "Edit a timer's settings",
+        parameters: [timerId, ifMatch],
+        requestBody: jsonBody('UpdateTimerRequest'),
+        responses: {
+          ...okWithETag('TimerResponse'),
+          ...invalid,
+          ...notFound,
+          ...stale,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+      put: {
+        summary: 'Not allowed; edit with PATCH or use an action below',
+        parameters: [timerId],
+        responses: {
+          '405': response('Method not allowed', 'Error'),
+          ...unauthorized,
+          ...notFound,
+        },
+      },
+      delete: {
+        summary: 'Delete a timer',
+        parameters: [timerId, ifMatch],
+        responses: {
+          ...ok('DeleteResponse'),
+          ...notFound,
+          ...stale,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+    },
+    '/api/timers/{id}/start': timerAction(
+      'Start or resume the timer, optionally setting recurrence',
+      { name: 'StartTimerRequest', required: false },
+    ),
+    '/api/timers/{id}/pause': timerAction('Pause the timer'),
+    '/api/timers/{id}/reset': timerAction('Reset the timer to its duration'),
+    '/api/timers/{id}/duration': timerAction('Change the duration', {
+      name: 'DurationRequest',
+      required: true,
+    }),
+    '/api/timers/{id}/adjust': timerAction(
+      'Add or take off time without restarting',
+      { name: 'AdjustRequest', required: true },
+    ),
+    '/api/timers/{id}/snooze': timerAction('Snooze an alerting timer', {
+      name: 'SnoozeRequest',
+      required: false,
+    }),
+    '/api/timers/{id}/history': {
+      get: {
+        summary: 'Lifecycle transitions, oldest first',
+        parameters: [timerId],
+        responses: {
+          ...ok('HistoryResponse'),
+          ...notFound,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+    },
+    '/api/timers/{id}/segments': {
+      get: {
+        summary: 'Every stretch the timer ran for, with the total',
+        parameters: [timerId],
+        responses: {
+          ...ok('SegmentsResponse'),
+          ...notFound,
+          ...unauthorized,
+          ...failed,
+        },
+      },
+    },
+    '/api/timers/{id}/events': eventStream("Stream the timer's changes", [
+      timerId,
+    ]),
+  },
+  security: [{ bearerToken: [] }],
+  components: {
+    schemas,
+    securitySchemes: {
+      bearerToken: {
+        type: 'http',
+        scheme: 'bearer',
+        description:
+          'A household API token. The app mints the first, an admin token, on first launch; admins mint the rest with POST /api/tokens.',
+      },
+    },
+  },
+};
+
+export type SchemaName = keyof typeof schemas;
+
+// A component schema that stands alone, so a validator can follow its $refs
+export function componentSchema(name: SchemaName): object {
+  return { ...ref(name), components: openApiDocument.components };
+}
@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+import { crossedPreAlerts, parsePreAlertOffsets } from './preAlerts';
+
+describe('preAlerts', () => {
+  it('should report offsets passed since the last tick', () => {
+    expect(crossedPreAlerts([300, 60], 301, 300)).toEqual([300]);
+    expect(crossedPreAlerts([300, 60], 300, 299)).toEqual([]);
+    // A long gap, e.g. the app in the background, can pass several at once
+    expect(crossedPreAlerts([60, 300], 400, 30)).toEqual([300, 60]);
+  });
+
+  it('should leave zero to the alert itself', () => {
+    expect(crossedPreAlerts([60], 90, 0)).toEqual([]);
+  });
+
+  it('should sort and de-duplicate offsets', () => {
+    expect(parsePreAlertOffsets([60, 300, 60])).toEqual({
+      offsets: [300, 60],
+    });
+    expect(parsePreAlertOffsets([])).toEqual({ offsets: [] });
+  });
+
+  it.each([[null], [[0]], [[1.5]], [['60']]])('should reject %j', (value) => {
+    expect(parsePreAlertOffsets(value)).toEqual({
+      error:
+        'Invalid preAlertOffsets. Must be an array of positive whole seconds.',
+    });
+  });
+});
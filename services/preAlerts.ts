@@ -0,0 +1,34 @@
+// Heads-up warnings shortly before a timer runs out. Offsets are seconds
+// before zero, stored per timer.
+export const DEFAULT_PRE_ALERT_OFFSETS = [300, 60];
+
+// Offsets the countdown passed on its way from `previous` to `remaining`
+// seconds, largest first. Reaching zero is the alert itself, not a pre-alert.
+export function crossedPreAlerts(
+  offsets: number[],
+  previous: number,
+  remaining: number,
+): number[] {
+  return offsets
+    .filter(
+      (offset) => previous > offset && remaining <= offset && remaining > 0,
+    )
+    .sort((a, b) => b - a);
+}
+
+// Reads a preAlertOffsets value from a request body; duplicates are dropped
+// and the result is sorted largest first
+export function parsePreAlertOffsets(
+  value: unknown,
+): { offsets: number[] } | { error: string } {
+  if (
+    !Array.isArray(value) ||
+    !value.every((offset) => Number.isInteger(offset) && offset > 0)
+  ) {
+    return {
+      error:
+        'Invalid preAlertOffsets. Must be an array of positive whole seconds.',
+    };
+  }
+  return { offsets: [...new Set(value as number[])].sort((a, b) => b - a) };
+}
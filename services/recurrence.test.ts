@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import {
+  countRunsToday,
+  parseRecurrence,
+  restartIfRecurring,
+  startOfDay,
+} from './recurrence';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+import { TimerLifecycleAction, transition } from './timerMachine';
+
+describe('recurrence', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date(2024, 0, 15, 8, 0).getTime());
+    repository = new InMemoryTimerRepository(clock);
+  });
+
+  // Runs one full interval: start, let it expire, and return the expired timer
+  const runInterval = async (id: string) => {
+    const started = await repository.updateTimer(
+      id,
+      { isActive: true, startTime: clock.now() },
+      'start',
+    );
+    clock.advanceSeconds(started.duration);
+    return repository.updateTimer(
+      id,
+      { isActive: false, remainingTime: 0, isNotificationMode: true },
+      'expire',
+    );
+  };
+
+  const createTimer = (maxRunsPerDay: number | null = null) =>
+    repository.createTimer({
+      duration: 1800,
+      startTime: clock.now(),
+      isActive: false,
+      remainingTime: 1800,
+      isNotificationMode: false,
+      isRecurring: true,
+      maxRunsPerDay,
+    });
+
+  it('should start the next interval once the alert ends', async () => {
+    const timer = await createTimer();
+    const expired = await runInterval(timer.id);
+
+    const restarted = await restartIfRecurring(
+      repository,
+      expired,
+      clock.now(),
+    );
+
+    expect(restarted).toMatchObject({
+      isActive: true,
+      startTime: clock.now(),
+      remainingTime: 1800,
+      isNotificationMode: false,
+    });
+    const transitions = await repository.getTimerTransitions(timer.id);
+    expect(transitions[transitions.length - 1].event).toBe('restart');
+  });
+
+  it('should leave timers that do not recur or still have time', async () => {
+    const timer = await createTimer();
+    const expired = await runInterval(timer.id);
+
+    expect(
+      await restartIfRecurring(
+        repository,
+        { ...expired, isRecurring: false },
+        clock.now(),
+      ),
+    ).toBeNull();
+    expect(
+      await restartIfRecurring(
+        repository,
+        { ...expired, remainingTime: 600 },
+        clock.now(),
+      ),
+    ).toBeNull();
+  });
+
+  it('should stop at the daily maximum and resume the next day', async () => {
+    const timer = await createTimer(2);
+    let expired = await runInterval(timer.id);
+    expired = (await restartIfRecurring(repository, expired, clock.now()))!;
+    clock.advanceSeconds(1800);
+    expired = await repository.updateTimer(
+      timer.id,
+      { isActive: false, remainingTime: 0, isNotificationMode: true },
+      'expire',
+    );
+
+    expect(await countRunsToday(repository, timer.id, clock.now())).toBe(2);
+    expect(
+      await restartIfRecurring(repository, expired, clock.now()),
+    ).toBeNull();
+
+    clock.set(startOfDay(clock.now()) + 24 * 60 * 60 * 1000);
+    expect(
+      await restartIfRecurring(repository, expired, clock.now()),
+    ).not.toBeNull();
+  });
+
+  it('should not count resuming after a pause as a run', async () => {
+    const timer = await createTimer(2);
+    const act = async (action: TimerLifecycleAction) => {
+      const current = (await repository.getTimer(timer.id))!;
+      const result = transition(current, action, clock.now());
+      if ('error' in result) throw new Error(result.error);
+      await repository.updateTimer(timer.id, result.updates, result.event);
+    };
+
+    await act({ type: 'start' });
+    clock.advanceSeconds(60);
+    await act({ type: 'pause' });
+    clock.advanceSeconds(60);
+    await act({ type: 'start' });
+
+    expect(await countRunsToday(repository, timer.id, clock.now())).toBe(1);
+  });
+
+  describe('parseRecurrence', () => {
+    it('should accept recurrence settings', () => {
+      expect(parseRecurrence({ isRecurring: true, maxRunsPerDay: 8 })).toEqual({
+        updates: { isRecurring: true, maxRunsPerDay: 8 },
+      });
+      expect(parseRecurrence({ maxRunsPerDay: null })).toEqual({
+        updates: { maxRunsPerDay: null },
+      });
+      expect(parseRecurrence({})).toEqual({ updates: {} });
+    });
+
+    it.each([
+      [{ isRecurring: 'yes' }, 'Invalid isRecurring. Must be a boolean.'],
+      [
+        { maxRunsPerDay: 0 },
+        'Invalid maxRunsPerDay. Must be a positive integer or null.',
+      ],
+      [
+        { maxRunsPerDay: 2.5 },
+        'Invalid maxRunsPerDay. Must be a positive integer or null.',
+      ],
+    ])('should reject %j', (body, error) => {
+      const field = /^Invalid (\w+)\./.exec(error)![1];
+      expect(parseRecurrence(body)).toEqual({
+        errors: [{ field, message: error }],
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { TimerState } from '../contexts/TimerContext';
+import { TimerRepository } from './timerRepository';
+import { transition } from './timerMachine';
+import {
+  FieldError,
+  Schema,
+  boolean,
+  check,
+  optional,
+  validate,
+} from './validation';
+
+// Local midnight at or before `now`; daily run limits reset there
+export function startOfDay(now: number): number {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+// Intervals a timer has started since midnight, by hand or automatically.
+// Resuming after a pause carries on an interval, so it does not count.
+export async function countRunsToday(
+  repository: TimerRepository,
+  timerId: string,
+  now: number,
+): Promise<number> {
+  const since = startOfDay(now);
+  const transitions = await repository.getTimerTransitions(timerId);
+  return transitions.filter(
+    (transition) =>
+      (transition.event === 'start' || transition.event === 'restart') &&
+      transition.occurredAt >= since,
+  ).length;
+}
+
+// Starts the next interval of a recurring timer whose interval has run out,
+// lasting `duration` seconds (the timer's own by default). Returns null when
+// the timer does not recur, still has time left, or has used up today's runs.
+export async function restartIfRecurring(
+  repository: TimerRepository,
+  timer: TimerState,
+  now: number,
+  duration: number = timer.duration,
+): Promise<TimerState | null> {
+  const result = transition(timer, { type: 'restart', duration }, now);
+  if (!timer.isRecurring || timer.remainingTime > 0 || 'error' in result) {
+    return null;
+  }
+  if (
+    timer.maxRunsPerDay != null &&
+    (await countRunsToday(repository, timer.id, now)) >= timer.maxRunsPerDay
+  ) {
+    return null;
+  }
+
+  return repository.updateTimer(timer.id, result.updates, result.event);
+}
+
+// The optional recurrence settings a start request may carry
+export const recurrenceSchema: Schema<
+  Pick<TimerState, 'isRecurring' | 'maxRunsPerDay'>
+> = {
+  isRecurring: optional(boolean),
+  maxRunsPerDay: optional(
+    check(
+      (value) =>
+        value === null || (Number.isInteger(value) && (value as number) > 0),
+      'a positive integer or null',
+    ),
+  ),
+};
+
+export function parseRecurrence(
+  body: Record<string, unknown>,
+): { updates: Partial<TimerState> } | { errors: FieldError[] } {
+  const result = validate(body, recurrenceSchema);
+  return 'errors' in result ? result : { updates: result.value };
+}
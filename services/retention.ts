@@ -0,0 +1,37 @@
+// How long full detail is kept. Timers older than `detailDays` are flagged
+// as archived, their transition logs dropped, and potty events older than
+// that are rolled into daily_aggregates and deleted.
+export interface RetentionPolicy {
+  detailDays: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { detailDays: 90 };
+
+// What a retention pass changed
+export interface RetentionResult {
+  cutoff: number; // milliseconds; anything created before this was rolled up
+  archivedTimers: number;
+  prunedTransitions: number;
+  prunedEvents: number;
+}
+
+// Totals for one UTC day of data that has aged out of the detail tables
+export interface DailyAggregate {
+  day: string; // YYYY-MM-DD
+  timerCount: number;
+  totalDuration: number;
+  successCount: number;
+  accidentCount: number;
+  triedNothingCount: number;
+  skippedCount: number;
+}
+
+// Timestamps before this value are past the detail window
+export function retentionCutoff(policy: RetentionPolicy, now: number): number {
+  return now - policy.detailDays * 24 * 60 * 60 * 1000;
+}
+
+// UTC day of a timestamp, matching SQLite's date(x / 1000, 'unixepoch')
+export function dayOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
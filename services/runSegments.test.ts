@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { closeSegments, runSeconds, segmentHistory } from './runSegments';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+
+describe('runSegments', () => {
+  it('should add up closed and open segments', () => {
+    const segments = [
+      { startedAt: 0, endedAt: 60 * 1000 },
+      { startedAt: 120 * 1000, endedAt: null },
+    ];
+
+    expect(runSeconds(segments, 150 * 1000)).toBe(90);
+    expect(runSeconds([], 150 * 1000)).toBe(0);
+  });
+
+  it('should close only the open segment', () => {
+    expect(
+      closeSegments(
+        [
+          { startedAt: 0, endedAt: 1000 },
+          { startedAt: 2000, endedAt: null },
+        ],
+        5000,
+      ),
+    ).toEqual([
+      { startedAt: 0, endedAt: 1000 },
+      { startedAt: 2000, endedAt: 5000 },
+    ]);
+  });
+
+  it('should rebuild wall-clock segments from the transition log', async () => {
+    const clock = new FakeClock(1700000000000);
+    const repository = new InMemoryTimerRepository(clock);
+    const timer = await repository.createTimer({
+      duration: 1800,
+      startTime: clock.now(),
+      isActive: false,
+      remainingTime: 1800,
+      isNotificationMode: false,
+    });
+    const update = (
+      updates: Parameters<typeof repository.updateTimer>[1],
+      event: Parameters<typeof repository.updateTimer>[2],
+    ) => repository.updateTimer(timer.id, updates, event);
+
+    await update({ isActive: true, startTime: clock.now() }, 'start');
+    clock.advanceSeconds(600);
+    await update({ isActive: false }, 'pause');
+    clock.advanceSeconds(60);
+    await update({ isActive: true, startTime: clock.now() }, 'start');
+    clock.advanceSeconds(60);
+    // A new duration while running starts a new segment
+    await update({ duration: 900, startTime: clock.now() }, 'duration');
+    clock.advanceSeconds(900);
+    await update({ isActive: false, isNotificationMode: true }, 'expire');
+
+    expect(
+      segmentHistory(await repository.getTimerTransitions(timer.id)),
+    ).toEqual([
+      { startedAt: 1700000000000, endedAt: 1700000600000 },
+      { startedAt: 1700000660000, endedAt: 1700000720000 },
+      { startedAt: 1700000720000, endedAt: 1700001620000 },
+    ]);
+  });
+});
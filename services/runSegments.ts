@@ -0,0 +1,49 @@
+import { RunSegment, TimerTransition } from '../contexts/TimerContext';
+import { elapsedSeconds } from './clock';
+
+// Whole seconds spent running across `segments`, counting an open one up to
+// `now`
+export function runSeconds(segments: RunSegment[], now: number): number {
+  const milliseconds = segments.reduce(
+    (total, segment) => total + (segment.endedAt ?? now) - segment.startedAt,
+    0,
+  );
+  return elapsedSeconds(0, milliseconds);
+}
+
+// Ends the open segment, if there is one, at `now`
+export function closeSegments(
+  segments: RunSegment[],
+  now: number,
+): RunSegment[] {
+  return segments.map((segment) =>
+    segment.endedAt === null ? { ...segment, endedAt: now } : segment,
+  );
+}
+
+// Every stretch a timer actually ran for, oldest first, rebuilt from its
+// transition log. Unlike the timer's own runSegments this spans all of its
+// intervals and uses wall-clock times, so a snooze shows as the few minutes
+// it ran. A running timer whose start time moves (a new duration, restart or
+// snooze) begins a new segment.
+export function segmentHistory(transitions: TimerTransition[]): RunSegment[] {
+  const segments: RunSegment[] = [];
+  let open: RunSegment | null = null;
+  let openStartTime = 0;
+
+  for (const transition of transitions) {
+    if (
+      open &&
+      (!transition.isActive || transition.startTime !== openStartTime)
+    ) {
+      open.endedAt = transition.occurredAt;
+      open = null;
+    }
+    if (transition.isActive && !open) {
+      open = { startedAt: transition.occurredAt, endedAt: null };
+      openStartTime = transition.startTime;
+      segments.push(open);
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ScheduleTemplate,
+  intervalAt,
+  isQuietTime,
+  parseSchedule,
+  parseTimeOfDay,
+} from './schedules';
+
+describe('schedules', () => {
+  const schedule: ScheduleTemplate = {
+    id: 'schedule_1',
+    name: 'Weekdays',
+    windows: [
+      { start: '07:00', end: '12:00', interval: 2700 },
+      { start: '12:00', end: '19:30', interval: 5400 },
+    ],
+    quietHours: { start: '20:00', end: '07:00' },
+    isActive: true,
+  };
+
+  // Local time on an arbitrary day
+  const at = (hours: number, minutes = 0) =>
+    new Date(2024, 0, 15, hours, minutes).getTime();
+
+  it('should parse HH:MM times of day', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0);
+    expect(parseTimeOfDay('19:30')).toBe(1170);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('7:00')).toBeNull();
+  });
+
+  it('should pick the interval of the window covering the time', () => {
+    expect(intervalAt(schedule, at(7))).toBe(2700);
+    expect(intervalAt(schedule, at(11, 59))).toBe(2700);
+    expect(intervalAt(schedule, at(12))).toBe(5400);
+    expect(intervalAt(schedule, at(19, 30))).toBeNull();
+    expect(intervalAt(null, at(9))).toBeNull();
+  });
+
+  it('should treat quiet hours that wrap past midnight as one range', () => {
+    expect(isQuietTime(schedule, at(22))).toBe(true);
+    expect(isQuietTime(schedule, at(3))).toBe(true);
+    expect(isQuietTime(schedule, at(7))).toBe(false);
+    expect(isQuietTime(schedule, at(19, 59))).toBe(false);
+    expect(isQuietTime({ ...schedule, quietHours: null }, at(22))).toBe(false);
+  });
+
+  describe('parseSchedule', () => {
+    it('should fill in defaults for a new template', () => {
+      expect(
+        parseSchedule({
+          name: ' Weekend ',
+          windows: [{ start: '22:00', end: '02:00', interval: 3600 }],
+        }),
+      ).toEqual({
+        schedule: {
+          name: 'Weekend',
+          windows: [{ start: '22:00', end: '02:00', interval: 3600 }],
+          quietHours: null,
+          isActive: false,
+        },
+      });
+    });
+
+    it('should list every bad field at once', () => {
+      expect(parseSchedule({ windows: 'all day', isActive: 1 })).toEqual({
+        errors: [
+          {
+            field: 'name',
+            message: 'Invalid name. Must be a non-empty string.',
+          },
+          {
+            field: 'windows',
+            message:
+              'Invalid windows. Each window needs start and end times as HH:MM and a positive interval in seconds.',
+          },
+          {
+            field: 'isActive',
+            message: 'Invalid isActive. Must be a boolean.',
+          },
+        ],
+      });
+    });
+
+    it('should only keep the fields a partial update names', () => {
+      expect(parseSchedule({ isActive: true }, true)).toEqual({
+        schedule: { isActive: true },
+      });
+    });
+
+    it.each([
+      [{ windows: [] }, 'Invalid name. Must be a non-empty string.'],
+      [
+        { name: 'A', windows: [{ start: '7:00', end: '12:00', interval: 60 }] },
+        'Invalid windows. Each window needs start and end times as HH:MM and a positive interval in seconds.',
+      ],
+      [
+        { name: 'A', windows: [{ start: '07:00', end: '12:00', interval: 0 }] },
+        'Invalid windows. Each window needs start and end times as HH:MM and a positive interval in seconds.',
+      ],
+      [
+        {
+          name: 'A',
+          windows: [
+            { start: '07:00', end: '12:00', interval: 60 },
+            { start: '11:00', end: '13:00', interval: 60 },
+          ],
+        },
+        'Invalid windows. Windows must not overlap.',
+      ],
+      [
+        { name: 'A', windows: [], quietHours: { start: '20:00' } },
+        'Invalid quietHours. Must be null or start and end times as HH:MM.',
+      ],
+      [
+        { name: 'A', windows: [], isActive: 'yes' },
+        'Invalid isActive. Must be a boolean.',
+      ],
+    ])('should reject %j', (body, error) => {
+      const field = /^Invalid (\w+)\./.exec(error)![1];
+      expect(parseSchedule(body)).toEqual({
+        errors: [{ field, message: error }],
+      });
+    });
+  });
+});
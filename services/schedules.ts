@@ -0,0 +1,163 @@
+import {
+  FieldError,
+  Schema,
+  boolean,
+  nonEmptyString,
+  optional,
+  validate,
+} from './validation';
+
+// Local times of day are 'HH:MM' strings. A range runs from start up to,
+// but not including, end and wraps past midnight when end is earlier.
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+// Within a window, timers run for `interval` seconds
+export interface ScheduleWindow extends TimeRange {
+  interval: number;
+}
+
+export interface ScheduleTemplate {
+  id: string;
+  name: string;
+  windows: ScheduleWindow[];
+  // Timers never alert during quiet hours; null for none
+  quietHours: TimeRange | null;
+  // At most one template is active; TimerProvider follows that one
+  isActive: boolean;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Minutes after midnight, or null when the text is not a valid HH:MM
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+const minuteOfDay = (now: number): number => {
+  const date = new Date(now);
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+const inRange = (range: TimeRange, minute: number): boolean => {
+  const start = parseTimeOfDay(range.start)!;
+  const end = parseTimeOfDay(range.end)!;
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+};
+
+// Interval of the window covering `now` in local time, or null outside them
+export function intervalAt(
+  schedule: ScheduleTemplate | null,
+  now: number,
+): number | null {
+  const minute = minuteOfDay(now);
+  const window = schedule?.windows.find((candidate) =>
+    inRange(candidate, minute),
+  );
+  return window ? window.interval : null;
+}
+
+// Whether `now` falls within the schedule's quiet hours, in local time
+export function isQuietTime(
+  schedule: ScheduleTemplate | null,
+  now: number,
+): boolean {
+  return (
+    !!schedule?.quietHours && inRange(schedule.quietHours, minuteOfDay(now))
+  );
+}
+
+const isTimeRange = (value: unknown): value is TimeRange => {
+  const range = value as TimeRange;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof range.start === 'string' &&
+    typeof range.end === 'string' &&
+    parseTimeOfDay(range.start) !== null &&
+    parseTimeOfDay(range.end) !== null &&
+    range.start !== range.end
+  );
+};
+
+// Windows may not share a minute, so at most one applies at any time
+const overlaps = (windows: ScheduleWindow[]): boolean => {
+  const covered = new Array<boolean>(MINUTES_PER_DAY).fill(false);
+  for (const window of windows) {
+    for (let minute = 0; minute < MINUTES_PER_DAY; minute++) {
+      if (!inRange(window, minute)) continue;
+      if (covered[minute]) return true;
+      covered[minute] = true;
+    }
+  }
+  return false;
+};
+
+const scheduleSchema: Schema<Omit<ScheduleTemplate, 'id'>> = {
+  name: nonEmptyString,
+  windows: (value) => {
+    if (
+      !Array.isArray(value) ||
+      !value.every(
+        (window: ScheduleWindow) =>
+          isTimeRange(window) &&
+          Number.isInteger(window.interval) &&
+          window.interval > 0,
+      )
+    ) {
+      return {
+        error:
+          'Invalid windows. Each window needs start and end times as HH:MM and a positive interval in seconds.',
+      };
+    }
+    if (overlaps(value)) {
+      return { error: 'Invalid windows. Windows must not overlap.' };
+    }
+    return {
+      value: value.map(({ start, end, interval }: ScheduleWindow) => ({
+        start,
+        end,
+        interval,
+      })),
+    };
+  },
+  quietHours: (value) => {
+    if (value !== null && !isTimeRange(value)) {
+      return {
+        error:
+          'Invalid quietHours. Must be null or start and end times as HH:MM.',
+      };
+    }
+    return { value: value && { start: value.start, end: value.end } };
+  },
+  isActive: boolean,
+};
+
+// Checks a POST or PUT body. A partial body (for PUT) may leave any field out;
+// a full one must name the template and list its windows.
+export function parseSchedule(
+  body: Record<string, unknown>,
+  partial = false,
+):
+  | { schedule: Partial<Omit<ScheduleTemplate, 'id'>> }
+  | { errors: FieldError[] } {
+  const result = validate<Partial<Omit<ScheduleTemplate, 'id'>>>(body, {
+    name: partial ? optional(scheduleSchema.name) : scheduleSchema.name,
+    windows: partial
+      ? optional(scheduleSchema.windows)
+      : scheduleSchema.windows,
+    quietHours: optional(scheduleSchema.quietHours),
+    isActive: optional(scheduleSchema.isActive),
+  });
+  if ('errors' in result) return result;
+  return {
+    schedule: partial
+      ? result.value
+      : { quietHours: null, isActive: false, ...result.value },
+  };
+}
@@ -0,0 +1,63 @@
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { ensureApiToken, getApiToken, setApiToken } from './secureSettings';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { bootstrapApiToken } from './apiTokens';
+import { localStorage } from './webGlobals';
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(() => Promise.resolve(null)),
+  setItemAsync: jest.fn(() => Promise.resolve()),
+  deleteItemAsync: jest.fn(() => Promise.resolve()),
+}));
+
+// The browser test environment has no Web Crypto to mint with
+jest.mock('./apiTokens', () => ({
+  bootstrapApiToken: jest.fn(() =>
+    Promise.resolve({ token: { id: 'token_1' }, secret: 'ptk_first' }),
+  ),
+}));
+
+describe('secureSettings', () => {
+  const now = 1700000000000;
+
+  afterEach(() => {
+    Platform.OS = 'ios';
+    localStorage?.removeItem('apiToken');
+    jest.clearAllMocks();
+  });
+
+  it('should keep the API token in the keychain on a device', async () => {
+    await setApiToken('ptk_device');
+
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith(
+      'apiToken',
+      'ptk_device',
+    );
+    expect(localStorage?.getItem('apiToken')).toBeNull();
+  });
+
+  it('should keep the API token in localStorage on web', async () => {
+    Platform.OS = 'web';
+
+    expect(await getApiToken()).toBeNull();
+    await setApiToken('ptk_browser');
+    expect(await getApiToken()).toBe('ptk_browser');
+    await setApiToken(null);
+    expect(await getApiToken()).toBeNull();
+
+    expect(SecureStore.setItemAsync).not.toHaveBeenCalled();
+  });
+
+  it('should mint and save the first admin token on web', async () => {
+    Platform.OS = 'web';
+    const repository = new InMemoryTimerRepository();
+
+    await ensureApiToken(repository, now);
+    expect(await getApiToken()).toBe('ptk_first');
+    expect(bootstrapApiToken).toHaveBeenCalledWith(repository, now);
+
+    await ensureApiToken(repository, now + 1000);
+    expect(bootstrapApiToken).toHaveBeenCalledTimes(1);
+  });
+});
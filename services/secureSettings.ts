@@ -0,0 +1,50 @@
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { bootstrapApiToken } from './apiTokens';
+import { TimerRepository } from './timerRepository';
+import { localStorage } from './webGlobals';
+
+// Settings kept in the device keychain rather than in SQLite. The web build
+// has no secure store, so there they are kept in the browser's localStorage.
+
+const API_TOKEN_KEY = 'apiToken';
+
+// The household API token this device sends, or null when none is saved
+export async function getApiToken(): Promise<string | null> {
+  try {
+    if (Platform.OS === 'web') {
+      return localStorage?.getItem(API_TOKEN_KEY) ?? null;
+    }
+    return await SecureStore.getItemAsync(API_TOKEN_KEY);
+  } catch (error) {
+    console.error('❌ Failed to read API token:', error);
+    return null;
+  }
+}
+
+// Saves the token this device sends; null forgets it
+export async function setApiToken(token: string | null): Promise<void> {
+  if (Platform.OS === 'web') {
+    if (token === null) {
+      localStorage?.removeItem(API_TOKEN_KEY);
+    } else {
+      localStorage?.setItem(API_TOKEN_KEY, token);
+    }
+  } else if (token === null) {
+    await SecureStore.deleteItemAsync(API_TOKEN_KEY);
+  } else {
+    await SecureStore.setItemAsync(API_TOKEN_KEY, token);
+  }
+}
+
+// On first launch, mints the household's first admin token for this device
+// and saves it, so the app's own requests and event streams get through
+export async function ensureApiToken(
+  repository: TimerRepository,
+  now: number,
+): Promise<void> {
+  if ((await getApiToken()) !== null) return;
+  await repository.initialize();
+  const minted = await bootstrapApiToken(repository, now);
+  if (minted) await setApiToken(minted.secret);
+}
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import {
+  MAX_SNOOZES_PER_INTERVAL,
+  countSnoozes,
+  parseSnooze,
+  snoozeTimer,
+} from './snooze';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+import { TimerLifecycleAction, transition } from './timerMachine';
+import { TimerState } from '../contexts/TimerContext';
+
+describe('snooze', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+
+  beforeEach(() => {
+    clock = new FakeClock(1700000000000);
+    repository = new InMemoryTimerRepository(clock);
+  });
+
+  // Creates a timer whose interval has just run out
+  const createAlertingTimer = async (): Promise<TimerState> => {
+    const timer = await repository.createTimer({
+      duration: 1800,
+      startTime: clock.now(),
+      isActive: true,
+      remainingTime: 1800,
+      isNotificationMode: false,
+    });
+    clock.advanceSeconds(1800);
+    return repository.updateTimer(
+      timer.id,
+      { isActive: false, remainingTime: 0, isNotificationMode: true },
+      'expire',
+    );
+  };
+
+  it('should leave exactly the snooze to run', async () => {
+    const timer = await createAlertingTimer();
+
+    const result = await snoozeTimer(repository, timer, 5, clock.now());
+
+    expect(result).toEqual({
+      timer: expect.objectContaining({
+        duration: 1800,
+        isActive: true,
+        // Started 25 minutes ago, so 5 of the 30 minutes are left
+        startTime: clock.now() - 1500 * 1000,
+        remainingTime: 300,
+        isNotificationMode: false,
+        isSnoozed: true,
+      }),
+    });
+    expect(await countSnoozes(repository, timer.id)).toBe(1);
+  });
+
+  it('should cap snoozes per interval and reset on the next start', async () => {
+    let timer = await createAlertingTimer();
+    for (let i = 0; i < MAX_SNOOZES_PER_INTERVAL; i++) {
+      await snoozeTimer(repository, timer, 5, clock.now());
+      timer = await repository.updateTimer(timer.id, {
+        isActive: false,
+        remainingTime: 0,
+        isNotificationMode: true,
+      });
+    }
+
+    expect(await snoozeTimer(repository, timer, 5, clock.now())).toEqual({
+      error:
+        'Snooze limit reached. An alert can be snoozed 3 times per interval.',
+    });
+
+    await repository.updateTimer(timer.id, { isActive: true }, 'start');
+    expect(await countSnoozes(repository, timer.id)).toBe(0);
+  });
+
+  it('should keep counting snoozes through a pause and resume', async () => {
+    const timer = await createAlertingTimer();
+    const act = async (action: TimerLifecycleAction) => {
+      const current = (await repository.getTimer(timer.id))!;
+      const result = transition(current, action, clock.now());
+      if ('error' in result) throw new Error(result.error);
+      await repository.updateTimer(timer.id, result.updates, result.event);
+    };
+
+    await snoozeTimer(repository, timer, 5, clock.now());
+    clock.advanceSeconds(60);
+    await act({ type: 'pause' });
+    await act({ type: 'start' });
+
+    expect(await countSnoozes(repository, timer.id)).toBe(1);
+  });
+
+  it('should only snooze an alerting timer', async () => {
+    const timer = await createAlertingTimer();
+
+    expect(
+      await snoozeTimer(
+        repository,
+        { ...timer, isNotificationMode: false },
+        5,
+        clock.now(),
+      ),
+    ).toEqual({
+      error: 'Cannot snooze a timer that is idle.',
+    });
+  });
+
+  describe('parseSnooze', () => {
+    it('should default to 5 minutes', () => {
+      expect(parseSnooze({})).toEqual({ minutes: 5 });
+      expect(parseSnooze({ minutes: 15 })).toEqual({ minutes: 15 });
+    });
+
+    it.each([[0], [61], [2.5], ['10']])('should reject %j', (minutes) => {
+      expect(parseSnooze({ minutes })).toEqual({
+        errors: [
+          {
+            field: 'minutes',
+            message: 'Invalid minutes. Must be a whole number from 1 to 60.',
+          },
+        ],
+      });
+    });
+  });
+});
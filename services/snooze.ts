@@ -0,0 +1,90 @@
+import { TimerState, TimerTransitionEvent } from '../contexts/TimerContext';
+import { TimerRepository } from './timerRepository';
+import { canTransition, transition } from './timerMachine';
+import { FieldError, check, optional, validate } from './validation';
+
+// Snooze lengths offered on the alert screen, in minutes
+export const SNOOZE_OPTIONS = [5, 10, 15];
+export const DEFAULT_SNOOZE_MINUTES = 5;
+export const MAX_SNOOZE_MINUTES = 60;
+// Snoozes allowed before the alert has to be dismissed
+export const MAX_SNOOZES_PER_INTERVAL = 3;
+
+// Transitions that begin a new interval and so reset the snooze count.
+// Resuming after a pause carries on the same interval, so it is not one.
+const INTERVAL_STARTS: TimerTransitionEvent[] = [
+  'create',
+  'start',
+  'restart',
+  'reset',
+  'duration',
+];
+
+// Snoozes recorded since the timer's current interval began
+export async function countSnoozes(
+  repository: TimerRepository,
+  timerId: string,
+): Promise<number> {
+  const transitions = await repository.getTimerTransitions(timerId);
+  let count = 0;
+  for (const transition of transitions) {
+    if (INTERVAL_STARTS.includes(transition.event)) count = 0;
+    if (transition.event === 'snooze') count += 1;
+  }
+  return count;
+}
+
+// Silences an alert and counts down `minutes` more. Returns an error when
+// the timer is not alerting or is out of snoozes. expectedVersion is passed
+// on to updateTimer.
+export async function snoozeTimer(
+  repository: TimerRepository,
+  timer: TimerState,
+  minutes: number,
+  now: number,
+  expectedVersion?: number,
+): Promise<{ timer: TimerState } | { error: string }> {
+  if (
+    canTransition(timer, 'snooze') &&
+    (await countSnoozes(repository, timer.id)) >= MAX_SNOOZES_PER_INTERVAL
+  ) {
+    return {
+      error: `Snooze limit reached. An alert can be snoozed ${MAX_SNOOZES_PER_INTERVAL} times per interval.`,
+    };
+  }
+
+  const result = transition(
+    timer,
+    { type: 'snooze', seconds: minutes * 60 },
+    now,
+  );
+  if ('error' in result) return result;
+  return {
+    timer: await repository.updateTimer(
+      timer.id,
+      result.updates,
+      result.event,
+      expectedVersion,
+    ),
+  };
+}
+
+// Reads the optional { minutes } body of a snooze request
+export function parseSnooze(
+  body: Record<string, unknown>,
+): { minutes: number } | { errors: FieldError[] } {
+  const result = validate(body, {
+    minutes: optional(
+      check<number>(
+        (value) =>
+          Number.isInteger(value) &&
+          (value as number) >= 1 &&
+          (value as number) <= MAX_SNOOZE_MINUTES,
+        `a whole number from 1 to ${MAX_SNOOZE_MINUTES}`,
+      ),
+    ),
+  });
+  return 'errors' in result
+    ? result
+    : { minutes: result.value.minutes ?? DEFAULT_SNOOZE_MINUTES };
+}
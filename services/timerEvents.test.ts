@@ -0,0 +1,277 @@
+/**
+ * @jest-environment node
+ */
+import {
+  EVENT_POLL_INTERVAL_MS,
+  HEARTBEAT_INTERVAL_MS,
+  parseEventStream,
+  parseLastEventId,
+  streamTimerEvents,
+} from './timerEvents';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+import { FakeClock } from './clock';
+import { transition } from './timerMachine';
+import { TimerState } from '../contexts/TimerContext';
+
+describe('timerEvents', () => {
+  let clock: FakeClock;
+  let repository: InMemoryTimerRepository;
+  let abort: AbortController;
+
+  const createTimer = () => {
+    clock.advanceSeconds(1);
+    return repository.createTimer({
+      duration: 600,
+      startTime: clock.now(),
+      isActive: false,
+      remainingTime: 600,
+      isNotificationMode: false,
+    });
+  };
+
+  const start = async (id: string) => {
+    const timer = (await repository.getTimer(id))!;
+    const result = transition(timer, { type: 'start' }, clock.now());
+    if ('error' in result) throw new Error(result.error);
+    return repository.updateTimer(id, result.updates, result.event);
+  };
+
+  // Lets the stream finish the check a timer tick started
+  const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+  const open = (
+    resolve: () => Promise<TimerState | null>,
+    lastEventId?: number,
+  ) =>
+    streamTimerEvents(repository, clock, resolve, {
+      lastEventId,
+      signal: abort.signal,
+    });
+
+  const poll = async () => {
+    jest.advanceTimersByTime(EVENT_POLL_INTERVAL_MS);
+    await flush();
+  };
+
+  // Closes the stream and reads back the events it sent
+  const readEvents = async (response: Response) => {
+    await flush();
+    abort.abort();
+    return parseEventStream(await response.text()).events.map((event) => ({
+      id: event.id,
+      ...JSON.parse(event.data),
+    }));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'],
+    });
+    clock = new FakeClock(1700000000000);
+    repository = new InMemoryTimerRepository(clock);
+    abort = new AbortController();
+  });
+
+  afterEach(() => {
+    abort.abort();
+    jest.useRealTimers();
+  });
+
+  it('should open with the latest state and stream each change', async () => {
+    const timer = await createTimer();
+    const response = open(() => repository.getTimer(timer.id));
+    await flush();
+
+    await start(timer.id);
+    await poll();
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(await readEvents(response)).toEqual([
+      expect.objectContaining({
+        id: '1',
+        event: 'create',
+        timer: expect.objectContaining({ id: timer.id, isActive: false }),
+      }),
+      expect.objectContaining({
+        id: '2',
+        event: 'start',
+        timer: expect.objectContaining({ isActive: true }),
+      }),
+    ]);
+  });
+
+  it('should resume after Last-Event-ID with every missed change', async () => {
+    const timer = await createTimer();
+    await start(timer.id);
+    await repository.updateTimer(timer.id, { isActive: false }, 'pause');
+
+    const response = open(() => repository.getTimer(timer.id), 1);
+
+    expect(
+      (await readEvents(response)).map(({ id, event }) => ({ id, event })),
+    ).toEqual([
+      { id: '2', event: 'start' },
+      { id: '3', event: 'pause' },
+    ]);
+  });
+
+  it('should replay each change with the state it left the timer in', async () => {
+    const timer = await createTimer();
+    await start(timer.id);
+    await repository.updateTimer(timer.id, { isActive: false }, 'pause');
+
+    const response = open(() => repository.getTimer(timer.id), 1);
+
+    expect(
+      (await readEvents(response)).map(({ event, timer }) => [
+        event,
+        timer.isActive,
+      ]),
+    ).toEqual([
+      ['start', true],
+      ['pause', false],
+    ]);
+  });
+
+  it('should stream expiry of a timer nobody is ticking', async () => {
+    const timer = await createTimer();
+    await start(timer.id);
+    const response = open(() => repository.getTimer(timer.id), 2);
+    await flush();
+
+    clock.advanceSeconds(600);
+    await poll();
+
+    expect(await readEvents(response)).toEqual([
+      expect.objectContaining({
+        event: 'expire',
+        timer: expect.objectContaining({
+          isActive: false,
+          isNotificationMode: true,
+        }),
+      }),
+    ]);
+  });
+
+  it('should stream a silent expiry during quiet hours', async () => {
+    await repository.createSchedule({
+      name: 'All quiet',
+      windows: [],
+      quietHours: { start: '00:00', end: '00:00' },
+      isActive: true,
+    });
+    const timer = await createTimer();
+    await start(timer.id);
+    const response = open(() => repository.getTimer(timer.id), 2);
+    await flush();
+
+    clock.advanceSeconds(600);
+    await poll();
+
+    expect(await readEvents(response)).toEqual([
+      expect.objectContaining({
+        event: 'expire',
+        timer: expect.objectContaining({
+          isActive: false,
+          isNotificationMode: false,
+        }),
+      }),
+    ]);
+  });
+
+  it('should follow a new current timer', async () => {
+    const first = await createTimer();
+    const response = open(() => repository.getCurrentTimer());
+    await flush();
+
+    const second = await createTimer();
+    await poll();
+
+    expect(
+      (await readEvents(response)).map(({ event, timer }) => [event, timer.id]),
+    ).toEqual([
+      ['create', first.id],
+      ['create', second.id],
+    ]);
+  });
+
+  it('should send heartbeats until the request is aborted', async () => {
+    const response = open(async () => null);
+
+    jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    await flush();
+    abort.abort();
+
+    expect(await response.text()).toBe('retry: 3000\n\n: heartbeat\n\n');
+  });
+
+  it('should stop quietly when aborted after the client cancels', async () => {
+    const response = open(async () => null);
+    await flush();
+
+    // The app's React Native types leave out Response.body
+    const { body } = response as unknown as {
+      body: { cancel(): Promise<void> };
+    };
+    await body.cancel();
+    expect(jest.getTimerCount()).toBe(0);
+
+    expect(() => abort.abort()).not.toThrow();
+    await flush();
+  });
+
+  describe('parseEventStream', () => {
+    it('should split complete events and keep the partial rest', () => {
+      expect(
+        parseEventStream(
+          ': heartbeat\n\nid: 4\nevent: timer\ndata: {"a":1}\n\nid: 5\nda',
+        ),
+      ).toEqual({
+        events: [{ id: '4', event: 'timer', data: '{"a":1}' }],
+        rest: 'id: 5\nda',
+      });
+    });
+
+    it('should join multi-line data and default the event type', () => {
+      expect(parseEventStream('data: one\r\ndata: two\r\n\r\n')).toEqual({
+        events: [{ id: null, event: 'message', data: 'one\ntwo' }],
+        rest: '',
+      });
+    });
+  });
+
+  describe('parseLastEventId', () => {
+    it('should read the header, then the query string', () => {
+      const url = 'http://localhost:3000/api/timers/current/events';
+
+      expect(
+        parseLastEventId(
+          new Request(`${url}?lastEventId=3`, {
+            headers: { 'Last-Event-ID': '7' },
+          }),
+        ),
+      ).toEqual({ value: { lastEventId: 7 } });
+      expect(parseLastEventId(new Request(`${url}?lastEventId=3`))).toEqual({
+        value: { lastEventId: 3 },
+      });
+      expect(parseLastEventId(new Request(url))).toEqual({ value: {} });
+    });
+
+    it('should reject an id that is not a positive integer', () => {
+      expect(
+        parseLastEventId(
+          new Request('http://localhost:3000/api/timers/current/events', {
+            headers: { 'Last-Event-ID': 'abc' },
+          }),
+        ),
+      ).toEqual({
+        errors: [
+          {
+            field: 'lastEventId',
+            message: 'Invalid lastEventId. Must be a positive integer.',
+          },
+        ],
+      });
+    });
+  });
+});
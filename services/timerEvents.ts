@@ -0,0 +1,215 @@
+import {
+  TimerState,
+  TimerTransition,
+  TimerTransitionEvent,
+} from '../contexts/TimerContext';
+import { TimerRepository } from './timerRepository';
+import { Clock } from './clock';
+import { expireOverdueTimer } from './missedAlerts';
+import { isQuietTime } from './schedules';
+import { FieldError, positiveIntegerParam, validate } from './validation';
+import { ReadableStream, TextEncoder } from './webGlobals';
+
+// Live timer state as Server-Sent Events. Each state change is sent as a
+// `timer` event whose id is its transition id, so a client reconnecting with
+// Last-Event-ID picks up every change it missed.
+
+// How often the stream looks for new transitions
+export const EVENT_POLL_INTERVAL_MS = 1000;
+// Comment lines keep idle connections from being closed by proxies
+export const HEARTBEAT_INTERVAL_MS = 15000;
+
+// The data of one `timer` event
+export interface TimerStreamEvent {
+  event: TimerTransitionEvent;
+  occurredAt: number;
+  timer: TimerState;
+}
+
+// One event read back off a stream
+export interface ServerSentEvent {
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+// The timer as it was right after `transition`. The latest transition gets
+// the timer as stored; earlier ones, replayed after a Last-Event-ID, get the
+// state their transition recorded, so a replayed pause never shows a running
+// timer.
+function timerAtTransition(
+  timer: TimerState,
+  transition: TimerTransition,
+  latest: TimerTransition,
+): TimerState {
+  if (transition.id === latest.id) return timer;
+  const { duration, startTime, isActive, remainingTime, isNotificationMode } =
+    transition;
+  return {
+    ...timer,
+    duration,
+    startTime,
+    isActive,
+    remainingTime,
+    isNotificationMode,
+  };
+}
+
+export function formatEvent(id: number, data: TimerStreamEvent): string {
+  return `id: ${id}\nevent: timer\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Splits complete events off the front of `buffer`; `rest` is the partial
+// event still waiting for more text. Comment lines (heartbeats) are skipped.
+export function parseEventStream(buffer: string): {
+  events: ServerSentEvent[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    let id: string | null = null;
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line === '' || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'id') id = value;
+      else if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+    if (data.length > 0) events.push({ id, event, data: data.join('\n') });
+  }
+
+  return { events, rest };
+}
+
+// The id of the last event a reconnecting client saw. EventSource resends it
+// as the Last-Event-ID header; `?lastEventId=` suits clients that cannot set
+// headers.
+export function parseLastEventId(
+  request: Request,
+): { value: { lastEventId?: number } } | { errors: FieldError[] } {
+  return validate(
+    {
+      lastEventId:
+        request.headers.get('Last-Event-ID') ??
+        Object.fromEntries(new URL(request.url).searchParams).lastEventId ??
+        undefined,
+    },
+    { lastEventId: positiveIntegerParam() },
+  );
+}
+
+// Streams the changes of whichever timer `resolveTimer` returns, checked
+// every EVENT_POLL_INTERVAL_MS. Without `lastEventId` the stream opens with
+// the timer's latest state. Active timers found overdue are expired first
+// (silently in quiet hours), so expiry reaches the stream even when no client
+// is ticking.
+export function streamTimerEvents(
+  repo: TimerRepository,
+  clock: Clock,
+  resolveTimer: () => Promise<TimerState | null>,
+  { lastEventId, signal }: { lastEventId?: number; signal?: AbortSignal } = {},
+): Response {
+  const encoder = new TextEncoder();
+  let lastId = lastEventId ?? null;
+  let lastTimerId: string | null = null;
+  let poll: ReturnType<typeof setInterval> | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stop = () => {
+    closed = true;
+    if (poll !== undefined) clearInterval(poll);
+    if (heartbeat !== undefined) clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      const sendChanges = async () => {
+        let timer = await resolveTimer();
+        if (!timer || closed) return;
+        if (timer.isActive) {
+          // Quiet hours expire without an alert, as the app's own tick does
+          const now = clock.now();
+          const silent = isQuietTime(await repo.getActiveSchedule(), now);
+          timer =
+            (await expireOverdueTimer(repo, timer, now, silent))?.timer ??
+            timer;
+        }
+
+        const transitions = await repo.getTimerTransitions(timer.id);
+        const latest = transitions[transitions.length - 1];
+        const after = lastId;
+        const changes =
+          after === null
+            ? []
+            : transitions.filter((transition) => transition.id > after);
+        // A newly opened stream, or a new current timer with no changes since
+        // lastId, opens with the timer's latest state
+        const switched =
+          after === null || (lastTimerId !== null && timer.id !== lastTimerId);
+        const unsent =
+          changes.length === 0 && switched && latest ? [latest] : changes;
+        lastTimerId = timer.id;
+
+        for (const transition of unsent) {
+          send(
+            formatEvent(transition.id, {
+              event: transition.event,
+              occurredAt: transition.occurredAt,
+              timer: timerAtTransition(timer, transition, latest),
+            }),
+          );
+          lastId = Math.max(lastId ?? 0, transition.id);
+        }
+      };
+
+      let checking = false;
+      const check = () => {
+        if (checking || closed) return;
+        checking = true;
+        sendChanges()
+          .catch((error) => console.error('Timer event stream error:', error))
+          .finally(() => {
+            checking = false;
+          });
+      };
+
+      // Tells EventSource how long to wait before reconnecting
+      send(`retry: ${EVENT_POLL_INTERVAL_MS * 3}\n\n`);
+      check();
+      poll = setInterval(check, EVENT_POLL_INTERVAL_MS);
+      heartbeat = setInterval(
+        () => send(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS,
+      );
+
+      // After a cancel the stream is already closed, and closing it again
+      // would throw
+      signal?.addEventListener('abort', () => {
+        if (closed) return;
+        stop();
+        controller.close();
+      });
+    },
+    cancel: stop,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * @jest-environment node
+ */
+import { TimerState } from '../contexts/TimerContext';
+import {
+  TimerLifecycleAction,
+  canTransition,
+  expiresAt,
+  remainingTimeAt,
+  timerStatus,
+  transition,
+} from './timerMachine';
+
+describe('timerMachine', () => {
+  const now = 1700000000000;
+  const idle: TimerState = {
+    id: 'timer_1',
+    duration: 1800,
+    startTime: now,
+    isActive: false,
+    remainingTime: 1800,
+    isNotificationMode: false,
+  };
+  const running = {
+    ...idle,
+    isActive: true,
+    startTime: now - 600 * 1000,
+    runSegments: [{ startedAt: now - 600 * 1000, endedAt: null }],
+  };
+  // Ran for 10 minutes, then stopped 5 minutes ago
+  const paused = {
+    ...idle,
+    remainingTime: 1200,
+    runSegments: [{ startedAt: now - 900 * 1000, endedAt: now - 300 * 1000 }],
+  };
+  const alerting = { ...idle, remainingTime: 0, isNotificationMode: true };
+  const snoozed = { ...running, isSnoozed: true };
+
+  it('should derive the status from the stored fields', () => {
+    expect(timerStatus(idle)).toBe('idle');
+    expect(timerStatus(running)).toBe('running');
+    expect(timerStatus(paused)).toBe('paused');
+    expect(timerStatus(alerting)).toBe('alerting');
+    expect(timerStatus(snoozed)).toBe('snoozed');
+    // Silently expired or dismissed
+    expect(timerStatus({ ...idle, remainingTime: 0 })).toBe('idle');
+    // Paused with all or none of the interval left
+    expect(timerStatus({ ...paused, remainingTime: 1800 })).toBe('paused');
+    expect(timerStatus({ ...paused, remainingTime: 0 })).toBe('paused');
+  });
+
+  it('should keep the segment of a pause in the first second', () => {
+    const justStarted = {
+      ...running,
+      startTime: now - 500,
+      runSegments: [{ startedAt: now - 500, endedAt: null }],
+    };
+    const pause = transition(justStarted, { type: 'pause' }, now);
+    const stopped = {
+      ...justStarted,
+      ...('updates' in pause && pause.updates),
+    };
+
+    expect(stopped.remainingTime).toBe(1800);
+    expect(timerStatus(stopped)).toBe('paused');
+    expect(transition(stopped, { type: 'start' }, now + 1000)).toMatchObject({
+      updates: {
+        runSegments: [
+          { startedAt: now - 500, endedAt: now },
+          { startedAt: now + 1000, endedAt: null },
+        ],
+      },
+    });
+  });
+
+  it('should stay paused when adjusted down to zero', () => {
+    const adjust = transition(paused, { type: 'adjust', seconds: -1500 }, now);
+    const adjusted = { ...paused, ...('updates' in adjust && adjust.updates) };
+
+    expect(adjusted.remainingTime).toBe(0);
+    expect(timerStatus(adjusted)).toBe('paused');
+    expect(canTransition(adjusted, 'start')).toBe(true);
+    expect(canTransition(adjusted, 'restart')).toBe(false);
+  });
+
+  it('should count down only while running', () => {
+    expect(remainingTimeAt(running, now)).toBe(1200);
+    expect(remainingTimeAt(running, now + 1800 * 1000)).toBe(0);
+    expect(remainingTimeAt(paused, now + 60 * 1000)).toBe(1200);
+  });
+
+  it('should count timers without run segments from their start time', () => {
+    const legacy = { ...running, runSegments: [] };
+    expect(remainingTimeAt(legacy, now)).toBe(1200);
+  });
+
+  it('should work out when a running timer reaches zero', () => {
+    expect(expiresAt(running)).toBe(now + 1200 * 1000);
+    expect(expiresAt(idle)).toBeNull();
+
+    // Resumed after a 10 minute run: 20 minutes left from the resume
+    const resumed = {
+      ...paused,
+      isActive: true,
+      runSegments: [...paused.runSegments, { startedAt: now, endedAt: null }],
+    };
+    expect(expiresAt(resumed)).toBe(now + 1200 * 1000);
+  });
+
+  it('should start an idle or paused timer', () => {
+    expect(transition(idle, { type: 'start' }, now)).toEqual({
+      updates: {
+        isActive: true,
+        startTime: now,
+        isNotificationMode: false,
+        runSegments: [{ startedAt: now, endedAt: null }],
+      },
+      event: 'start',
+    });
+    expect(canTransition(paused, 'start')).toBe(true);
+  });
+
+  it('should begin a new interval with the length given', () => {
+    expect(
+      transition(idle, { type: 'start', duration: 2700 }, now),
+    ).toMatchObject({ updates: { duration: 2700, remainingTime: 2700 } });
+    expect(
+      transition(running, { type: 'reset', duration: 2700 }, now),
+    ).toMatchObject({ updates: { duration: 2700, remainingTime: 2700 } });
+
+    // Resuming carries on the interval it paused
+    const result = transition(paused, { type: 'start', duration: 2700 }, now);
+    expect('updates' in result && result.updates.duration).toBeUndefined();
+  });
+
+  it('should keep the time already run when resuming', () => {
+    const result = transition(paused, { type: 'start' }, now);
+    const resumed = { ...paused, ...('updates' in result && result.updates) };
+
+    expect(result).toMatchObject({ event: 'resume' });
+
+    expect(resumed.runSegments).toEqual([
+      { startedAt: now - 900 * 1000, endedAt: now - 300 * 1000 },
+      { startedAt: now, endedAt: null },
+    ]);
+    expect(remainingTimeAt(resumed, now + 60 * 1000)).toBe(1140);
+  });
+
+  it('should pause with the time left', () => {
+    expect(transition(running, { type: 'pause' }, now)).toEqual({
+      updates: {
+        isActive: false,
+        remainingTime: 1200,
+        runSegments: [{ startedAt: now - 600 * 1000, endedAt: now }],
+      },
+      event: 'pause',
+    });
+  });
+
+  it('should snooze an alert and clear the flag when the snooze ends', () => {
+    const snooze = transition(alerting, { type: 'snooze', seconds: 300 }, now);
+    expect(snooze).toEqual({
+      updates: {
+        isActive: true,
+        startTime: now - 1500 * 1000,
+        remainingTime: 300,
+        isNotificationMode: false,
+        isSnoozed: true,
+        runSegments: [{ startedAt: now - 1500 * 1000, endedAt: null }],
+      },
+      event: 'snooze',
+    });
+    expect(transition(snoozed, { type: 'expire' }, now)).toEqual({
+      updates: {
+        isActive: false,
+        remainingTime: 0,
+        isNotificationMode: true,
+        runSegments: [],
+        isSnoozed: false,
+      },
+      event: 'expire',
+    });
+  });
+
+  it('should stop without alerting on a silent expiry', () => {
+    const result = transition(running, { type: 'expire', silent: true }, now);
+    expect(result).toMatchObject({ updates: { isNotificationMode: false } });
+    expect(
+      timerStatus({ ...running, ...('updates' in result && result.updates) }),
+    ).toBe('idle');
+  });
+
+  it('should move the end of the interval when adjusted', () => {
+    expect(transition(running, { type: 'adjust', seconds: 300 }, now)).toEqual({
+      updates: { adjustment: 300, remainingTime: 1500 },
+      event: 'adjust',
+    });
+    // Never below zero
+    expect(
+      transition(paused, { type: 'adjust', seconds: -1500 }, now),
+    ).toMatchObject({ updates: { adjustment: -1200, remainingTime: 0 } });
+  });
+
+  it('should keep the configured duration through adjust and reset', () => {
+    const apply = (timer: TimerState, action: TimerLifecycleAction) => {
+      const result = transition(timer, action, now);
+      return { ...timer, ...('updates' in result && result.updates) };
+    };
+
+    const adjusted = apply(running, { type: 'adjust', seconds: 300 });
+    expect(adjusted.duration).toBe(1800);
+    expect(remainingTimeAt(adjusted, now)).toBe(1500);
+    expect(expiresAt(adjusted)).toBe(now + 1500 * 1000);
+
+    const reset = apply(adjusted, { type: 'reset' });
+    expect(reset).toMatchObject({
+      duration: 1800,
+      remainingTime: 1800,
+      adjustment: 0,
+    });
+    expect(apply(reset, { type: 'start' }).adjustment).toBe(0);
+  });
+
+  it('should reset from any state', () => {
+    for (const timer of [idle, running, paused, alerting, snoozed]) {
+      expect(canTransition(timer, 'reset')).toBe(true);
+    }
+  });
+
+  it.each([
+    [{ type: 'start' }, running, 'Cannot start a timer that is running.'],
+    [{ type: 'start' }, alerting, 'Cannot start a timer that is alerting.'],
+    [{ type: 'pause' }, idle, 'Cannot pause a timer that is idle.'],
+    [{ type: 'dismiss' }, running, 'Cannot dismiss a timer that is running.'],
+    [
+      { type: 'snooze', seconds: 300 },
+      snoozed,
+      'Cannot snooze a timer that is snoozed.',
+    ],
+    [{ type: 'expire' }, alerting, 'Cannot expire a timer that is alerting.'],
+    [{ type: 'expire' }, idle, 'Cannot expire a timer that is idle.'],
+    [{ type: 'expire' }, paused, 'Cannot expire a timer that is paused.'],
+    [
+      { type: 'duration', duration: 600 },
+      alerting,
+      'Cannot change the duration of a timer that is alerting.',
+    ],
+    [
+      { type: 'restart', duration: 1800 },
+      running,
+      'Cannot restart a timer that is running.',
+    ],
+  ] as [TimerLifecycleAction, TimerState, string][])(
+    'should refuse %j',
+    (action, timer, error) => {
+      expect(transition(timer, action, now)).toEqual({ error });
+    },
+  );
+});
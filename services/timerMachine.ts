@@ -0,0 +1,233 @@
+import { TimerState, TimerTransitionEvent } from '../contexts/TimerContext';
+import { elapsedSeconds } from './clock';
+import { closeSegments, runSeconds } from './runSegments';
+
+// The lifecycle every timer moves through. Both TimerProvider and the API
+// routes change timers only through `transition`, so they agree on which
+// moves are allowed and what each one does.
+//
+//   idle ──start──▶ running ──pause──▶ paused ──start──▶ running
+//   running ──expire──▶ alerting ──snooze──▶ snoozed ──expire──▶ alerting
+//   alerting ──dismiss──▶ idle
+//   alerting or idle ──restart──▶ running (the next recurring interval)
+//   any ──reset──▶ idle
+export type TimerStatus =
+  'idle' | 'running' | 'paused' | 'alerting' | 'snoozed';
+
+// A start from idle or a reset may carry the length of the new interval,
+// e.g. the schedule's for the time of day, in place of the timer's duration
+export type TimerLifecycleAction =
+  | { type: 'start'; duration?: number }
+  | { type: 'pause' }
+  | { type: 'reset'; duration?: number }
+  | { type: 'duration'; duration: number }
+  // A silent expiry (during quiet hours) stops the timer without alerting
+  | { type: 'expire'; silent?: boolean }
+  | { type: 'dismiss' }
+  | { type: 'snooze'; seconds: number }
+  // Adds (or with a negative number takes) seconds off the time left
+  | { type: 'adjust'; seconds: number }
+  | { type: 'restart'; duration: number };
+
+// States each action may be taken from
+export const ALLOWED_TRANSITIONS: Record<
+  TimerLifecycleAction['type'],
+  TimerStatus[]
+> = {
+  start: ['idle', 'paused'],
+  pause: ['running', 'snoozed'],
+  reset: ['idle', 'running', 'paused', 'alerting', 'snoozed'],
+  duration: ['idle', 'running', 'paused'],
+  expire: ['running', 'snoozed'],
+  dismiss: ['alerting'],
+  snooze: ['alerting'],
+  adjust: ['running', 'paused', 'snoozed'],
+  restart: ['idle', 'alerting'],
+};
+
+const ACTION_VERBS: Record<TimerLifecycleAction['type'], string> = {
+  start: 'start',
+  pause: 'pause',
+  reset: 'reset',
+  duration: 'change the duration of',
+  expire: 'expire',
+  dismiss: 'dismiss',
+  snooze: 'snooze',
+  adjust: 'adjust',
+  restart: 'restart',
+};
+
+export function timerStatus(timer: TimerState): TimerStatus {
+  if (timer.isNotificationMode) return 'alerting';
+  if (timer.isActive) return timer.isSnoozed ? 'snoozed' : 'running';
+  // A stopped timer is paused while it keeps the run segments of an
+  // unfinished interval, however much or little time is left
+  return (timer.runSegments ?? []).length > 0 ? 'paused' : 'idle';
+}
+
+// Seconds the current interval lasts: the duration plus any adjustment
+export const intervalSeconds = (timer: TimerState): number =>
+  timer.duration + (timer.adjustment ?? 0);
+
+// Seconds left at `now`: the interval less everything run so far. A stopped
+// timer keeps what it had left.
+export function remainingTimeAt(timer: TimerState, now: number): number {
+  if (!timer.isActive) return timer.remainingTime;
+  const segments = timer.runSegments ?? [];
+  // Timers saved before run segments existed count from their start time
+  const elapsed =
+    segments.length > 0
+      ? runSeconds(segments, now)
+      : elapsedSeconds(timer.startTime, now);
+  return Math.max(0, intervalSeconds(timer) - elapsed);
+}
+
+// When a running timer's countdown reaches zero, in milliseconds; null when
+// it is not running
+export function expiresAt(timer: TimerState): number | null {
+  if (!timer.isActive) return null;
+  const segments = timer.runSegments ?? [];
+  const open = segments.find((segment) => segment.endedAt === null);
+  if (!open) return timer.startTime + intervalSeconds(timer) * 1000;
+  const ran = segments.reduce(
+    (total, segment) =>
+      segment.endedAt === null
+        ? total
+        : total + segment.endedAt - segment.startedAt,
+    0,
+  );
+  return open.startedAt + intervalSeconds(timer) * 1000 - ran;
+}
+
+export function canTransition(
+  timer: TimerState,
+  type: TimerLifecycleAction['type'],
+): boolean {
+  return ALLOWED_TRANSITIONS[type].includes(timerStatus(timer));
+}
+
+// Works out the changes `action` makes to the timer at `now`, and the event
+// to record them under. Returns an error when the timer's current state does
+// not allow the action.
+export function transition(
+  timer: TimerState,
+  action: TimerLifecycleAction,
+  now: number,
+):
+  | { updates: Partial<TimerState>; event: TimerTransitionEvent }
+  | { error: string } {
+  const status = timerStatus(timer);
+  if (!ALLOWED_TRANSITIONS[action.type].includes(status)) {
+    return {
+      error: `Cannot ${ACTION_VERBS[action.type]} a timer that is ${status}.`,
+    };
+  }
+
+  let updates: Partial<TimerState>;
+  switch (action.type) {
+    case 'start':
+      // Resuming adds a segment to the interval; starting begins a new one
+      updates = {
+        isActive: true,
+        startTime: now,
+        isNotificationMode: false,
+        runSegments: [
+          ...(status === 'paused' ? (timer.runSegments ?? []) : []),
+          { startedAt: now, endedAt: null },
+        ],
+      };
+      if (status === 'idle' && action.duration !== undefined) {
+        updates.duration = action.duration;
+        updates.remainingTime = action.duration;
+      }
+      break;
+    case 'pause':
+      updates = {
+        isActive: false,
+        remainingTime: remainingTimeAt(timer, now),
+        runSegments: closeSegments(timer.runSegments ?? [], now),
+      };
+      break;
+    case 'reset':
+      updates = {
+        duration: action.duration ?? timer.duration,
+        isActive: false,
+        startTime: now,
+        remainingTime: action.duration ?? timer.duration,
+        isNotificationMode: false,
+        runSegments: [],
+      };
+      break;
+    case 'duration':
+      updates = {
+        duration: action.duration,
+        remainingTime: action.duration,
+        startTime: timer.isActive ? now : timer.startTime,
+        runSegments: timer.isActive ? [{ startedAt: now, endedAt: null }] : [],
+      };
+      break;
+    case 'expire':
+      // The interval is over, so its segments go with it
+      updates = {
+        isActive: false,
+        remainingTime: 0,
+        isNotificationMode: !action.silent,
+        runSegments: [],
+      };
+      break;
+    case 'dismiss':
+      updates = { isNotificationMode: false };
+      break;
+    case 'snooze':
+      // The timer keeps its duration; its start moves, and one segment
+      // stands in for the rest of the interval, so that exactly the snooze
+      // is left to run
+      const startTime = now - (timer.duration - action.seconds) * 1000;
+      updates = {
+        isActive: true,
+        startTime,
+        remainingTime: action.seconds,
+        isNotificationMode: false,
+        isSnoozed: true,
+        runSegments: [{ startedAt: startTime, endedAt: null }],
+      };
+      break;
+    case 'adjust':
+      // Moves the end of this interval only; the time already run and the
+      // configured duration are kept
+      const remaining = remainingTimeAt(timer, now);
+      const adjusted = Math.max(0, remaining + action.seconds);
+      updates = {
+        adjustment: (timer.adjustment ?? 0) + adjusted - remaining,
+        remainingTime: adjusted,
+      };
+      break;
+    case 'restart':
+      updates = {
+        duration: action.duration,
+        isActive: true,
+        startTime: now,
+        remainingTime: action.duration,
+        isNotificationMode: false,
+        runSegments: [{ startedAt: now, endedAt: null }],
+      };
+      break;
+  }
+
+  // Leaving the snoozed state clears its flag
+  if (status === 'snoozed' && action.type !== 'snooze') {
+    updates.isSnoozed = false;
+  }
+  // Anything but pausing, resuming or adjusting ends the interval, and its
+  // adjustment with it
+  const keepsInterval =
+    action.type === 'pause' ||
+    action.type === 'adjust' ||
+    (action.type === 'start' && status === 'paused');
+  if (timer.adjustment && !keepsInterval) updates.adjustment = 0;
+  // Resuming is recorded apart from starting, so run and snooze counts only
+  // see new intervals
+  const event: TimerTransitionEvent =
+    action.type === 'start' && status === 'paused' ? 'resume' : action.type;
+  return { updates, event };
+}
@@ -0,0 +1,32 @@
+import { getTimerRepository, setTimerRepository } from './timerRepository';
+import { InMemoryTimerRepository } from './memoryTimerRepository';
+
+describe('getTimerRepository', () => {
+  afterEach(() => {
+    delete process.env.TIMER_REPOSITORY;
+    setTimerRepository(null);
+  });
+
+  it('should keep everything in memory with TIMER_REPOSITORY=memory', async () => {
+    process.env.TIMER_REPOSITORY = 'memory';
+    setTimerRepository(null);
+
+    const repository = getTimerRepository();
+    const child = await repository.createChild({
+      name: 'Ava',
+      avatarEmoji: '🦄',
+      defaultInterval: 2700,
+    });
+
+    expect(repository).toBeInstanceOf(InMemoryTimerRepository);
+    expect(getTimerRepository()).toBe(repository);
+    expect(await getTimerRepository().getChildren()).toEqual([child]);
+  });
+
+  it('should use the repository set in its place', () => {
+    const repository = new InMemoryTimerRepository();
+    setTimerRepository(repository);
+
+    expect(getTimerRepository()).toBe(repository);
+  });
+});
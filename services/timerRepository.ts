@@ -0,0 +1,168 @@
+import {
+  TimerState,
+  Child,
+  PottyEvent,
+  PottyOutcome,
+  TimerTransition,
+  TimerTransitionEvent,
+} from '../contexts/TimerContext';
+import { RetentionPolicy, RetentionResult, DailyAggregate } from './retention';
+import { BackupData } from './backup';
+import { ScheduleTemplate } from './schedules';
+import { MissedAlert } from './missedAlerts';
+import { ApiToken } from './apiTokens';
+
+// Thrown by updateTimer when the timer is no longer at the expected version
+export class StaleTimerError extends Error {
+  constructor(readonly timerId: string) {
+    super('Timer has changed since it was fetched');
+    this.name = 'StaleTimerError';
+  }
+}
+
+export const DEFAULT_TIMER_PAGE_SIZE = 50;
+export const MAX_TIMER_PAGE_SIZE = 100;
+
+// Position after the last timer of a page. Timers are ordered by creation
+// time (milliseconds) with the id breaking ties.
+export interface TimerCursor {
+  createdAt: number;
+  id: string;
+}
+
+export interface TimerListOptions {
+  childId?: string;
+  isActive?: boolean;
+  // Archived timers are left out unless asked for; true lists only those
+  archived?: boolean;
+  // Creation time bounds in milliseconds: createdAfter inclusive, createdBefore exclusive
+  createdAfter?: number;
+  createdBefore?: number;
+  cursor?: TimerCursor;
+  limit?: number;
+  sort?: 'asc' | 'desc';
+}
+
+export interface TimerPage {
+  timers: TimerState[];
+  nextCursor: string | null;
+}
+
+export function encodeTimerCursor(cursor: TimerCursor): string {
+  return `${cursor.createdAt}:${cursor.id}`;
+}
+
+// Returns null for anything that was not produced by encodeTimerCursor
+export function decodeTimerCursor(cursor: string): TimerCursor | null {
+  const separator = cursor.indexOf(':');
+  const createdAt = Number(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  if (separator <= 0 || !Number.isInteger(createdAt) || !id) return null;
+  return { createdAt, id };
+}
+
+// Storage used by the API routes and TimerProvider. The SQLite-backed
+// `database` service is the default; InMemoryTimerRepository runs anywhere.
+export interface TimerRepository {
+  initialize(): Promise<void>;
+
+  createTimer(timer: Omit<TimerState, 'id'>): Promise<TimerState>;
+  // With expectedVersion, saves only if the timer is still at that version
+  // and throws StaleTimerError otherwise
+  updateTimer(
+    id: string,
+    updates: Partial<TimerState>,
+    event?: TimerTransitionEvent,
+    expectedVersion?: number,
+  ): Promise<TimerState>;
+  getTimer(id: string): Promise<TimerState | null>;
+  // Newest timer, optionally only those with the given name
+  getCurrentTimer(childId?: string, name?: string): Promise<TimerState | null>;
+  getAllTimers(childId?: string): Promise<TimerState[]>;
+  listTimers(options?: TimerListOptions): Promise<TimerPage>;
+  // Throws StaleTimerError when given a version the timer is no longer at
+  deleteTimer(id: string, expectedVersion?: number): Promise<void>;
+  clearAllTimers(): Promise<void>;
+  getTimerTransitions(timerId: string): Promise<TimerTransition[]>;
+
+  createChild(child: Omit<Child, 'id'>): Promise<Child>;
+  updateChild(id: string, updates: Partial<Omit<Child, 'id'>>): Promise<Child>;
+  getChild(id: string): Promise<Child | null>;
+  getChildren(): Promise<Child[]>;
+  deleteChild(id: string): Promise<void>;
+
+  // Activating a template deactivates every other one
+  createSchedule(
+    schedule: Omit<ScheduleTemplate, 'id'>,
+  ): Promise<ScheduleTemplate>;
+  updateSchedule(
+    id: string,
+    updates: Partial<Omit<ScheduleTemplate, 'id'>>,
+  ): Promise<ScheduleTemplate>;
+  getSchedule(id: string): Promise<ScheduleTemplate | null>;
+  getSchedules(): Promise<ScheduleTemplate[]>;
+  getActiveSchedule(): Promise<ScheduleTemplate | null>;
+  deleteSchedule(id: string): Promise<void>;
+
+  createEvent(event: Omit<PottyEvent, 'id'>): Promise<PottyEvent>;
+  // Newest first; childId matches events logged against that child's timers
+  getEvents(options?: {
+    timerId?: string;
+    childId?: string;
+    outcome?: PottyOutcome;
+    limit?: number;
+  }): Promise<PottyEvent[]>;
+
+  createMissedAlert(alert: Omit<MissedAlert, 'id'>): Promise<MissedAlert>;
+  // Newest expiry first
+  getMissedAlerts(options?: {
+    timerId?: string;
+    limit?: number;
+  }): Promise<MissedAlert[]>;
+
+  // Stores a token by the hash of its secret
+  createApiToken(
+    token: Omit<ApiToken, 'id'>,
+    tokenHash: string,
+  ): Promise<ApiToken>;
+  // Newest first, revoked ones included
+  getApiTokens(): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | null>;
+  revokeApiToken(id: string, revokedAt: number): Promise<void>;
+
+  getRetentionPolicy(): RetentionPolicy;
+  setRetentionPolicy(policy: RetentionPolicy): void;
+  // Archives and rolls up everything older than the policy's detail window.
+  // Also runs as part of initialize().
+  pruneOldData(policy?: RetentionPolicy): Promise<RetentionResult>;
+  getDailyAggregates(): Promise<DailyAggregate[]>;
+
+  // Every stored record, archived timers included
+  exportData(): Promise<BackupData>;
+  // Inserts the given records as-is in one go; callers drop existing ids first
+  importData(data: BackupData): Promise<void>;
+}
+
+let activeRepository: TimerRepository | null = null;
+
+// The repository in use, SQLite by default. A server started with
+// TIMER_REPOSITORY=memory, e.g. the API under plain Node, keeps everything in
+// memory instead.
+export function getTimerRepository(): TimerRepository {
+  if (!activeRepository) {
+    // Required lazily so expo-sqlite is only loaded where it is used
+    if (process.env.TIMER_REPOSITORY === 'memory') {
+      const { InMemoryTimerRepository } = require('./memoryTimerRepository');
+      activeRepository = new InMemoryTimerRepository() as TimerRepository;
+    } else {
+      activeRepository = require('./database').database as TimerRepository;
+    }
+  }
+  return activeRepository;
+}
+
+// Swaps the repository every route and TimerProvider use. Pass null to go
+// back to the default.
+export function setTimerRepository(repository: TimerRepository | null): void {
+  activeRepository = repository;
+}
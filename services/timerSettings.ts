@@ -0,0 +1,24 @@
+import { TimerState } from '../contexts/TimerContext';
+import { parseTimerName } from './namedTimers';
+import { parsePreAlertOffsets } from './preAlerts';
+import { parseCountUpThreshold } from './countUp';
+import { recurrenceSchema } from './recurrence';
+import { Schema, fromParser, optional } from './validation';
+
+// The fields PATCH /api/timers/:id may change. Run state (isActive,
+// remainingTime, startTime and the like) only changes through the actions.
+export type TimerSettings = Pick<
+  TimerState,
+  | 'name'
+  | 'preAlertOffsets'
+  | 'countUpThreshold'
+  | 'isRecurring'
+  | 'maxRunsPerDay'
+>;
+
+export const timerSettingsSchema: Schema<TimerSettings> = {
+  name: optional(fromParser(parseTimerName, 'name')),
+  preAlertOffsets: optional(fromParser(parsePreAlertOffsets, 'offsets')),
+  countUpThreshold: optional(fromParser(parseCountUpThreshold, 'threshold')),
+  ...recurrenceSchema,
+};
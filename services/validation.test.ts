@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import {
+  booleanParam,
+  invalidRequest,
+  nonEmptyString,
+  optional,
+  positiveIntegerParam,
+  positiveNumber,
+  validate,
+  validateBody,
+} from './validation';
+
+describe('validation', () => {
+  const schema = {
+    name: nonEmptyString,
+    duration: optional(positiveNumber),
+  };
+
+  it('should read the fields a schema names', () => {
+    expect(validate({ name: ' Potty ', ignored: true }, schema)).toEqual({
+      value: { name: 'Potty' },
+    });
+  });
+
+  it('should report every bad field', () => {
+    expect(validate({ duration: -1 }, schema)).toEqual({
+      errors: [
+        { field: 'name', message: 'Invalid name. Must be a non-empty string.' },
+        {
+          field: 'duration',
+          message: 'Invalid duration. Must be a positive number.',
+        },
+      ],
+    });
+  });
+
+  it('should reject fields outside the schema when asked', () => {
+    expect(
+      validate({ name: 'Potty', remainingTime: 0 }, schema, {
+        allowUnknown: false,
+      }),
+    ).toEqual({
+      errors: [
+        {
+          field: 'remainingTime',
+          message:
+            'Unknown field remainingTime. Must be one of: name, duration.',
+        },
+      ],
+    });
+  });
+
+  it('should read query string values', () => {
+    const query = { limit: positiveIntegerParam(100), isActive: booleanParam };
+
+    expect(validate({ limit: '20', isActive: 'false' }, query)).toEqual({
+      value: { limit: 20, isActive: false },
+    });
+    expect(validate({ limit: '101', isActive: 'no' }, query)).toEqual({
+      errors: [
+        {
+          field: 'limit',
+          message: 'Invalid limit. Must be an integer between 1 and 100.',
+        },
+        {
+          field: 'isActive',
+          message: "Invalid isActive. Must be 'true' or 'false'.",
+        },
+      ],
+    });
+  });
+
+  it('should reject a body that is not a JSON object', async () => {
+    const post = (body: string) =>
+      validateBody(
+        new Request('http://localhost:3000/api/timers', {
+          method: 'POST',
+          body,
+        }),
+        schema,
+      );
+
+    expect(await post('not json')).toEqual({
+      errors: [{ field: 'body', message: 'Invalid body. Must be JSON.' }],
+    });
+    expect(await post('[1]')).toEqual({
+      errors: [
+        { field: 'body', message: 'Invalid body. Must be a JSON object.' },
+      ],
+    });
+  });
+
+  it('should answer 400 listing each field', async () => {
+    const response = invalidRequest([
+      { field: 'name', message: 'Invalid name. Must be a non-empty string.' },
+      {
+        field: 'duration',
+        message: 'Invalid duration. Must be a positive number.',
+      },
+    ]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error:
+        'Invalid name. Must be a non-empty string. Invalid duration. Must be a positive number.',
+      errors: [
+        { field: 'name', message: 'Invalid name. Must be a non-empty string.' },
+        {
+          field: 'duration',
+          message: 'Invalid duration. Must be a positive number.',
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,215 @@
+// Request validation shared by every API route. A route describes its body or
+// query string as a schema of field rules; every bad field is reported at once.
+
+// One rejected field of a request
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Reads one field's raw value (undefined when left out). `field` names it in
+// the error message.
+export type FieldRule<T> = (
+  value: unknown,
+  field: string,
+) => { value: T } | { error: string };
+
+export type Schema<T> = { [K in keyof T]-?: FieldRule<T[K]> };
+
+// Applies each rule to its field. Fields that read as undefined are left out
+// of the result; with `allowUnknown: false` fields outside the schema are
+// errors too.
+export function validate<T>(
+  input: Record<string, unknown>,
+  schema: Schema<T>,
+  { allowUnknown = true }: { allowUnknown?: boolean } = {},
+): { value: T } | { errors: FieldError[] } {
+  const rules = schema as Record<string, FieldRule<unknown>>;
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const result = rule(input[field], field);
+    if ('error' in result) {
+      errors.push({ field, message: result.error });
+    } else if (result.value !== undefined) {
+      value[field] = result.value;
+    }
+  }
+
+  if (!allowUnknown) {
+    for (const field of Object.keys(input)) {
+      if (field in rules) continue;
+      errors.push({
+        field,
+        message: `Unknown field ${field}. Must be one of: ${Object.keys(rules).join(', ')}.`,
+      });
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { value: value as T };
+}
+
+// Reads a JSON object body; an empty body reads as {}
+export async function readBody(
+  request: Request,
+): Promise<{ body: Record<string, unknown> } | { errors: FieldError[] }> {
+  const text = await request.text();
+  if (!text) return { body: {} };
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return {
+      errors: [{ field: 'body', message: 'Invalid body. Must be JSON.' }],
+    };
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return {
+      errors: [
+        { field: 'body', message: 'Invalid body. Must be a JSON object.' },
+      ],
+    };
+  }
+  return { body: body as Record<string, unknown> };
+}
+
+export async function validateBody<T>(
+  request: Request,
+  schema: Schema<T>,
+  options?: { allowUnknown?: boolean },
+): Promise<{ value: T } | { errors: FieldError[] }> {
+  const read = await readBody(request);
+  return 'errors' in read ? read : validate(read.body, schema, options);
+}
+
+export function validateQuery<T>(
+  request: Request,
+  schema: Schema<T>,
+): { value: T } | { errors: FieldError[] } {
+  return validate(
+    Object.fromEntries(new URL(request.url).searchParams),
+    schema,
+  );
+}
+
+// The 400 every route answers with. `error` joins the messages for clients
+// that only show one line; `errors` lists each field.
+export function invalidRequest(errors: FieldError[]): Response {
+  return Response.json(
+    {
+      success: false,
+      error: errors.map((error) => error.message).join(' '),
+      errors,
+    },
+    { status: 400 },
+  );
+}
+
+// Rules
+
+// Accepts values passing `test`; `must` finishes "Invalid <field>. Must be …"
+export const check =
+  <T>(test: (value: unknown) => boolean, must: string): FieldRule<T> =>
+  (value, field) =>
+    test(value)
+      ? { value: value as T }
+      : { error: `Invalid ${field}. Must be ${must}.` };
+
+export const optional =
+  <T>(rule: FieldRule<T>): FieldRule<T | undefined> =>
+  (value, field) =>
+    value === undefined ? { value: undefined } : rule(value, field);
+
+// Uses one of the repo's `{ [key]: value } | { error }` parse helpers as a rule
+export const fromParser =
+  <K extends string, T>(
+    parse: (value: unknown) => { [P in K]: T } | { error: string },
+    key: K,
+  ): FieldRule<T> =>
+  (value) => {
+    const result = parse(value);
+    return 'error' in result
+      ? { error: result.error }
+      : { value: (result as { [P in K]: T })[key] };
+  };
+
+export const positiveNumber = check<number>(
+  (value) => typeof value === 'number' && value > 0,
+  'a positive number',
+);
+
+export const positiveInteger = check<number>(
+  (value) => Number.isInteger(value) && (value as number) > 0,
+  'a positive integer',
+);
+
+export const boolean = check<boolean>(
+  (value) => typeof value === 'boolean',
+  'a boolean',
+);
+
+export const string = check<string>(
+  (value) => typeof value === 'string',
+  'a string',
+);
+
+// Trimmed
+export const nonEmptyString: FieldRule<string> = (value, field) =>
+  typeof value === 'string' && value.trim() !== ''
+    ? { value: value.trim() }
+    : { error: `Invalid ${field}. Must be a non-empty string.` };
+
+export const nullableString = check<string | null>(
+  (value) => value === null || typeof value === 'string',
+  'a string',
+);
+
+export const oneOf = <T extends string>(values: readonly T[]): FieldRule<T> =>
+  check<T>(
+    (value) => values.includes(value as T),
+    values.length === 2
+      ? `'${values[0]}' or '${values[1]}'`
+      : `one of: ${values.join(', ')}`,
+  );
+
+// Query string rules; values arrive as text
+
+export const positiveIntegerParam = (
+  max?: number,
+): FieldRule<number | undefined> =>
+  optional((value, field) => {
+    const number = Number(value);
+    return value !== '' &&
+      Number.isInteger(number) &&
+      number >= 1 &&
+      (max === undefined || number <= max)
+      ? { value: number }
+      : {
+          error: `Invalid ${field}. Must be ${
+            max === undefined
+              ? 'a positive integer'
+              : `an integer between 1 and ${max}`
+          }.`,
+        };
+  });
+
+export const booleanParam: FieldRule<boolean | undefined> = optional(
+  (value, field) => {
+    const result = oneOf(['true', 'false'])(value, field);
+    return 'error' in result ? result : { value: result.value === 'true' };
+  },
+);
+
+// Milliseconds
+export const timestampParam: FieldRule<number | undefined> = optional(
+  (value, field) => {
+    const timestamp = Number(value);
+    return value !== '' && Number.isFinite(timestamp) && timestamp >= 0
+      ? { value: timestamp }
+      : { error: `Invalid ${field}. Must be a timestamp in milliseconds.` };
+  },
+);
+
+export const stringParam: FieldRule<string | undefined> = optional(string);
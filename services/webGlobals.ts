@@ -0,0 +1,28 @@
+// Web APIs that the API server runtime and the web build provide, but the
+// app's React Native types do not declare. `localStorage` is only there in a
+// browser.
+
+interface StreamController {
+  enqueue(chunk: Uint8Array): void;
+  close(): void;
+}
+
+export const { crypto, localStorage, ReadableStream, TextEncoder } =
+  globalThis as unknown as {
+    crypto: {
+      getRandomValues(array: Uint8Array): Uint8Array;
+      subtle: {
+        digest(algorithm: string, data: Uint8Array): Promise<ArrayBuffer>;
+      };
+    };
+    localStorage?: {
+      getItem(key: string): string | null;
+      setItem(key: string, value: string): void;
+      removeItem(key: string): void;
+    };
+    ReadableStream: new (source: {
+      start(controller: StreamController): void;
+      cancel(): void;
+    }) => BodyInit_;
+    TextEncoder: new () => { encode(text: string): Uint8Array };
+  };